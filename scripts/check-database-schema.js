@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+
+/**
+ * Database Schema Check
+ *
+ * Loads setup-production-db.sql into an in-process Postgres (PGlite) and
+ * checks the behaviour of its constraints and triggers, which jest cannot
+ * reach through the mocked Supabase client.
+ *
+ * Usage: node scripts/check-database-schema.js
+ */
+
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { PGlite } = require('@electric-sql/pglite');
+const { pgcrypto } = require('@electric-sql/pglite/contrib/pgcrypto');
+
+const schema = fs.readFileSync(path.join(__dirname, '..', 'setup-production-db.sql'), 'utf8');
+
+const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+async function insertUser(db, email) {
+  const { rows } = await db.query('INSERT INTO public.users (email) VALUES ($1) RETURNING id', [
+    email,
+  ]);
+  return rows[0].id;
+}
+
+async function insertKey(db, userId, revokedAt = null) {
+  const { rows } = await db.query(
+    `INSERT INTO public.api_keys (user_id, name, key_prefix, key_salt, key_hash, revoked_at)
+     VALUES ($1, 'Check', 'dandi_sk_check', 'salt', gen_random_uuid()::text, $2)
+     RETURNING id`,
+    [userId, revokedAt]
+  );
+  return rows[0].id;
+}
+
+async function insertUsageEvent(db, userId, apiKeyId) {
+  const { rows } = await db.query(
+    `INSERT INTO public.api_usage_events (api_key_id, user_id, endpoint, status_code)
+     VALUES ($1, $2, '/api/v1/github-summarizer', 200)
+     RETURNING id`,
+    [apiKeyId, userId]
+  );
+  return rows[0].id;
+}
+
+async function insertAuditEvent(db, userId, actorId) {
+  const { rows } = await db.query(
+    `INSERT INTO public.audit_events (user_id, actor_id, action)
+     VALUES ($1, $2, 'api_key.created')
+     RETURNING id`,
+    [userId, actorId]
+  );
+  return rows[0].id;
+}
+
+const checks = {
+  async 'usage increments stop at the monthly limit'(db) {
+    const userId = await insertUser(db, 'usage-limit@dandi.test');
+    const apiKeyId = await insertKey(db, userId);
+    const increment = (month) =>
+      db
+        .query('SELECT * FROM public.increment_api_key_usage($1, $2, 10)', [apiKeyId, month])
+        .then(({ rows }) => rows[0]);
+
+    // PGlite runs one query at a time, so this checks the conditional UPDATE
+    // of every caller rather than the row lock between them
+    const results = await Promise.all(Array.from({ length: 25 }, () => increment('2026-10')));
+    assert.equal(results.filter((result) => result.allowed).length, 10);
+    assert.ok(results.every((result) => result.usage_count <= 10));
+
+    const { rows } = await db.query('SELECT current_usage FROM public.api_keys WHERE id = $1', [
+      apiKeyId,
+    ]);
+    assert.deepEqual(rows, [{ current_usage: 10 }]);
+    assert.deepEqual(await increment('2026-11'), {
+      allowed: true,
+      usage_count: 1,
+      usage_limit: 10,
+    });
+  },
+
+  async 'usage events reject updates'(db) {
+    const userId = await insertUser(db, 'usage-updates@dandi.test');
+    const eventId = await insertUsageEvent(db, userId, await insertKey(db, userId));
+
+    await assert.rejects(
+      db.query('UPDATE public.api_usage_events SET status_code = 500 WHERE id = $1', [eventId]),
+      /api_usage_events is append-only/
+    );
+    await assert.rejects(
+      db.query('UPDATE public.api_usage_events SET api_key_id = NULL WHERE id = $1', [eventId]),
+      /api_usage_events is append-only/
+    );
+  },
+
+  async 'deleting a key keeps its usage events'(db) {
+    const userId = await insertUser(db, 'deleted-key@dandi.test');
+    const apiKeyId = await insertKey(db, userId);
+    const eventId = await insertUsageEvent(db, userId, apiKeyId);
+
+    await db.query('DELETE FROM public.api_keys WHERE id = $1', [apiKeyId]);
+
+    const { rows } = await db.query(
+      'SELECT api_key_id, status_code FROM public.api_usage_events WHERE id = $1',
+      [eventId]
+    );
+    assert.deepEqual(rows, [{ api_key_id: null, status_code: 200 }]);
+  },
+
+  async 'purging revoked keys keeps their usage events and audits them'(db) {
+    const userId = await insertUser(db, 'purge@dandi.test');
+    const expiredKeyId = await insertKey(db, userId, daysAgo(31));
+    const recentKeyId = await insertKey(db, userId, daysAgo(1));
+    const eventId = await insertUsageEvent(db, userId, expiredKeyId);
+    await insertUsageEvent(db, userId, recentKeyId);
+
+    const { rows } = await db.query('SELECT public.purge_revoked_api_keys(30) AS purged');
+    assert.equal(rows[0].purged, 1);
+
+    const keys = await db.query('SELECT id FROM public.api_keys WHERE user_id = $1', [userId]);
+    assert.deepEqual(keys.rows, [{ id: recentKeyId }]);
+
+    const events = await db.query('SELECT api_key_id FROM public.api_usage_events WHERE id = $1', [
+      eventId,
+    ]);
+    assert.deepEqual(events.rows, [{ api_key_id: null }]);
+
+    const audit = await db.query(
+      `SELECT actor_id, action, target_id, changes FROM public.audit_events
+       WHERE user_id = $1 AND action = 'api_key.purged'`,
+      [userId]
+    );
+    assert.deepEqual(audit.rows, [
+      {
+        actor_id: null,
+        action: 'api_key.purged',
+        target_id: expiredKeyId,
+        changes: { name: { from: 'Check', to: null } },
+      },
+    ]);
+  },
+
+  async 'audit events reject updates'(db) {
+    const userId = await insertUser(db, 'audit-updates@dandi.test');
+    const eventId = await insertAuditEvent(db, userId, userId);
+
+    await assert.rejects(
+      db.query("UPDATE public.audit_events SET action = 'api_key.revoked' WHERE id = $1", [
+        eventId,
+      ]),
+      /audit_events is append-only/
+    );
+    await assert.rejects(
+      db.query('UPDATE public.audit_events SET actor_id = NULL WHERE id = $1', [eventId]),
+      /audit_events is append-only/
+    );
+  },
+
+  async 'deleting an actor keeps the audit events they made'(db) {
+    const userId = await insertUser(db, 'audited@dandi.test');
+    const actorId = await insertUser(db, 'actor@dandi.test');
+    const eventId = await insertAuditEvent(db, userId, actorId);
+
+    await db.query('DELETE FROM public.users WHERE id = $1', [actorId]);
+
+    const { rows } = await db.query(
+      'SELECT actor_id, action FROM public.audit_events WHERE id = $1',
+      [eventId]
+    );
+    assert.deepEqual(rows, [{ actor_id: null, action: 'api_key.created' }]);
+  },
+};
+
+async function checkDatabaseSchema() {
+  console.log('🔍 Checking database schema...');
+
+  const db = new PGlite({ extensions: { pgcrypto } });
+  let failed = 0;
+
+  try {
+    await db.exec(schema);
+
+    for (const [name, check] of Object.entries(checks)) {
+      try {
+        await check(db);
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failed++;
+        console.error(`❌ ${name}: ${error.message}`);
+      }
+    }
+  } finally {
+    await db.close();
+  }
+
+  if (failed) {
+    console.error(`❌ ${failed} schema check(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('✅ Database schema checks passed');
+}
+
+checkDatabaseSchema().catch((error) => {
+  console.error('❌ Error checking database schema:', error.message);
+  process.exit(1);
+});
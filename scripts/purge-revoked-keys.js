@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+/**
+ * Revoked API Key Purge
+ *
+ * Hard-deletes API keys that were revoked more than
+ * API_KEY_REVOKED_RETENTION_DAYS ago (default 30) by calling the
+ * purge_revoked_api_keys() database function. Usage events of purged keys are
+ * kept with their api_key_id set to NULL, and each purged key is recorded as an
+ * api_key.purged audit event.
+ *
+ * Usage: ENV_FILE=.env.production.local node scripts/purge-revoked-keys.js
+ */
+
+const envFile = process.env.ENV_FILE || '.env.local';
+require('dotenv').config({ path: envFile });
+const { createClient } = require('@supabase/supabase-js');
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const retentionDays = Number(process.env.API_KEY_REVOKED_RETENTION_DAYS) || 30;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing Supabase environment variables');
+  console.error('Required: NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+async function purgeRevokedKeys() {
+  console.log(`🧹 Purging API keys revoked more than ${retentionDays} days ago...`);
+
+  const { data, error } = await supabase.rpc('purge_revoked_api_keys', {
+    p_retention_days: retentionDays,
+  });
+
+  if (error) {
+    console.error('❌ Error purging revoked API keys:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`✅ Purged ${data} revoked API key(s)`);
+}
+
+purgeRevokedKeys();
@@ -115,13 +115,26 @@ async function setupDatabase() {
           user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
           name VARCHAR(255) NOT NULL,
           description TEXT,
-          key VARCHAR(255) UNIQUE NOT NULL,
+          key_prefix VARCHAR(32) NOT NULL,
+          key_salt VARCHAR(64) NOT NULL,
+          key_hash VARCHAR(128) UNIQUE NOT NULL,
           permissions JSONB DEFAULT '[]',
           key_type VARCHAR(50) DEFAULT 'development',
           limit_usage BOOLEAN DEFAULT false,
           monthly_limit INTEGER DEFAULT 5,
           current_usage INTEGER DEFAULT 0,
           last_reset_month VARCHAR(7),
+          expires_at TIMESTAMP WITH TIME ZONE,
+          previous_key_prefix VARCHAR(32),
+          previous_key_salt VARCHAR(64),
+          previous_key_hash VARCHAR(128),
+          previous_key_expires_at TIMESTAMP WITH TIME ZONE,
+          rotated_at TIMESTAMP WITH TIME ZONE,
+          revoked_at TIMESTAMP WITH TIME ZONE,
+          revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+          revoked_reason TEXT,
+          allowed_ips JSONB NOT NULL DEFAULT '[]',
+          allowed_referrers JSONB NOT NULL DEFAULT '[]',
           created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
           updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
         );
@@ -149,6 +162,466 @@ async function setupDatabase() {
       console.log('✅ Usage tracking columns added to api_keys table');
     }
 
+    // Hash plaintext keys left over from before key hashing and drop the plaintext column
+    const { error: hashKeysError } = await supabase.rpc('exec_sql', {
+      sql: `
+        CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+        ALTER TABLE api_keys
+        ADD COLUMN IF NOT EXISTS key_prefix VARCHAR(32),
+        ADD COLUMN IF NOT EXISTS key_salt VARCHAR(64),
+        ADD COLUMN IF NOT EXISTS key_hash VARCHAR(128);
+
+        DO $$
+        BEGIN
+          IF EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'api_keys' AND column_name = 'key'
+          ) THEN
+            UPDATE api_keys
+              SET key_salt = encode(gen_random_bytes(16), 'hex')
+              WHERE key_hash IS NULL;
+
+            UPDATE api_keys
+              SET key_prefix = COALESCE(substring(key from '^((?:prod|dev)_sk_.{0,4})'), left(key, 4)),
+                  key_hash = encode(digest(key_salt || key, 'sha256'), 'hex')
+              WHERE key_hash IS NULL;
+
+            ALTER TABLE api_keys DROP COLUMN key;
+          END IF;
+        END $$;
+      `,
+    });
+
+    if (hashKeysError) {
+      console.log('API key hash columns already exist or error:', hashKeysError.message);
+    } else {
+      console.log('✅ API keys migrated to hashed storage');
+    }
+
+    // Add optional key expiration (NULL = never expires)
+    const { error: expiresAtError } = await supabase.rpc('exec_sql', {
+      sql: `
+        ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+      `,
+    });
+
+    if (expiresAtError) {
+      console.log('Expiration column already exists or error:', expiresAtError.message);
+    } else {
+      console.log('✅ Expiration column added to api_keys table');
+    }
+
+    // Add key rotation columns (the replaced secret keeps working until previous_key_expires_at)
+    const { error: rotationColumnsError } = await supabase.rpc('exec_sql', {
+      sql: `
+        ALTER TABLE api_keys
+        ADD COLUMN IF NOT EXISTS previous_key_prefix VARCHAR(32),
+        ADD COLUMN IF NOT EXISTS previous_key_salt VARCHAR(64),
+        ADD COLUMN IF NOT EXISTS previous_key_hash VARCHAR(128),
+        ADD COLUMN IF NOT EXISTS previous_key_expires_at TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP WITH TIME ZONE;
+      `,
+    });
+
+    if (rotationColumnsError) {
+      console.log('Rotation columns already exist or error:', rotationColumnsError.message);
+    } else {
+      console.log('✅ Rotation columns added to api_keys table');
+    }
+
+    // Add soft revocation columns and the revoked key purge function
+    const { error: revocationError } = await supabase.rpc('exec_sql', {
+      sql: `
+        ALTER TABLE api_keys
+        ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS revoked_reason TEXT;
+
+        CREATE OR REPLACE FUNCTION purge_revoked_api_keys(p_retention_days INTEGER DEFAULT 30)
+        RETURNS INTEGER
+        LANGUAGE plpgsql
+        AS $$
+        DECLARE
+          v_purged INTEGER;
+        BEGIN
+          WITH deleted AS (
+            DELETE FROM api_keys
+            WHERE revoked_at < NOW() - make_interval(days => p_retention_days)
+            RETURNING id, user_id, name
+          ),
+          audited AS (
+            INSERT INTO audit_events (user_id, actor_id, action, target_type, target_id, changes)
+            SELECT user_id, NULL, 'api_key.purged', 'api_key', id::TEXT,
+              jsonb_build_object('name', jsonb_build_object('from', name, 'to', NULL))
+            FROM deleted
+            RETURNING 1
+          )
+          SELECT COUNT(*)::INTEGER INTO v_purged FROM audited;
+          RETURN v_purged;
+        END;
+        $$;
+      `,
+    });
+
+    if (revocationError) {
+      console.log('Revocation setup error:', revocationError.message);
+    } else {
+      console.log('✅ Revocation columns and purge function added');
+    }
+
+    // Add per-key network restrictions (empty list = no restriction)
+    const { error: restrictionsError } = await supabase.rpc('exec_sql', {
+      sql: `
+        ALTER TABLE api_keys
+        ADD COLUMN IF NOT EXISTS allowed_ips JSONB NOT NULL DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS allowed_referrers JSONB NOT NULL DEFAULT '[]';
+      `,
+    });
+
+    if (restrictionsError) {
+      console.log('Restriction columns already exist or error:', restrictionsError.message);
+    } else {
+      console.log('✅ IP and referrer allowlist columns added to api_keys table');
+    }
+
+    // Create plans table (0 = unlimited) and put every user on a plan
+    const { error: plansError } = await supabase.rpc('exec_sql', {
+      sql: `
+        CREATE TABLE IF NOT EXISTS plans (
+          slug VARCHAR(50) PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          max_monthly_limit INTEGER NOT NULL,
+          max_api_keys INTEGER NOT NULL,
+          features JSONB DEFAULT '[]',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+
+        INSERT INTO plans (slug, name, max_monthly_limit, max_api_keys, features) VALUES
+          ('free', 'Free', 10, 3, '[]'),
+          ('basic', 'Basic', 750, 10, '["production_keys"]'),
+          ('pro', 'Pro', 3000, 25, '["production_keys"]'),
+          ('enterprise', 'Enterprise', 0, 0, '["production_keys", "unlimited_usage"]')
+        ON CONFLICT (slug) DO UPDATE SET
+          name = EXCLUDED.name,
+          max_monthly_limit = EXCLUDED.max_monthly_limit,
+          max_api_keys = EXCLUDED.max_api_keys,
+          features = EXCLUDED.features,
+          updated_at = NOW();
+
+        ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS plan VARCHAR(50) NOT NULL DEFAULT 'free' REFERENCES plans(slug);
+      `,
+    });
+
+    if (plansError) {
+      console.log('Plans setup error:', plansError.message);
+    } else {
+      console.log('✅ Plans table created and users assigned a plan');
+    }
+
+    // Create the atomic usage counting function
+    const { error: usageFunctionError } = await supabase.rpc('exec_sql', {
+      sql: `
+        CREATE OR REPLACE FUNCTION increment_api_key_usage(
+          p_key_id UUID,
+          p_month VARCHAR(7),
+          p_limit INTEGER
+        )
+        RETURNS TABLE (allowed BOOLEAN, usage_count INTEGER, usage_limit INTEGER)
+        LANGUAGE plpgsql
+        AS $$
+        DECLARE
+          v_usage INTEGER;
+        BEGIN
+          -- The row lock taken by UPDATE serialises concurrent callers, and the WHERE
+          -- clause is re-checked against the latest row, so the limit cannot be overshot
+          UPDATE api_keys
+            SET current_usage = CASE
+                  WHEN last_reset_month = p_month THEN COALESCE(current_usage, 0) + 1
+                  ELSE 1
+                END,
+                last_reset_month = p_month,
+                updated_at = NOW()
+            WHERE id = p_key_id
+              AND (last_reset_month IS DISTINCT FROM p_month OR COALESCE(current_usage, 0) < p_limit)
+            RETURNING current_usage INTO v_usage;
+
+          IF FOUND THEN
+            RETURN QUERY SELECT TRUE, v_usage, p_limit;
+          ELSE
+            RETURN QUERY
+              SELECT FALSE, COALESCE(k.current_usage, 0), p_limit
+              FROM api_keys k
+              WHERE k.id = p_key_id;
+          END IF;
+        END;
+        $$;
+      `,
+    });
+
+    if (usageFunctionError) {
+      console.log('Usage counting function error:', usageFunctionError.message);
+    } else {
+      console.log('✅ increment_api_key_usage function created');
+    }
+
+    // Create rate_limit_buckets table and burst counter functions
+    const { error: rateLimitBucketsError } = await supabase.rpc('exec_sql', {
+      sql: `
+        CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+          bucket VARCHAR(255) NOT NULL,
+          window_start BIGINT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+          PRIMARY KEY (bucket, window_start)
+        );
+
+        CREATE OR REPLACE FUNCTION increment_rate_limit_bucket(
+          p_bucket VARCHAR(255),
+          p_window_start BIGINT,
+          p_expires_at TIMESTAMP WITH TIME ZONE
+        )
+        RETURNS INTEGER
+        LANGUAGE plpgsql
+        AS $$
+        DECLARE
+          v_count INTEGER;
+        BEGIN
+          INSERT INTO rate_limit_buckets (bucket, window_start, count, expires_at)
+          VALUES (p_bucket, p_window_start, 1, p_expires_at)
+          ON CONFLICT (bucket, window_start)
+            DO UPDATE SET count = rate_limit_buckets.count + 1
+          RETURNING count INTO v_count;
+
+          -- Drop this bucket's expired windows; purge_rate_limit_buckets() sweeps the rest
+          DELETE FROM rate_limit_buckets
+            WHERE bucket = p_bucket AND expires_at < NOW();
+
+          RETURN v_count;
+        END;
+        $$;
+
+        -- Gives back a hit that was rejected, so only allowed requests fill the window
+        CREATE OR REPLACE FUNCTION refund_rate_limit_bucket(
+          p_bucket VARCHAR(255),
+          p_window_start BIGINT
+        )
+        RETURNS INTEGER
+        LANGUAGE sql
+        AS $$
+          UPDATE rate_limit_buckets
+            SET count = count - 1
+            WHERE bucket = p_bucket AND window_start = p_window_start AND count > 0
+            RETURNING count;
+        $$;
+
+        CREATE OR REPLACE FUNCTION purge_rate_limit_buckets()
+        RETURNS INTEGER
+        LANGUAGE sql
+        AS $$
+          WITH deleted AS (
+            DELETE FROM rate_limit_buckets WHERE expires_at < NOW() RETURNING 1
+          )
+          SELECT COUNT(*)::INTEGER FROM deleted;
+        $$;
+      `,
+    });
+
+    if (rateLimitBucketsError) {
+      console.log('Rate limit buckets setup error:', rateLimitBucketsError.message);
+    } else {
+      console.log('✅ Rate limit buckets table and functions created');
+    }
+
+    // Create the append-only usage event log and its retention function
+    const { error: usageEventsError } = await supabase.rpc('exec_sql', {
+      sql: `
+        CREATE TABLE IF NOT EXISTS api_usage_events (
+          id BIGSERIAL PRIMARY KEY,
+          api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          endpoint VARCHAR(255) NOT NULL,
+          github_url TEXT,
+          status_code INTEGER NOT NULL,
+          latency_ms INTEGER,
+          prompt_tokens INTEGER,
+          completion_tokens INTEGER,
+          total_tokens INTEGER,
+          error_class VARCHAR(100),
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+
+        CREATE OR REPLACE FUNCTION prevent_api_usage_event_update()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        AS $$
+        BEGIN
+          -- ON DELETE SET NULL runs as an UPDATE of api_key_id; let that one change through
+          -- once the referenced row is gone
+          IF OLD.api_key_id IS NOT NULL
+            AND NEW.api_key_id IS NULL
+            AND (to_jsonb(NEW) - 'api_key_id') = (to_jsonb(OLD) - 'api_key_id')
+            AND NOT EXISTS (SELECT 1 FROM api_keys WHERE id = OLD.api_key_id) THEN
+            RETURN NEW;
+          END IF;
+
+          RAISE EXCEPTION 'api_usage_events is append-only';
+        END;
+        $$;
+
+        DROP TRIGGER IF EXISTS api_usage_events_append_only ON api_usage_events;
+        CREATE TRIGGER api_usage_events_append_only
+          BEFORE UPDATE ON api_usage_events
+          FOR EACH ROW EXECUTE FUNCTION prevent_api_usage_event_update();
+
+        CREATE OR REPLACE FUNCTION purge_api_usage_events(p_retention_days INTEGER DEFAULT 90)
+        RETURNS INTEGER
+        LANGUAGE sql
+        AS $$
+          WITH deleted AS (
+            DELETE FROM api_usage_events
+            WHERE created_at < NOW() - make_interval(days => p_retention_days)
+            RETURNING 1
+          )
+          SELECT COUNT(*)::INTEGER FROM deleted;
+        $$;
+      `,
+    });
+
+    if (usageEventsError) {
+      console.log('Usage events setup error:', usageEventsError.message);
+    } else {
+      console.log('✅ Usage events table and retention function created');
+    }
+
+    // Create audit events table (append-only) and record plan changes in it
+    const { error: auditEventsError } = await supabase.rpc('exec_sql', {
+      sql: `
+        CREATE TABLE IF NOT EXISTS audit_events (
+          id BIGSERIAL PRIMARY KEY,
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+          action VARCHAR(64) NOT NULL,
+          target_type VARCHAR(32),
+          target_id TEXT,
+          ip_address VARCHAR(45),
+          user_agent TEXT,
+          changes JSONB NOT NULL DEFAULT '{}',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+
+        CREATE OR REPLACE FUNCTION prevent_audit_event_update()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        AS $$
+        BEGIN
+          -- ON DELETE SET NULL runs as an UPDATE of actor_id; let that one change through
+          -- once the referenced row is gone
+          IF OLD.actor_id IS NOT NULL
+            AND NEW.actor_id IS NULL
+            AND (to_jsonb(NEW) - 'actor_id') = (to_jsonb(OLD) - 'actor_id')
+            AND NOT EXISTS (SELECT 1 FROM users WHERE id = OLD.actor_id) THEN
+            RETURN NEW;
+          END IF;
+
+          RAISE EXCEPTION 'audit_events is append-only';
+        END;
+        $$;
+
+        DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+        CREATE TRIGGER audit_events_append_only
+          BEFORE UPDATE ON audit_events
+          FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_update();
+
+        CREATE OR REPLACE FUNCTION audit_user_plan_change()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        AS $$
+        BEGIN
+          INSERT INTO audit_events (user_id, actor_id, action, target_type, target_id, changes)
+          VALUES (
+            NEW.id,
+            NULL,
+            'plan.changed',
+            'user',
+            NEW.id::TEXT,
+            jsonb_build_object('plan', jsonb_build_object('from', OLD.plan, 'to', NEW.plan))
+          );
+          RETURN NEW;
+        END;
+        $$;
+
+        DROP TRIGGER IF EXISTS users_audit_plan_change ON users;
+        CREATE TRIGGER users_audit_plan_change
+          AFTER UPDATE OF plan ON users
+          FOR EACH ROW
+          WHEN (OLD.plan IS DISTINCT FROM NEW.plan)
+          EXECUTE FUNCTION audit_user_plan_change();
+      `,
+    });
+
+    if (auditEventsError) {
+      console.log('Audit events setup error:', auditEventsError.message);
+    } else {
+      console.log('✅ Audit events table and plan change trigger created');
+    }
+
+    // Create analysis_cache table, the usage refund for cache hits and cache retention
+    const { error: analysisCacheError } = await supabase.rpc('exec_sql', {
+      sql: `
+        CREATE TABLE IF NOT EXISTS analysis_cache (
+          cache_key TEXT PRIMARY KEY,
+          payload JSONB NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          expires_at TIMESTAMP WITH TIME ZONE
+        );
+
+        CREATE OR REPLACE FUNCTION refund_api_key_usage(
+          p_key_id UUID,
+          p_month VARCHAR(7)
+        )
+        RETURNS INTEGER
+        LANGUAGE plpgsql
+        AS $$
+        DECLARE
+          v_usage INTEGER;
+        BEGIN
+          UPDATE api_keys
+            SET current_usage = current_usage - 1,
+                updated_at = NOW()
+            WHERE id = p_key_id
+              AND last_reset_month = p_month
+              AND current_usage > 0
+            RETURNING current_usage INTO v_usage;
+
+          IF NOT FOUND THEN
+            SELECT COALESCE(k.current_usage, 0) INTO v_usage FROM api_keys k WHERE k.id = p_key_id;
+          END IF;
+
+          RETURN v_usage;
+        END;
+        $$;
+
+        CREATE OR REPLACE FUNCTION purge_analysis_cache()
+        RETURNS INTEGER
+        LANGUAGE sql
+        AS $$
+          WITH deleted AS (
+            DELETE FROM analysis_cache WHERE expires_at < NOW() RETURNING 1
+          )
+          SELECT COUNT(*)::INTEGER FROM deleted;
+        $$;
+      `,
+    });
+
+    if (analysisCacheError) {
+      console.log('Analysis cache setup error:', analysisCacheError.message);
+    } else {
+      console.log('✅ Analysis cache table and functions created');
+    }
+
     // Create indexes
     const { error: indexesError } = await supabase.rpc('exec_sql', {
       sql: `
@@ -157,7 +630,15 @@ async function setupDatabase() {
         CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(session_token);
         CREATE INDEX IF NOT EXISTS idx_verification_tokens_token ON verification_tokens(token);
         CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
-        CREATE INDEX IF NOT EXISTS idx_api_keys_key ON api_keys(key);
+        CREATE INDEX IF NOT EXISTS idx_api_keys_key_prefix ON api_keys(key_prefix);
+        CREATE INDEX IF NOT EXISTS idx_api_keys_previous_key_prefix ON api_keys(previous_key_prefix);
+        CREATE INDEX IF NOT EXISTS idx_api_keys_revoked_at ON api_keys(revoked_at) WHERE revoked_at IS NOT NULL;
+        CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires_at ON rate_limit_buckets(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_api_usage_events_key_created ON api_usage_events(api_key_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_api_usage_events_user_created ON api_usage_events(user_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_api_usage_events_created_at ON api_usage_events(created_at);
+        CREATE INDEX IF NOT EXISTS idx_audit_events_user_created ON audit_events(user_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_analysis_cache_expires_at ON analysis_cache(expires_at) WHERE expires_at IS NOT NULL;
       `,
     });
 
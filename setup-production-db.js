@@ -33,6 +33,29 @@ console.log(`📍 Production database: ${supabaseUrl}\n`);
 const SQL_STATEMENTS = `-- Production Database Schema Setup
 -- Execute this SQL in your Supabase Dashboard
 
+-- Create Plans table (quota caps per subscription tier, 0 = unlimited)
+CREATE TABLE IF NOT EXISTS public.plans (
+  slug VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  max_monthly_limit INTEGER NOT NULL,
+  max_api_keys INTEGER NOT NULL,
+  features JSONB DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.plans (slug, name, max_monthly_limit, max_api_keys, features) VALUES
+  ('free', 'Free', 10, 3, '[]'),
+  ('basic', 'Basic', 750, 10, '["production_keys"]'),
+  ('pro', 'Pro', 3000, 25, '["production_keys"]'),
+  ('enterprise', 'Enterprise', 0, 0, '["production_keys", "unlimited_usage"]')
+ON CONFLICT (slug) DO UPDATE SET
+  name = EXCLUDED.name,
+  max_monthly_limit = EXCLUDED.max_monthly_limit,
+  max_api_keys = EXCLUDED.max_api_keys,
+  features = EXCLUDED.features,
+  updated_at = NOW();
+
 -- Create Users table (for NextAuth.js)
 CREATE TABLE IF NOT EXISTS public.users (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -40,6 +63,7 @@ CREATE TABLE IF NOT EXISTS public.users (
   email VARCHAR(255) UNIQUE NOT NULL,
   email_verified TIMESTAMP WITH TIME ZONE,
   image TEXT,
+  plan VARCHAR(50) NOT NULL DEFAULT 'free' REFERENCES public.plans(slug),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -88,24 +112,395 @@ CREATE TABLE IF NOT EXISTS public.api_keys (
   user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
   name VARCHAR(255) NOT NULL,
   description TEXT,
-  key VARCHAR(255) UNIQUE NOT NULL,
+  key_prefix VARCHAR(32) NOT NULL,
+  key_salt VARCHAR(64) NOT NULL,
+  key_hash VARCHAR(128) UNIQUE NOT NULL,
   permissions JSONB DEFAULT '[]',
   key_type VARCHAR(50) DEFAULT 'development',
   limit_usage BOOLEAN DEFAULT false,
   monthly_limit INTEGER DEFAULT 5,
   current_usage INTEGER DEFAULT 0,
   last_reset_month VARCHAR(7),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  previous_key_prefix VARCHAR(32),
+  previous_key_salt VARCHAR(64),
+  previous_key_hash VARCHAR(128),
+  previous_key_expires_at TIMESTAMP WITH TIME ZONE,
+  rotated_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  revoked_reason TEXT,
+  allowed_ips JSONB NOT NULL DEFAULT '[]',
+  allowed_referrers JSONB NOT NULL DEFAULT '[]',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create Rate limit buckets table (per-minute burst throttling)
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  bucket VARCHAR(255) NOT NULL,
+  window_start BIGINT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (bucket, window_start)
+);
+
+-- Create API usage events table (append-only, one row per metered request)
+-- Events outlive deleted keys so past usage still adds up per user
+CREATE TABLE IF NOT EXISTS public.api_usage_events (
+  id BIGSERIAL PRIMARY KEY,
+  api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  endpoint VARCHAR(255) NOT NULL,
+  github_url TEXT,
+  status_code INTEGER NOT NULL,
+  latency_ms INTEGER,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  error_class VARCHAR(100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create audit events table (append-only record of account and key activity)
+-- actor_id is NULL for changes made outside the app, e.g. plan updates
+CREATE TABLE IF NOT EXISTS public.audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  action VARCHAR(64) NOT NULL,
+  target_type VARCHAR(32),
+  target_id TEXT,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  changes JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create Analysis cache table (LLM results keyed by repository, content SHA, profile and model)
+CREATE TABLE IF NOT EXISTS public.analysis_cache (
+  cache_key TEXT PRIMARY KEY,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Migration: hash API keys at rest
+-- Databases created before key hashing stored the plaintext key in api_keys.key.
+-- Backfill the prefix, salt and hash from it, then drop the plaintext column.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS key_prefix VARCHAR(32),
+  ADD COLUMN IF NOT EXISTS key_salt VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS key_hash VARCHAR(128);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'api_keys' AND column_name = 'key'
+  ) THEN
+    UPDATE public.api_keys
+      SET key_salt = encode(gen_random_bytes(16), 'hex')
+      WHERE key_hash IS NULL;
+
+    UPDATE public.api_keys
+      SET key_prefix = COALESCE(substring(key from '^((?:prod|dev)_sk_.{0,4})'), left(key, 4)),
+          key_hash = encode(digest(key_salt || key, 'sha256'), 'hex')
+      WHERE key_hash IS NULL;
+
+    ALTER TABLE public.api_keys DROP COLUMN key;
+  END IF;
+END $$;
+
+-- Migration: plan-driven quotas
+-- Existing users start on the free plan
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS plan VARCHAR(50) NOT NULL DEFAULT 'free' REFERENCES public.plans(slug);
+
+-- Migration: optional key expiration (NULL = never expires)
+ALTER TABLE public.api_keys ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Migration: key rotation (the replaced secret keeps working until previous_key_expires_at)
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS previous_key_prefix VARCHAR(32),
+  ADD COLUMN IF NOT EXISTS previous_key_salt VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS previous_key_hash VARCHAR(128),
+  ADD COLUMN IF NOT EXISTS previous_key_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP WITH TIME ZONE;
+
+-- Migration: soft revocation (revoked keys are kept until purge_revoked_api_keys() runs)
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revoked_reason TEXT;
+
+-- Migration: per-key network restrictions (empty list = no restriction)
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS allowed_ips JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS allowed_referrers JSONB NOT NULL DEFAULT '[]';
+
+-- Atomic usage counting: check the monthly limit and increment in one statement
+CREATE OR REPLACE FUNCTION public.increment_api_key_usage(
+  p_key_id UUID,
+  p_month VARCHAR(7),
+  p_limit INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, usage_count INTEGER, usage_limit INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_usage INTEGER;
+BEGIN
+  -- The row lock taken by UPDATE serialises concurrent callers, and the WHERE
+  -- clause is re-checked against the latest row, so the limit cannot be overshot
+  UPDATE public.api_keys
+    SET current_usage = CASE
+          WHEN last_reset_month = p_month THEN COALESCE(current_usage, 0) + 1
+          ELSE 1
+        END,
+        last_reset_month = p_month,
+        updated_at = NOW()
+    WHERE id = p_key_id
+      AND (last_reset_month IS DISTINCT FROM p_month OR COALESCE(current_usage, 0) < p_limit)
+    RETURNING current_usage INTO v_usage;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT TRUE, v_usage, p_limit;
+  ELSE
+    RETURN QUERY
+      SELECT FALSE, COALESCE(k.current_usage, 0), p_limit
+      FROM public.api_keys k
+      WHERE k.id = p_key_id;
+  END IF;
+END;
+$$;
+
+-- Give back one counted request, e.g. for an analysis cache hit; returns the usage after it.
+-- A month that has been reset since the request was counted is left alone.
+CREATE OR REPLACE FUNCTION public.refund_api_key_usage(
+  p_key_id UUID,
+  p_month VARCHAR(7)
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_usage INTEGER;
+BEGIN
+  UPDATE public.api_keys
+    SET current_usage = current_usage - 1,
+        updated_at = NOW()
+    WHERE id = p_key_id
+      AND last_reset_month = p_month
+      AND current_usage > 0
+    RETURNING current_usage INTO v_usage;
+
+  IF NOT FOUND THEN
+    SELECT COALESCE(k.current_usage, 0) INTO v_usage FROM public.api_keys k WHERE k.id = p_key_id;
+  END IF;
+
+  RETURN v_usage;
+END;
+$$;
+
+-- Analysis cache retention: delete expired entries; schedule it with pg_cron, e.g.:
+--   SELECT cron.schedule('purge-analysis-cache', '0 4 * * *',
+--     'SELECT public.purge_analysis_cache()');
+CREATE OR REPLACE FUNCTION public.purge_analysis_cache()
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH deleted AS (
+    DELETE FROM public.analysis_cache WHERE expires_at < NOW() RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+-- Burst throttling counters (sliding window, one row per bucket and minute)
+CREATE OR REPLACE FUNCTION public.increment_rate_limit_bucket(
+  p_bucket VARCHAR(255),
+  p_window_start BIGINT,
+  p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.rate_limit_buckets (bucket, window_start, count, expires_at)
+  VALUES (p_bucket, p_window_start, 1, p_expires_at)
+  ON CONFLICT (bucket, window_start)
+    DO UPDATE SET count = public.rate_limit_buckets.count + 1
+  RETURNING count INTO v_count;
+
+  -- Drop this bucket's expired windows; purge_rate_limit_buckets() sweeps the rest
+  DELETE FROM public.rate_limit_buckets
+    WHERE bucket = p_bucket AND expires_at < NOW();
+
+  RETURN v_count;
+END;
+$$;
+
+-- Gives back a hit that was rejected, so only allowed requests fill the window
+CREATE OR REPLACE FUNCTION public.refund_rate_limit_bucket(
+  p_bucket VARCHAR(255),
+  p_window_start BIGINT
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  UPDATE public.rate_limit_buckets
+    SET count = count - 1
+    WHERE bucket = p_bucket AND window_start = p_window_start AND count > 0
+    RETURNING count;
+$$;
+
+CREATE OR REPLACE FUNCTION public.purge_rate_limit_buckets()
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH deleted AS (
+    DELETE FROM public.rate_limit_buckets WHERE expires_at < NOW() RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+-- Usage events are append-only: reject updates, allow deletes for retention
+CREATE OR REPLACE FUNCTION public.prevent_api_usage_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- ON DELETE SET NULL runs as an UPDATE of api_key_id; let that one change through
+  -- once the referenced row is gone
+  IF OLD.api_key_id IS NOT NULL
+    AND NEW.api_key_id IS NULL
+    AND (to_jsonb(NEW) - 'api_key_id') = (to_jsonb(OLD) - 'api_key_id')
+    AND NOT EXISTS (SELECT 1 FROM public.api_keys WHERE id = OLD.api_key_id) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'api_usage_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS api_usage_events_append_only ON public.api_usage_events;
+CREATE TRIGGER api_usage_events_append_only
+  BEFORE UPDATE ON public.api_usage_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_api_usage_event_update();
+
+-- Usage event retention: delete events older than p_retention_days (default 90)
+-- Schedule it with pg_cron, e.g.:
+--   SELECT cron.schedule('purge-api-usage-events', '0 3 * * *',
+--     'SELECT public.purge_api_usage_events(90)');
+CREATE OR REPLACE FUNCTION public.purge_api_usage_events(p_retention_days INTEGER DEFAULT 90)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH deleted AS (
+    DELETE FROM public.api_usage_events
+    WHERE created_at < NOW() - make_interval(days => p_retention_days)
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+-- Revoked key retention: hard-delete keys revoked more than p_retention_days ago
+-- (default 30). Their usage events stay, with api_key_id set to NULL, and each
+-- purged key gets an api_key.purged audit event in the same statement.
+-- Run it with "npm run db:purge-revoked-keys" or schedule it with pg_cron.
+CREATE OR REPLACE FUNCTION public.purge_revoked_api_keys(p_retention_days INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_purged INTEGER;
+BEGIN
+  WITH deleted AS (
+    DELETE FROM public.api_keys
+    WHERE revoked_at < NOW() - make_interval(days => p_retention_days)
+    RETURNING id, user_id, name
+  ),
+  audited AS (
+    INSERT INTO public.audit_events (user_id, actor_id, action, target_type, target_id, changes)
+    SELECT user_id, NULL, 'api_key.purged', 'api_key', id::TEXT,
+      jsonb_build_object('name', jsonb_build_object('from', name, 'to', NULL))
+    FROM deleted
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER INTO v_purged FROM audited;
+  RETURN v_purged;
+END;
+$$;
+
+-- Audit events are append-only
+CREATE OR REPLACE FUNCTION public.prevent_audit_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- ON DELETE SET NULL runs as an UPDATE of actor_id; let that one change through
+  -- once the referenced row is gone
+  IF OLD.actor_id IS NOT NULL
+    AND NEW.actor_id IS NULL
+    AND (to_jsonb(NEW) - 'actor_id') = (to_jsonb(OLD) - 'actor_id')
+    AND NOT EXISTS (SELECT 1 FROM public.users WHERE id = OLD.actor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON public.audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE ON public.audit_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_event_update();
+
+-- Record plan changes however the plan is updated (billing, SQL editor, ...)
+CREATE OR REPLACE FUNCTION public.audit_user_plan_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.audit_events (user_id, actor_id, action, target_type, target_id, changes)
+  VALUES (
+    NEW.id,
+    NULL,
+    'plan.changed',
+    'user',
+    NEW.id::TEXT,
+    jsonb_build_object('plan', jsonb_build_object('from', OLD.plan, 'to', NEW.plan))
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_audit_plan_change ON public.users;
+CREATE TRIGGER users_audit_plan_change
+  AFTER UPDATE OF plan ON public.users
+  FOR EACH ROW
+  WHEN (OLD.plan IS DISTINCT FROM NEW.plan)
+  EXECUTE FUNCTION public.audit_user_plan_change();
+
 -- Create Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON public.accounts(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON public.sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_token ON public.sessions(session_token);
 CREATE INDEX IF NOT EXISTS idx_verification_tokens_token ON public.verification_tokens(token);
 CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id);
-CREATE INDEX IF NOT EXISTS idx_api_keys_key ON public.api_keys(key);
+CREATE INDEX IF NOT EXISTS idx_api_keys_key_prefix ON public.api_keys(key_prefix);
+CREATE INDEX IF NOT EXISTS idx_api_keys_previous_key_prefix ON public.api_keys(previous_key_prefix);
+CREATE INDEX IF NOT EXISTS idx_api_keys_revoked_at ON public.api_keys(revoked_at) WHERE revoked_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires_at ON public.rate_limit_buckets(expires_at);
+CREATE INDEX IF NOT EXISTS idx_api_usage_events_key_created ON public.api_usage_events(api_key_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_api_usage_events_user_created ON public.api_usage_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_api_usage_events_created_at ON public.api_usage_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_user_created ON public.audit_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_analysis_cache_expires_at ON public.analysis_cache(expires_at) WHERE expires_at IS NOT NULL;
 `;
 
 async function setupProductionDatabase() {
@@ -118,11 +513,23 @@ async function setupProductionDatabase() {
     console.log(`✅ SQL statements saved to: setup-production-db.sql\n`);
 
     console.log('📋 Database tables to create:');
-    console.log('  1. public.users - User accounts');
-    console.log('  2. public.accounts - OAuth account connections');
-    console.log('  3. public.sessions - User sessions');
-    console.log('  4. public.verification_tokens - Email verification tokens');
-    console.log('  5. public.api_keys - API keys for programmatic access');
+    console.log('  1. public.plans - Subscription plans and their quota caps');
+    console.log('  2. public.users - User accounts');
+    console.log('  3. public.accounts - OAuth account connections');
+    console.log('  4. public.sessions - User sessions');
+    console.log('  5. public.verification_tokens - Email verification tokens');
+    console.log('  6. public.api_keys - API keys for programmatic access');
+    console.log('  7. public.rate_limit_buckets - Per-minute burst throttling counters');
+    console.log('  8. public.api_usage_events - Append-only per-request usage log');
+    console.log('  9. public.audit_events - Append-only account and key activity log');
+    console.log('  10. public.analysis_cache - Cached analysis results');
+    console.log('  + public.increment_api_key_usage() - Atomic monthly usage counting');
+    console.log('  + public.increment_rate_limit_bucket() - Atomic burst counter increment');
+    console.log('  + public.purge_api_usage_events() - Usage event retention');
+    console.log('  + public.purge_revoked_api_keys() - Revoked key retention');
+    console.log('  + public.audit_user_plan_change() - Plan change auditing');
+    console.log('  + public.refund_api_key_usage() - Usage refund for cache hits');
+    console.log('  + public.purge_analysis_cache() - Analysis cache retention');
     console.log('  + Indexes for performance optimization\n');
 
     console.log('🔑 NEXT STEPS - Execute the SQL in your production database:\n');
@@ -0,0 +1,229 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createMemoryCacheStore,
+  createPostgresCacheStore,
+  getAnalysisCacheKey,
+} from '@/lib/analysis-cache';
+import { POST } from '@/app/api/v1/github-summarizer/route';
+import { checkAndIncrementUsage, refundUsage } from '@/lib/rate-limiting';
+
+jest.mock('@/lib/env-validation', () => ({ validateSupabaseEnv: jest.fn() }));
+jest.mock('@/lib/burst-limiting', () => ({
+  checkIpBurstLimit: jest.fn(async () => ({ allowed: true })),
+}));
+jest.mock('@/lib/rate-limiting', () => ({
+  burstLimitError: jest.fn(),
+  checkAndIncrementUsage: jest.fn(async () => ({
+    allowed: true,
+    apiKeyId: 'key-1',
+    userId: 'user-1',
+    usage: 5,
+    limit: 100,
+    resetAt: '2026-11-01T00:00:00.000Z',
+  })),
+  refundUsage: jest.fn(async () => ({ usage: 4 })),
+}));
+jest.mock('@/lib/usage-events', () => ({
+  ...jest.requireActual('@/lib/usage-events'),
+  recordUsageEvent: jest.fn(async () => true),
+}));
+
+const entry = (summary: string) => ({
+  analysis: { summary, cool_facts: [] },
+  chunks: 1,
+  truncated: false,
+  cachedAt: '2026-10-19T00:00:00.000Z',
+});
+
+describe('analysis-cache', () => {
+  it('keys analyses by repository, content, profile, model and chunking limits', () => {
+    const parts = {
+      owner: 'Owner',
+      repo: 'Repo',
+      contentSha: 'abc123',
+      profile: 'basic',
+      model: 'openai/gpt-4.1-nano',
+      chunking: { maxInputTokens: 12000, chunkTokens: 4000, maxChunks: 8 },
+    };
+
+    expect(getAnalysisCacheKey(parts)).toBe(
+      'owner/repo@abc123:basic:openai/gpt-4.1-nano:12000/4000/8'
+    );
+    expect(getAnalysisCacheKey({ ...parts, contentSha: 'def456' })).not.toBe(
+      getAnalysisCacheKey(parts)
+    );
+    expect(getAnalysisCacheKey({ ...parts, profile: 'security' })).not.toBe(
+      getAnalysisCacheKey(parts)
+    );
+    expect(
+      getAnalysisCacheKey({ ...parts, chunking: { ...parts.chunking, maxChunks: 16 } })
+    ).not.toBe(getAnalysisCacheKey(parts));
+  });
+
+  it('evicts the least recently used entry and expired ones', async () => {
+    const store = createMemoryCacheStore({ maxEntries: 2 });
+
+    await store.set('a', entry('A'), 0);
+    await store.set('b', entry('B'), 0);
+    await store.get('a');
+    await store.set('c', entry('C'), 0);
+
+    expect(await store.get('a')).toMatchObject({ analysis: { summary: 'A' } });
+    expect(await store.get('b')).toBeNull();
+
+    jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    await store.set('d', entry('D'), 500);
+    jest.spyOn(Date, 'now').mockReturnValue(1_500);
+    expect(await store.get('d')).toBeNull();
+    jest.restoreAllMocks();
+  });
+
+  it('stores entries in the analysis_cache table', async () => {
+    const upsert = jest.fn(async () => ({ error: null }));
+    const eq = jest.fn(async () => ({
+      data: [{ payload: { analysis: { summary: 'A' } }, created_at: '2026-10-19T00:00:00Z' }],
+      error: null,
+    }));
+    const client = { from: jest.fn(() => ({ upsert, select: () => ({ eq }) })) };
+    const store = createPostgresCacheStore(client);
+
+    await store.set('a', entry('A'), 0);
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ cache_key: 'a', expires_at: null }),
+      { onConflict: 'cache_key' }
+    );
+    expect(upsert.mock.calls[0]).not.toHaveProperty('0.payload.cachedAt');
+    await expect(store.get('a')).resolves.toEqual({
+      analysis: { summary: 'A' },
+      cachedAt: '2026-10-19T00:00:00.000Z',
+    });
+  });
+
+  describe('summarizer route', () => {
+    const originalEnv = process.env;
+
+    const summarize = async (body = {}) => {
+      const response = await POST(
+        new Request('https://dandi.test/api/v1/github-summarizer', {
+          method: 'POST',
+          headers: { 'x-api-key': 'dev_sk_test', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ githubUrl: 'https://github.com/owner/cached', ...body }),
+        })
+      );
+      return { response, data: (await response.json()).data };
+    };
+
+    beforeEach(() => {
+      process.env = {
+        ...originalEnv,
+        LLM_PROVIDER: 'fake',
+        LLM_FAKE_RESPONSES: JSON.stringify([
+          JSON.stringify({ summary: 'First run', cool_facts: [] }),
+        ]),
+        ANALYSIS_CACHE_STORE: 'memory',
+        ANALYSIS_CACHE_FREE_HITS: 'true',
+      };
+      jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+        const url = String(input);
+        if (url === 'https://api.github.com/repos/owner/cached') {
+          return Response.json({ default_branch: 'main', stargazers_count: 1 });
+        }
+        if (url === 'https://api.github.com/repos/owner/cached/readme?ref=main') {
+          return Response.json({
+            path: 'README.md',
+            sha: 'blob-1',
+            encoding: 'base64',
+            content: Buffer.from('# Cached').toString('base64'),
+          });
+        }
+        return new Response('Not Found', { status: 404 });
+      });
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    it('serves repeated requests from the cache and refunds the quota', async () => {
+      const first = await summarize();
+      const second = await summarize();
+
+      expect(first.data).toMatchObject({
+        analysis: { summary: 'First run' },
+        cached: false,
+        cachedAt: null,
+        usage: 5,
+      });
+      expect(second.data).toMatchObject({
+        analysis: { summary: 'First run' },
+        cached: true,
+        cachedAt: expect.any(String),
+        usage: 4,
+      });
+      expect(second.response.headers.get('X-RateLimit-Remaining')).toBe('96');
+      expect(refundUsage).toHaveBeenCalledTimes(1);
+      expect(refundUsage).toHaveBeenCalledWith('key-1');
+
+      const refreshed = await summarize({ forceRefresh: true });
+      expect(refreshed.data).toMatchObject({ cached: false, cachedAt: null, usage: 5 });
+      expect(refundUsage).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a malformed JSON body with 400 before charging the key', async () => {
+      (checkAndIncrementUsage as jest.Mock).mockClear();
+      const response = await POST(
+        new Request('https://dandi.test/api/v1/github-summarizer', {
+          method: 'POST',
+          headers: { 'x-api-key': 'dev_sk_test', 'Content-Type': 'application/json' },
+          body: '{"githubUrl": ',
+        })
+      );
+
+      expect(response.status).toBe(400);
+      await expect(response.json()).resolves.toMatchObject({
+        error: { code: 'invalid_request', message: 'Request body must be valid JSON' },
+        request_id: expect.any(String),
+      });
+      expect(checkAndIncrementUsage).not.toHaveBeenCalled();
+    });
+
+    it('still serves cached analyses to a key out of monthly quota', async () => {
+      const exhausted = {
+        allowed: false,
+        code: 'usage_limit_exceeded',
+        error: 'Rate limit exceeded. Usage: 100/100 requests this month',
+        apiKeyId: 'key-1',
+        userId: 'user-1',
+        usage: 100,
+        limit: 100,
+        resetAt: '2026-11-01T00:00:00.000Z',
+      };
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await summarize();
+      (refundUsage as jest.Mock).mockClear();
+
+      (checkAndIncrementUsage as jest.Mock).mockResolvedValueOnce(exhausted);
+      const hit = await summarize();
+      expect(hit.response.status).toBe(200);
+      expect(hit.data).toMatchObject({ cached: true, usage: 100, limit: 100 });
+      expect(refundUsage).not.toHaveBeenCalled();
+
+      (checkAndIncrementUsage as jest.Mock).mockResolvedValueOnce(exhausted);
+      (global.fetch as jest.Mock).mockClear();
+      const miss = await summarize({ analysisProfile: 'security' });
+      expect(miss.response.status).toBe(429);
+      expect((global.fetch as jest.Mock).mock.calls.map(([url]) => String(url))).toEqual([
+        'https://api.github.com/repos/owner/cached',
+        'https://api.github.com/repos/owner/cached/readme?ref=main',
+      ]);
+
+      (checkAndIncrementUsage as jest.Mock).mockResolvedValueOnce(exhausted);
+      const refresh = await summarize({ forceRefresh: true });
+      expect(refresh.response.status).toBe(429);
+    });
+  });
+});
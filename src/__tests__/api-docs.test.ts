@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+import {
+  buildExample,
+  buildSnippets,
+  fillPath,
+  getOperationAuth,
+  groupOperationsByTag,
+} from '@/lib/api-docs';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+describe('api-docs', () => {
+  const document = buildOpenApiDocument();
+
+  it('groups operations by tag in the order the document declares them', () => {
+    const groups = groupOperationsByTag(document);
+
+    expect(groups.map(({ tag }) => tag)).toEqual(['Analysis', 'API Keys']);
+    expect(groups[0].operations.map(({ id }) => id)).toEqual(['summarizeRepository']);
+    expect(groups[1].operations.find(({ id }) => id === 'rotateApiKey')?.parameters).toEqual([
+      expect.objectContaining({ name: 'id', in: 'path' }),
+    ]);
+  });
+
+  it('builds minimal example bodies from the schemas', () => {
+    const { post } = document.paths['/api-keys'];
+    expect(buildExample(document, post.requestBody.content['application/json'].schema)).toEqual({
+      name: 'CI pipeline',
+      permissions: ['read'],
+    });
+    expect(getOperationAuth(document, post)).toBe('session');
+    expect(getOperationAuth(document, document.paths['/github-summarizer'].post)).toBe('apiKey');
+  });
+
+  it('fills the key and body into every snippet', () => {
+    const snippets = buildSnippets({
+      method: 'post',
+      url: 'https://example.com/api/v1/github-summarizer',
+      auth: 'apiKey',
+      apiKey: 'dev_sk_ab12...',
+      body: { githubUrl: "https://github.com/o'neil/repo", private: false },
+    });
+
+    expect(snippets.curl).toContain("-H 'x-api-key: dev_sk_ab12...'");
+    expect(snippets.curl).toContain(`o'\\''neil`);
+    expect(snippets.javascript).toContain("'x-api-key': 'dev_sk_ab12...'");
+    expect(snippets.python).toContain('headers={"x-api-key": "dev_sk_ab12..."}');
+    expect(snippets.python).toContain('"private": False,');
+    expect(fillPath('/api-keys/{id}/rotate', { id: 'a b' })).toBe('/api-keys/a%20b/rotate');
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  buildStoredKeyFields,
+  generateApiKey,
+  getKeyPrefix,
+  isWellFormedApiKey,
+  redactApiKey,
+  verifyApiKeyHash,
+} from '@/lib/api-key-crypto';
+
+describe('api-key-crypto', () => {
+  it('keeps the key type marker plus four characters as the display prefix', () => {
+    expect(getKeyPrefix('prod_sk_ab12cd34ef56')).toBe('prod_sk_ab12');
+    expect(getKeyPrefix('dev_sk_zz99yy88')).toBe('dev_sk_zz99');
+  });
+
+  it('verifies a key against its stored salt and hash', () => {
+    const stored = buildStoredKeyFields('dev_sk_secretvalue123');
+
+    expect(stored.key_prefix).toBe('dev_sk_secr');
+    expect(stored.key_hash).not.toContain('secretvalue');
+    expect(verifyApiKeyHash('dev_sk_secretvalue123', stored.key_salt, stored.key_hash)).toBe(true);
+    expect(verifyApiKeyHash('dev_sk_secretvalue124', stored.key_salt, stored.key_hash)).toBe(false);
+  });
+
+  it('salts every key so equal keys produce different hashes', () => {
+    const first = buildStoredKeyFields('dev_sk_samekey');
+    const second = buildStoredKeyFields('dev_sk_samekey');
+
+    expect(first.key_hash).not.toBe(second.key_hash);
+  });
+
+  it('generates fixed-length keys with the key type marker', () => {
+    const prodKey = generateApiKey('production');
+    const devKey = generateApiKey('development');
+
+    expect(prodKey).toMatch(/^prod_sk_[0-9A-Za-z]{38}$/);
+    expect(devKey).toMatch(/^dev_sk_[0-9A-Za-z]{38}$/);
+    expect(generateApiKey('production')).not.toBe(prodKey);
+  });
+
+  it('accepts generated keys and rejects typos through the checksum', () => {
+    const key = generateApiKey('production');
+    const lastChar = key[key.length - 5];
+    const typo = key.slice(0, -5) + (lastChar === 'a' ? 'b' : 'a') + key.slice(-4);
+
+    expect(isWellFormedApiKey(key)).toBe(true);
+    expect(isWellFormedApiKey(typo)).toBe(false);
+    expect(isWellFormedApiKey('sk_live_not_ours')).toBe(false);
+    expect(isWellFormedApiKey(undefined)).toBe(false);
+  });
+
+  it('still accepts keys issued before checksums were added', () => {
+    expect(isWellFormedApiKey('dev_sk_k3j4h5g6f7d8s9a0q1w2e3r4t5')).toBe(true);
+  });
+
+  it('strips secret columns from rows sent to clients', () => {
+    const row = { id: '1', name: 'ci', key_prefix: 'dev_sk_ab12', key_salt: 's', key_hash: 'h' };
+
+    expect(redactApiKey(row)).toEqual({ id: '1', name: 'ci', key_prefix: 'dev_sk_ab12' });
+  });
+});
@@ -0,0 +1,57 @@
+import { isApiKeyExpired, validateExpiry, validateExpiryUpdate } from '@/lib/api-key-expiry';
+
+describe('api-key-expiry', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  it('treats keys as expired once expires_at has passed', () => {
+    expect(isApiKeyExpired({ expires_at: '2025-05-31T23:59:59Z' }, now)).toBe(true);
+    expect(isApiKeyExpired({ expires_at: '2025-06-01T00:00:01Z' }, now)).toBe(false);
+    expect(isApiKeyExpired({ expires_at: null }, now)).toBe(false);
+  });
+
+  it('accepts future dates and rejects past or invalid ones', () => {
+    const policy = { requireForProduction: false };
+
+    expect(validateExpiry('2025-07-01T00:00:00Z', 'development', { policy, now })).toEqual({
+      expiresAt: '2025-07-01T00:00:00.000Z',
+    });
+    expect(validateExpiry('2025-05-01', 'development', { policy, now })).toMatchObject({
+      code: 'invalid_expiry',
+    });
+    expect(validateExpiry('next week', 'development', { policy, now })).toMatchObject({
+      code: 'invalid_expiry',
+    });
+  });
+
+  it('requires an expiry for production keys only when the policy says so', () => {
+    expect(
+      validateExpiry(null, 'production', { policy: { requireForProduction: false }, now })
+    ).toEqual({ expiresAt: null });
+    expect(
+      validateExpiry('', 'production', { policy: { requireForProduction: true }, now })
+    ).toMatchObject({ code: 'expiry_required' });
+    expect(
+      validateExpiry(null, 'development', { policy: { requireForProduction: true }, now })
+    ).toEqual({ expiresAt: null });
+  });
+
+  it('applies the policy to the updated key and only checks a changed expiry', () => {
+    const options = { policy: { requireForProduction: true }, now };
+    const past = '2025-05-01T00:00:00.000Z';
+
+    expect(validateExpiryUpdate(undefined, null, 'production', options)).toMatchObject({
+      code: 'expiry_required',
+    });
+    expect(validateExpiryUpdate(null, past, 'production', options)).toMatchObject({
+      code: 'expiry_required',
+    });
+    expect(validateExpiryUpdate(undefined, past, 'production', options)).toEqual({});
+    expect(validateExpiryUpdate('2025-05-01T00:00:00Z', past, 'development', options)).toEqual({});
+    expect(validateExpiryUpdate('2025-05-02', past, 'development', options)).toMatchObject({
+      code: 'invalid_expiry',
+    });
+    expect(validateExpiryUpdate('2025-07-01', past, 'production', options)).toEqual({
+      expiresAt: '2025-07-01T00:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { buildStoredKeyFields, generateApiKey } from '@/lib/api-key-crypto';
+import { checkPermission, hasPermission } from '@/lib/api-key-permissions';
+import { checkAndIncrementUsage } from '@/lib/rate-limiting';
+
+const apiKey = generateApiKey('development');
+const mockKeyRow: Record<string, any> = {};
+const mockRpc = jest.fn(async (_name: string, _params: Record<string, unknown>) => ({
+  data: [{ allowed: true, usage_count: 1, usage_limit: 10 }],
+  error: null,
+}));
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => ({ select: () => ({ or: async () => ({ data: [mockKeyRow], error: null }) }) }),
+    // Created when the module loads, so the mock is looked up per call
+    rpc: (name: string, params: Record<string, unknown>) => mockRpc(name, params),
+  }),
+}));
+
+describe('api-key-permissions', () => {
+  it('grants the scopes a key holds, and every scope to admin keys', () => {
+    expect(hasPermission({ permissions: ['read'] }, 'read')).toBe(true);
+    expect(hasPermission({ permissions: ['read'] }, 'delete')).toBe(false);
+    expect(hasPermission({ permissions: ['admin'] }, 'delete')).toBe(true);
+    expect(hasPermission({ permissions: null }, 'read')).toBe(false);
+  });
+
+  it('describes a missing scope and lets routes without one through', () => {
+    expect(checkPermission({ permissions: ['read'] }, 'read')).toBeNull();
+    expect(checkPermission({ permissions: [] }, undefined)).toBeNull();
+    expect(checkPermission({ permissions: ['read'] }, 'edit')).toEqual({
+      error: "API key does not have the 'edit' permission required for this endpoint",
+      code: 'insufficient_permission',
+    });
+  });
+
+  describe('checkAndIncrementUsage', () => {
+    beforeAll(() => {
+      process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-key';
+    });
+
+    beforeEach(() => {
+      Object.assign(mockKeyRow, {
+        id: 'key-1',
+        user_id: 'user-1',
+        ...buildStoredKeyFields(apiKey),
+        permissions: ['read'],
+        limit_usage: true,
+        monthly_limit: 10,
+        current_usage: 0,
+      });
+      mockRpc.mockClear();
+    });
+
+    it('counts usage for a key that holds the scope', async () => {
+      await expect(checkAndIncrementUsage(apiKey, { permission: 'read' })).resolves.toMatchObject({
+        allowed: true,
+        usage: 1,
+      });
+      expect(mockRpc).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a key without the scope before counting usage', async () => {
+      await expect(checkAndIncrementUsage(apiKey, { permission: 'create' })).resolves.toEqual({
+        allowed: false,
+        apiKeyId: 'key-1',
+        userId: 'user-1',
+        error: "API key does not have the 'create' permission required for this endpoint",
+        code: 'insufficient_permission',
+      });
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+});
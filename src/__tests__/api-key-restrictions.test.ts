@@ -0,0 +1,99 @@
+import {
+  checkKeyRestrictions,
+  referrerMatches,
+  validateKeyRestrictions,
+} from '@/lib/api-key-restrictions';
+import { getClientIp, ipInCidr, warnIfClientIpUnknown } from '@/lib/ip-address';
+
+const requestWith = (headers: Record<string, string>) => ({ headers: new Headers(headers) });
+
+describe('api-key-restrictions', () => {
+  it('matches IPv4 and IPv6 addresses against CIDR ranges', () => {
+    expect(ipInCidr('203.0.113.42', '203.0.113.0/24')).toBe(true);
+    expect(ipInCidr('203.0.114.1', '203.0.113.0/24')).toBe(false);
+    expect(ipInCidr('::ffff:203.0.113.42', '203.0.113.0/24')).toBe(true);
+    expect(ipInCidr('2001:db8:abcd::1', '2001:db8::/32')).toBe(true);
+    expect(ipInCidr('2001:db9::1', '2001:db8::/32')).toBe(false);
+    expect(ipInCidr('10.0.0.1', '10.0.0.1')).toBe(true);
+  });
+
+  it('only trusts X-Forwarded-For entries added by trusted proxies', () => {
+    const request = requestWith({ 'x-forwarded-for': '198.51.100.9, 203.0.113.5, 10.0.0.2' });
+
+    expect(getClientIp(request, { trustedProxyHops: 0 })).toBeNull();
+    expect(getClientIp(request, { trustedProxyHops: 1 })).toBe('10.0.0.2');
+    expect(getClientIp(request, { trustedProxyHops: 2 })).toBe('203.0.113.5');
+    expect(getClientIp(requestWith({ 'x-real-ip': 'not-an-ip' }), { trustedProxyHops: 1 })).toBe(
+      null
+    );
+  });
+
+  it('warns when the proxy hop count leaves client addresses unknown', () => {
+    const originalEnv = process.env;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    process.env = { ...originalEnv, TRUSTED_PROXY_HOPS: undefined, VERCEL: undefined };
+    expect(warnIfClientIpUnknown()).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('TRUSTED_PROXY_HOPS is 0'));
+
+    process.env = { ...originalEnv, TRUSTED_PROXY_HOPS: '1abc', VERCEL: undefined };
+    expect(warnIfClientIpUnknown()).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('must be a whole number'));
+
+    warn.mockClear();
+    process.env = { ...originalEnv, TRUSTED_PROXY_HOPS: '2' };
+    expect(warnIfClientIpUnknown()).toBe(false);
+    expect(warn).not.toHaveBeenCalled();
+
+    process.env = originalEnv;
+    warn.mockRestore();
+  });
+
+  it('matches referrers against host and URL prefix patterns', () => {
+    expect(referrerMatches('https://app.example.com/page', '*.example.com')).toBe(true);
+    expect(referrerMatches('https://example.com/page', '*.example.com')).toBe(false);
+    expect(referrerMatches('https://example.com/app/settings', 'https://example.com/app/*')).toBe(
+      true
+    );
+    expect(referrerMatches('https://example.com/other', 'https://example.com/app/*')).toBe(false);
+  });
+
+  it('only lets a URL wildcard extend the path, never the host', () => {
+    expect(referrerMatches('https://example.com/any/page', 'https://example.com*')).toBe(true);
+    expect(referrerMatches('https://example.com.evil.com/', 'https://example.com*')).toBe(false);
+    expect(referrerMatches('https://example.com:8443/', 'https://example.com*')).toBe(false);
+    expect(referrerMatches('https://example.com/', 'https://example.com/')).toBe(true);
+    expect(
+      validateKeyRestrictions({ allowedReferrers: ['https://example.com@evil.com*'] })
+    ).toMatchObject({
+      code: 'invalid_referrer_allowlist',
+    });
+  });
+
+  it('rejects callers outside the allowlists and unknown callers of restricted keys', () => {
+    const key = { allowed_ips: ['203.0.113.0/24'], allowed_referrers: ['example.com'] };
+
+    expect(
+      checkKeyRestrictions(key, { ip: '203.0.113.7', referrer: 'https://example.com/' })
+    ).toBeNull();
+    expect(checkKeyRestrictions(key, { ip: '198.51.100.1' })).toMatchObject({
+      code: 'ip_not_allowed',
+    });
+    expect(checkKeyRestrictions(key, { ip: '203.0.113.7' })).toMatchObject({
+      code: 'referrer_not_allowed',
+    });
+    expect(checkKeyRestrictions({ allowed_ips: [], allowed_referrers: [] })).toBeNull();
+  });
+
+  it('validates requested allowlists', () => {
+    expect(validateKeyRestrictions({ allowedIps: [' 10.0.0.0/8 ', '10.0.0.0/8'] })).toEqual({
+      fields: { allowed_ips: ['10.0.0.0/8'] },
+    });
+    expect(validateKeyRestrictions({ allowedIps: ['10.0.0.0/33'] })).toMatchObject({
+      code: 'invalid_ip_allowlist',
+    });
+    expect(validateKeyRestrictions({ allowedReferrers: ['https://*.example.com'] })).toMatchObject({
+      code: 'invalid_referrer_allowlist',
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import {
+  apiError,
+  apiSuccess,
+  deprecatedAlias,
+  getRequestId,
+  LEGACY_API_SUNSET,
+} from '@/lib/api-response';
+
+describe('api-response', () => {
+  it('wraps payloads and errors in the v1 envelope with one request ID', async () => {
+    const request = new Request('https://dandi.test/api/v1/plan');
+
+    const success = apiSuccess(request, { slug: 'free' });
+    const successBody = await success.json();
+    expect(successBody).toEqual({ data: { slug: 'free' }, request_id: getRequestId(request) });
+    expect(successBody.request_id).toMatch(/^req_[0-9a-f]{32}$/);
+    expect(success.headers.get('X-Request-Id')).toBe(successBody.request_id);
+
+    const error = apiError(request, 'invalid_api_key', 'Invalid API key');
+    expect(error.status).toBe(401);
+    expect(await error.json()).toEqual({
+      error: { code: 'invalid_api_key', message: 'Invalid API key' },
+      request_id: successBody.request_id,
+    });
+  });
+
+  it('reuses a well-formed X-Request-Id from the caller', () => {
+    const supplied = new Request('https://dandi.test/api/v1/plan', {
+      headers: { 'x-request-id': 'trace-123' },
+    });
+    const malformed = new Request('https://dandi.test/api/v1/plan', {
+      headers: { 'x-request-id': 'not valid!' },
+    });
+
+    expect(getRequestId(supplied)).toBe('trace-123');
+    expect(getRequestId(malformed)).toMatch(/^req_/);
+  });
+
+  it('serves the legacy body with deprecation headers from an alias', async () => {
+    const legacy = deprecatedAlias(async (request: Request) =>
+      apiError(request, 'usage_limit_exceeded', 'Monthly limit reached', {
+        details: { usage: 10, limit: 10 },
+        headers: { 'Retry-After': '60' },
+      })
+    );
+
+    const response = await legacy(new Request('https://dandi.test/api/github-summarizer'), {});
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({
+      error: 'Monthly limit reached',
+      code: 'usage_limit_exceeded',
+      usage: 10,
+      limit: 10,
+    });
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect(response.headers.get('Deprecation')).toMatch(/^@\d+$/);
+    expect(response.headers.get('Sunset')).toBe(LEGACY_API_SUNSET.toUTCString());
+    expect(response.headers.get('Link')).toBe(
+      '</api/v1/github-summarizer>; rel="successor-version"'
+    );
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @jest-environment node
+ */
+import { diffRecords, parseAuditPage } from '@/lib/audit-log';
+
+jest.mock('@/lib/supabase', () => ({ supabaseAdmin: {} }));
+
+describe('audit-log', () => {
+  it('lists only the audited fields that changed', () => {
+    const before = {
+      name: 'ci',
+      permissions: ['read'],
+      monthly_limit: 10,
+      key_hash: 'old-hash',
+      current_usage: 3,
+    };
+    const after = {
+      ...before,
+      permissions: ['read', 'edit'],
+      key_hash: 'new-hash',
+      current_usage: 4,
+    };
+
+    expect(diffRecords(before, after)).toEqual({
+      permissions: { from: ['read'], to: ['read', 'edit'] },
+    });
+    expect(diffRecords(null, { name: 'ci' })).toEqual({ name: { from: null, to: 'ci' } });
+  });
+
+  it('turns page numbers into row ranges and rejects bad paging parameters', () => {
+    expect(parseAuditPage({})).toEqual({ page: 1, pageSize: 25, from: 0, to: 24 });
+    expect(parseAuditPage({ page: '3', pageSize: '10' })).toEqual({
+      page: 3,
+      pageSize: 10,
+      from: 20,
+      to: 29,
+    });
+    expect(parseAuditPage({ page: '0' })).toHaveProperty('error');
+    expect(parseAuditPage({ pageSize: '500' })).toHaveProperty('error');
+  });
+});
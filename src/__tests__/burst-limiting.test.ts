@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import { createBurstLimiter, createMemoryStore } from '@/lib/burst-limiting';
+
+describe('createBurstLimiter', () => {
+  it('allows requests up to the limit within a window and then asks to retry', async () => {
+    let now = 60_000;
+    const limiter = createBurstLimiter({ store: createMemoryStore(), limit: 3, now: () => now });
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await limiter.check('key:1'));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    // The next window starts in 60 s, and its 3 inherited hits weigh 2 after another 20 s
+    expect(results[3].retryAfter).toBe(80);
+
+    now += 30_000;
+    expect((await limiter.check('key:1')).retryAfter).toBe(50);
+
+    // Rejected hits were not counted, so the wait did not move
+    now += 50_000;
+    expect((await limiter.check('key:1')).allowed).toBe(true);
+  });
+
+  it('weights the previous window so bursts at a boundary are still throttled', async () => {
+    let now = 119_000;
+    const limiter = createBurstLimiter({ store: createMemoryStore(), limit: 4, now: () => now });
+
+    for (let i = 0; i < 4; i++) {
+      await limiter.check('ip:10.0.0.1');
+    }
+
+    // One second into the next window almost all of the previous window still counts
+    now = 121_000;
+    const rejected = await limiter.check('ip:10.0.0.1');
+    expect(rejected).toMatchObject({ allowed: false, remaining: 0, retryAfter: 14 });
+
+    // A quarter into it they weigh 3, leaving room for one more
+    now = 134_000;
+    expect((await limiter.check('ip:10.0.0.1')).allowed).toBe(false);
+    now = 135_000;
+    expect((await limiter.check('ip:10.0.0.1')).allowed).toBe(true);
+
+    // Most of the way through it, the old hits have slid out
+    now = 175_000;
+    expect((await limiter.check('ip:10.0.0.1')).allowed).toBe(true);
+  });
+
+  it('tracks identifiers independently', async () => {
+    const limiter = createBurstLimiter({ store: createMemoryStore(), limit: 1 });
+
+    expect((await limiter.check('key:a')).allowed).toBe(true);
+    expect((await limiter.check('key:b')).allowed).toBe(true);
+    expect((await limiter.check('key:a')).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+// Lets the fake's structured output pass callbacks on to the model, as real providers do
+import '@langchain/core/context';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { analyzeReadme, chunkContent, countTokens, splitByHeading } from '@/lib/chain';
+
+const analysisJson = JSON.stringify({ summary: 'A CLI tool', cool_facts: ['Fast', 'Small'] });
+
+// Sections of roughly 60 tokens each
+const section = (title: string) => `## ${title}\n\n${`${title} explains the tool. `.repeat(12)}`;
+
+describe('chain', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('splits markdown at headings outside code blocks', () => {
+    const markdown = [
+      'Intro',
+      '# Install',
+      '```sh',
+      '# not a heading',
+      '```',
+      '## Usage',
+      'Run it',
+    ].join('\n');
+
+    expect(splitByHeading(markdown)).toEqual([
+      'Intro',
+      '# Install\n```sh\n# not a heading\n```',
+      '## Usage\nRun it',
+    ]);
+  });
+
+  it('packs sections into chunks within the token budget', () => {
+    const sections = ['Install', 'Usage', 'Config'].map(section);
+    const hugeParagraph = 'word '.repeat(500);
+
+    const chunks = chunkContent([...sections, `## Notes\n\n${hugeParagraph}`].join('\n'), 150);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks[0]).toBe(`${sections[0]}\n${sections[1]}`);
+    chunks.forEach((chunk) => expect(countTokens(chunk)).toBeLessThanOrEqual(150));
+  });
+
+  it('analyzes content that fits in one prompt in a single call', async () => {
+    const model = new FakeListChatModel({ responses: [analysisJson] });
+    const generate = jest.spyOn(model, '_generate');
+
+    const result = await analyzeReadme('# Tool\nA CLI tool', {
+      model,
+      limits: { maxInputTokens: 1000, chunkTokens: 500, maxChunks: 4 },
+    });
+
+    expect(result).toEqual({
+      analysis: { summary: 'A CLI tool', cool_facts: ['Fast', 'Small'] },
+      chunks: 1,
+      truncated: false,
+    });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('summarizes large content per chunk and merges the summaries', async () => {
+    const model = new FakeListChatModel({
+      responses: ['Install summary', 'Usage summary', analysisJson],
+    });
+    const generate = jest.spyOn(model, '_generate');
+    const content = ['Install', 'Usage', 'Config'].map(section).join('\n');
+
+    const result = await analyzeReadme(content, {
+      model,
+      limits: { maxInputTokens: 100, chunkTokens: 100, maxChunks: 2 },
+    });
+
+    expect(result).toEqual({
+      analysis: { summary: 'A CLI tool', cool_facts: ['Fast', 'Small'] },
+      chunks: 2,
+      truncated: true,
+    });
+    expect(generate).toHaveBeenCalledTimes(3);
+
+    const mapPrompt = String(generate.mock.calls[0][0][0].content);
+    expect(mapPrompt).toContain('part 1 of 2');
+    expect(mapPrompt).toContain('## Install');
+    const reducePrompt = String(generate.mock.calls[2][0][0].content);
+    expect(reducePrompt).toContain('Part 1:\nInstall summary\n\nPart 2:\nUsage summary');
+  });
+
+  it('uses the prompt and schema of the requested profile', async () => {
+    const detailed = {
+      summary: 'A CLI tool',
+      cool_facts: ['Fast'],
+      tech_stack: ['Go'],
+      use_cases: ['Scripting'],
+      target_audience: 'Developers',
+      installation_steps: ['go install example.com/tool@latest'],
+      maturity_signals: ['Tagged releases'],
+      quick_start: { language: 'bash', code: 'tool --help' },
+    };
+    const model = new FakeListChatModel({ responses: [JSON.stringify(detailed)] });
+    const generate = jest.spyOn(model, '_generate');
+
+    const result = await analyzeReadme('# Tool\nA CLI tool', { model, profile: 'detailed' });
+
+    expect(result.analysis).toEqual(detailed);
+    expect(String(generate.mock.calls[0][0][0].content)).toContain('installation steps');
+    await expect(analyzeReadme('# Tool', { model, profile: 'verbose' })).rejects.toThrow(
+      'Failed to analyze repository'
+    );
+  });
+
+  it('streams the summary as the model writes it', async () => {
+    const model = new FakeListChatModel({ responses: [analysisJson] });
+    const tokens: string[] = [];
+
+    const result = await analyzeReadme('# Tool\nA CLI tool', {
+      model,
+      onSummaryToken: (text) => tokens.push(text),
+    });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(result.analysis.summary);
+  });
+
+  it('reports a failed analysis', async () => {
+    const model = new FakeListChatModel({ responses: ['not json'] });
+
+    await expect(analyzeReadme('# Tool', { model })).rejects.toThrow(
+      'Failed to analyze repository'
+    );
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * @jest-environment node
+ */
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { runCli } from '@/cli';
+import { EXIT_CODES } from '@/cli/exit-codes';
+
+const apiKey = {
+  id: 'key-1',
+  user_id: 'user-1',
+  name: 'CI pipeline',
+  description: null,
+  key_prefix: 'dev_sk_ab12',
+  permissions: ['read'],
+  key_type: 'development',
+  limit_usage: true,
+  monthly_limit: 100,
+  current_usage: 42,
+  last_reset_month: new Date().toISOString().slice(0, 7),
+  expires_at: null,
+  previous_key_prefix: null,
+  previous_key_expires_at: null,
+  rotated_at: null,
+  revoked_at: null,
+  revoked_by: null,
+  revoked_reason: null,
+  allowed_ips: [],
+  allowed_referrers: [],
+  created_at: '2026-10-01T00:00:00.000Z',
+};
+
+interface Route {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+describe('cli', () => {
+  let server: Server;
+  let baseUrl: string;
+  let routes: Record<string, Route>;
+  let requests: { method: string; url: string; headers: IncomingMessage['headers']; body: any }[];
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: raw ? JSON.parse(raw) : undefined,
+        });
+        const route = routes[`${req.method} ${req.url}`] || {
+          status: 404,
+          body: { error: { code: 'not_found', message: 'Not found' }, request_id: 'req_404' },
+        };
+        res.writeHead(route.status, { 'Content-Type': 'application/json', ...route.headers });
+        res.end(JSON.stringify(route.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    routes = {};
+    requests = [];
+  });
+
+  const run = async (argv: string[], env: Record<string, string> = {}) => {
+    const output = { stdout: '', stderr: '' };
+    const code = await runCli(argv, {
+      env: { HOME: '/nonexistent', XPTO_BASE_URL: baseUrl, ...env },
+      stdout: (text) => (output.stdout += text),
+      stderr: (text) => (output.stderr += text),
+    });
+    return { code, ...output };
+  };
+
+  it('analyzes a repository with the key from the environment', async () => {
+    routes['POST /api/v1/github-summarizer'] = {
+      status: 200,
+      body: {
+        data: {
+          analysisProfile: 'detailed',
+          analysis: {
+            summary: 'A framework for LLM apps',
+            cool_facts: ['Written in Python'],
+            tech_stack: ['Python'],
+            use_cases: [],
+            target_audience: 'Developers',
+            installation_steps: ['pip install repo'],
+            maturity_signals: [],
+            quick_start: { language: 'python', code: 'import repo' },
+          },
+          githubUrl: 'https://github.com/owner/repo',
+          repositoryInfo: { stars: 10, version: 'v1.0.0', website: '', license: 'MIT' },
+          defaultBranch: 'main',
+          sources: [{ type: 'readme', path: 'README.rst' }],
+          chunks: 1,
+          truncated: false,
+        },
+        request_id: 'req_1',
+      },
+    };
+
+    const result = await run(
+      ['analyze', 'https://github.com/owner/repo', '-f', 'markdown', '--profile', 'detailed'],
+      { XPTO_API_KEY: 'dev_sk_test' }
+    );
+
+    expect(result.code).toBe(EXIT_CODES.SUCCESS);
+    expect(result.stdout).toContain('## https://github.com/owner/repo');
+    expect(result.stdout).toContain('- Written in Python');
+    expect(result.stdout).toContain('### Installation steps\n\n- pip install repo');
+    expect(result.stdout).toContain('```python\nimport repo\n```');
+    expect(result.stdout).not.toContain('Use cases');
+    expect(result.stdout).toContain('_Sources: `README.rst`_');
+    expect(requests[0].headers['x-api-key']).toBe('dev_sk_test');
+    expect(requests[0].body).toEqual({
+      githubUrl: 'https://github.com/owner/repo',
+      analysisProfile: 'detailed',
+    });
+  });
+
+  it('prints the API data unchanged as JSON', async () => {
+    routes['GET /api/v1/api-keys'] = { status: 200, body: { data: [apiKey], request_id: 'r' } };
+
+    const result = await run(['keys', 'list', '--format', 'json'], {
+      XPTO_SESSION_COOKIE: 'next-auth.session-token=abc',
+    });
+
+    expect(result.code).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(result.stdout)).toEqual([apiKey]);
+    expect(requests[0].headers.cookie).toBe('next-auth.session-token=abc');
+  });
+
+  it('shows the quota of the configured key', async () => {
+    routes['POST /api/v1/validate-key'] = { status: 200, body: { data: apiKey, request_id: 'r' } };
+
+    const result = await run(['usage', '--api-key', 'dev_sk_test']);
+
+    expect(result.stdout).toMatch(/Used this month:\s+42/);
+    expect(result.stdout).toMatch(/Remaining:\s+58/);
+    expect(requests[0].body).toEqual({ apiKey: 'dev_sk_test' });
+  });
+
+  it('shows no usage yet when the count is from an earlier month', async () => {
+    routes['POST /api/v1/validate-key'] = {
+      status: 200,
+      body: { data: { ...apiKey, last_reset_month: '2026-09' }, request_id: 'r' },
+    };
+
+    const result = await run(['usage', '--api-key', 'dev_sk_test']);
+
+    expect(result.stdout).toMatch(/Used this month:\s+0/);
+    expect(result.stdout).toMatch(/Remaining:\s+100/);
+  });
+
+  it('exits with the code of the API error family', async () => {
+    routes['POST /api/v1/github-summarizer'] = {
+      status: 429,
+      headers: { 'Retry-After': '86400' },
+      body: {
+        error: { code: 'usage_limit_exceeded', message: 'Monthly limit reached' },
+        request_id: 'req_9',
+      },
+    };
+    routes['POST /api/v1/api-keys/key-1/rotate'] = {
+      status: 401,
+      body: { error: { code: 'authentication_required', message: 'Sign in' }, request_id: 'r' },
+    };
+
+    const limited = await run(['analyze', 'https://github.com/owner/repo'], {
+      XPTO_API_KEY: 'dev_sk_test',
+    });
+    const unauthenticated = await run(['keys', 'rotate', 'key-1', '--grace-hours', '0'], {
+      XPTO_SESSION_COOKIE: 'expired',
+    });
+
+    expect(limited.code).toBe(EXIT_CODES.RATE_LIMITED);
+    expect(limited.stderr).toBe(
+      'Error [usage_limit_exceeded]: Monthly limit reached (request req_9)\n'
+    );
+    expect(unauthenticated.code).toBe(EXIT_CODES.AUTHENTICATION);
+    expect(requests[1].body).toEqual({ gracePeriodHours: 0 });
+  });
+
+  it('rejects bad usage without calling the API', async () => {
+    expect((await run(['keys', 'delete'])).code).toBe(EXIT_CODES.USAGE);
+    expect((await run(['analyze'], { XPTO_API_KEY: 'k' })).code).toBe(EXIT_CODES.USAGE);
+    expect((await run(['analyze', 'https://github.com/o/r'])).stderr).toContain('No API key');
+    expect((await run(['usage', '--config', '/nonexistent/xpto.json'])).code).toBe(
+      EXIT_CODES.USAGE
+    );
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+import { getBasicRepoInfo } from '@/lib/get-repo-info';
+import {
+  MAX_FALLBACK_SOURCE_CHARS,
+  getRepository,
+  getRepositoryContent,
+  parseGithubUrl,
+} from '@/lib/github-content';
+
+const API = 'https://api.github.com/repos/owner/repo';
+
+const file = (path: string) => ({
+  name: path.split('/').pop(),
+  path,
+  sha: `sha-${path}`,
+  type: 'file',
+  download_url: `https://raw.githubusercontent.com/owner/repo/trunk/${path}`,
+});
+
+describe('github-content', () => {
+  let responses: Record<string, unknown>;
+  const fetchMock = jest.fn(async (url: string, _init?: RequestInit) => {
+    if (!(url in responses)) return new Response('Not Found', { status: 404 });
+    const body = responses[url];
+    return typeof body === 'string' ? new Response(body) : Response.json(body);
+  });
+
+  beforeEach(() => {
+    responses = { [API]: { default_branch: 'trunk' } };
+    fetchMock.mockClear();
+    jest.spyOn(global, 'fetch').mockImplementation(fetchMock as unknown as typeof fetch);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('parses owner and repository from the URL', () => {
+    expect(parseGithubUrl('https://github.com/owner/repo.git')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+    });
+    expect(parseGithubUrl('https://github.com/owner/repo/tree/main/src')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+    });
+    expect(() => parseGithubUrl('https://github.com/owner')).toThrow('Invalid GitHub URL format');
+  });
+
+  it('reads the README GitHub finds on the default branch', async () => {
+    responses[`${API}/readme?ref=trunk`] = {
+      path: 'docs/readme.rst',
+      sha: 'c0ffee',
+      encoding: 'base64',
+      content: Buffer.from('Project\n=======').toString('base64'),
+    };
+
+    await expect(getRepositoryContent('https://github.com/owner/repo')).resolves.toEqual({
+      content: 'Project\n=======',
+      contentSha: 'c0ffee',
+      defaultBranch: 'trunk',
+      sources: [{ type: 'readme', path: 'docs/readme.rst' }],
+    });
+  });
+
+  it('falls back to manifests and top-level docs without a README', async () => {
+    responses[`${API}/contents?ref=trunk`] = [
+      file('go.mod'),
+      file('package.json'),
+      file('CONTRIBUTING.md'),
+      file('main.go'),
+      { name: 'docs', path: 'docs', type: 'dir' },
+    ];
+    responses[`${API}/contents/docs?ref=trunk`] = [file('docs/usage.md'), file('docs/logo.png')];
+    responses[file('package.json').download_url] = '{"name": "repo"}';
+    responses[file('go.mod').download_url] = 'module example.com/repo';
+    responses[file('CONTRIBUTING.md').download_url] = 'How to contribute';
+    responses[file('docs/usage.md').download_url] = 'x'.repeat(MAX_FALLBACK_SOURCE_CHARS + 10);
+
+    const result = await getRepositoryContent('https://github.com/owner/repo');
+
+    expect(result.sources).toEqual([
+      { type: 'manifest', path: 'package.json' },
+      { type: 'manifest', path: 'go.mod' },
+      { type: 'docs', path: 'CONTRIBUTING.md' },
+      { type: 'docs', path: 'docs/usage.md' },
+    ]);
+    expect(result.content).toContain('--- package.json ---\n{"name": "repo"}');
+    expect(result.content).toContain('--- go.mod ---\nmodule example.com/repo');
+    expect(result.content).toContain(
+      `--- docs/usage.md ---\n${'x'.repeat(MAX_FALLBACK_SOURCE_CHARS)}`
+    );
+    expect(result.content).not.toContain('x'.repeat(MAX_FALLBACK_SOURCE_CHARS + 1));
+    expect(result.contentSha).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('authenticates with GITHUB_TOKEN and reuses fetched repository metadata', async () => {
+    const originalEnv = process.env;
+    process.env = { ...originalEnv, GITHUB_TOKEN: 'ghp_test' };
+    responses[`${API}/readme?ref=main`] = { path: 'README.md', sha: 'c0ffee', content: '' };
+    const repository = { default_branch: 'main', stargazers_count: 3, html_url: 'https://x' };
+
+    const content = await getRepositoryContent('https://github.com/owner/repo', { repository });
+    const info = await getBasicRepoInfo('https://github.com/owner/repo', { repository });
+
+    expect(content.defaultBranch).toBe('main');
+    expect(info.stars).toBe(3);
+    expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain(API);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init?.headers).toMatchObject({ Authorization: 'Bearer ghp_test' });
+    }
+
+    process.env = originalEnv;
+  });
+
+  it('fails when the repository or anything to read is missing', async () => {
+    responses[`${API}/contents?ref=trunk`] = [file('main.go')];
+
+    await expect(getRepositoryContent('https://github.com/owner/repo')).rejects.toThrow(
+      'No README, package manifest or documentation found in the repository'
+    );
+    await expect(getRepositoryContent('https://github.com/owner/missing')).rejects.toThrow(
+      'Repository not found'
+    );
+  });
+
+  it('fetches releases for the repository the content was read from', async () => {
+    responses[`${API}/releases/latest`] = { tag_name: 'v1.2.0' };
+
+    const info = await getBasicRepoInfo('https://github.com/owner/repo.git?tab=readme');
+
+    expect(info.version).toBe('v1.2.0');
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([API, `${API}/releases/latest`]);
+  });
+
+  it('refuses private repositories the token could read', async () => {
+    responses[API] = { default_branch: 'trunk', private: true };
+    responses[`${API}/readme?ref=trunk`] = { path: 'README.md', sha: 'c0ffee', content: '' };
+
+    await expect(getRepository('https://github.com/owner/repo')).rejects.toThrow(
+      'Repository not found'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(getBasicRepoInfo('https://github.com/owner/repo')).rejects.toThrow(
+      'Repository not found'
+    );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { POST } from '@/app/api/v1/github-summarizer/route';
+import { checkAndIncrementUsage } from '@/lib/rate-limiting';
+import { recordUsageEvent } from '@/lib/usage-events';
+
+jest.mock('@/lib/env-validation', () => ({ validateSupabaseEnv: jest.fn() }));
+jest.mock('@/lib/burst-limiting', () => ({
+  checkIpBurstLimit: jest.fn(async () => ({ allowed: true })),
+}));
+jest.mock('@/lib/rate-limiting', () => ({
+  burstLimitError: jest.fn(),
+  checkAndIncrementUsage: jest.fn(async () => ({
+    allowed: true,
+    apiKeyId: 'key-1',
+    userId: 'user-1',
+    usage: 1,
+    limit: 100,
+  })),
+}));
+jest.mock('@/lib/usage-events', () => ({
+  ...jest.requireActual('@/lib/usage-events'),
+  recordUsageEvent: jest.fn(async () => true),
+}));
+
+const summarizeStream = async (githubUrl: string) => {
+  const response = await POST(
+    new Request('https://dandi.test/api/v1/github-summarizer', {
+      method: 'POST',
+      headers: {
+        'x-api-key': 'dev_sk_test',
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({ githubUrl }),
+    })
+  );
+  const events = (await response.text())
+    .trim()
+    .split('\n\n')
+    .map((block) => {
+      const [event, data] = block.split('\n');
+      return { event: event.slice('event: '.length), data: JSON.parse(data.slice(6)) };
+    });
+  return { response, events };
+};
+
+describe('github-summarizer route', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      LLM_PROVIDER: 'fake',
+      LLM_FAKE_RESPONSES: JSON.stringify([
+        JSON.stringify({ summary: 'A tiny CLI', cool_facts: ['Written in Go', 'One binary'] }),
+      ]),
+      ANALYSIS_CACHE_STORE: 'off',
+    };
+    jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+      const url = String(input);
+      if (url === 'https://api.github.com/repos/owner/repo') {
+        return Response.json({ default_branch: 'main', stargazers_count: 7 });
+      }
+      if (url === 'https://api.github.com/repos/owner/repo/readme?ref=main') {
+        return Response.json({
+          path: 'README.md',
+          encoding: 'base64',
+          content: Buffer.from('# Tiny\nA tiny CLI').toString('base64'),
+        });
+      }
+      return new Response('Not Found', { status: 404 });
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.mocked(checkAndIncrementUsage).mockClear();
+    jest.mocked(recordUsageEvent).mockClear();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('streams progress, the summary and the result as Server-Sent Events', async () => {
+    const { response, events } = await summarizeStream('https://github.com/owner/repo');
+
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(events.filter(({ event }) => event === 'progress').map(({ data }) => data)).toEqual([
+      { stage: 'fetching_readme' },
+      { stage: 'fetching_repo_info' },
+      { stage: 'analyzing' },
+    ]);
+    const summary = events
+      .filter(({ event }) => event === 'token')
+      .map(({ data }) => data.text)
+      .join('');
+    expect(summary).toBe('A tiny CLI');
+    expect(events.at(-1)).toMatchObject({
+      event: 'result',
+      data: { data: { analysis: { summary: 'A tiny CLI' }, usage: 1, limit: 100 } },
+    });
+    expect(checkAndIncrementUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsageEvent).toHaveBeenCalledTimes(1);
+    expect(recordUsageEvent).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 200 }));
+  });
+
+  it('logs a stream that ends in an error event with the error status', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { response, events } = await summarizeStream('https://github.com/owner/missing');
+
+    expect(response.status).toBe(200);
+    expect(events.at(-1)).toMatchObject({
+      event: 'error',
+      data: { error: { code: 'fetch_readme_failed', message: 'Repository not found' } },
+    });
+    expect(recordUsageEvent).toHaveBeenCalledTimes(1);
+    expect(recordUsageEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 400, errorClass: 'fetch_readme_failed' })
+    );
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatOpenAI } from '@langchain/openai';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { createChatModel, DEFAULT_COMPATIBLE_BASE_URL, getLlmConfig } from '@/lib/llm-provider';
+import { POST } from '@/app/api/v1/github-summarizer/route';
+
+jest.mock('@/lib/env-validation', () => ({ validateSupabaseEnv: jest.fn() }));
+jest.mock('@/lib/burst-limiting', () => ({
+  checkIpBurstLimit: jest.fn(async () => ({ allowed: true })),
+}));
+jest.mock('@/lib/rate-limiting', () => ({
+  burstLimitError: jest.fn(),
+  checkAndIncrementUsage: jest.fn(async () => ({
+    allowed: true,
+    apiKeyId: 'key-1',
+    userId: 'user-1',
+    usage: 1,
+    limit: 100,
+  })),
+}));
+jest.mock('@/lib/usage-events', () => ({
+  ...jest.requireActual('@/lib/usage-events'),
+  recordUsageEvent: jest.fn(async () => true),
+}));
+
+describe('llm-provider', () => {
+  it('reads the provider and its defaults from the environment', () => {
+    expect(getLlmConfig({})).toMatchObject({ provider: 'openai', model: 'gpt-4.1-nano' });
+    expect(getLlmConfig({ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'llama3.1' })).toEqual(
+      expect.objectContaining({ model: 'llama3.1', baseUrl: DEFAULT_COMPATIBLE_BASE_URL })
+    );
+    expect(() => getLlmConfig({ LLM_PROVIDER: 'openai-compatible' })).toThrow(
+      'LLM_MODEL is required'
+    );
+    expect(() => getLlmConfig({ LLM_PROVIDER: 'cohere' })).toThrow('Unknown LLM_PROVIDER');
+    expect(() => getLlmConfig({ LLM_PROVIDER: 'fake', LLM_FAKE_RESPONSES: '[]' })).toThrow(
+      'LLM_FAKE_RESPONSES'
+    );
+  });
+
+  it('creates the chat model of each provider', () => {
+    const compatible = createChatModel(
+      getLlmConfig({
+        LLM_PROVIDER: 'openai-compatible',
+        LLM_MODEL: 'llama3.1',
+        LLM_BASE_URL: 'http://localhost:8080/v1',
+      })
+    );
+
+    expect(createChatModel(getLlmConfig({ LLM_API_KEY: 'sk-test' }))).toBeInstanceOf(ChatOpenAI);
+    expect(
+      createChatModel(getLlmConfig({ LLM_PROVIDER: 'anthropic', LLM_API_KEY: 'sk-ant-test' }))
+    ).toBeInstanceOf(ChatAnthropic);
+    expect(compatible).toBeInstanceOf(ChatOpenAI);
+    expect((compatible as ChatOpenAI).clientConfig.baseURL).toBe('http://localhost:8080/v1');
+    expect(createChatModel(getLlmConfig({ LLM_PROVIDER: 'fake' }))).toBeInstanceOf(
+      FakeListChatModel
+    );
+  });
+
+  describe('summarizer route with the fake provider', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = {
+        ...originalEnv,
+        LLM_PROVIDER: 'fake',
+        LLM_FAKE_RESPONSES: JSON.stringify([
+          JSON.stringify({ summary: 'A tiny CLI', cool_facts: ['Written in Go', 'One binary'] }),
+        ]),
+      };
+      jest.spyOn(global, 'fetch').mockImplementation(async (input) => {
+        const url = String(input);
+        if (url === 'https://api.github.com/repos/owner/repo') {
+          return Response.json({
+            default_branch: 'main',
+            stargazers_count: 7,
+            homepage: '',
+            html_url: 'https://github.com/owner/repo',
+            license: { name: 'MIT License' },
+          });
+        }
+        if (url === 'https://api.github.com/repos/owner/repo/readme?ref=main') {
+          return Response.json({
+            path: 'README.md',
+            encoding: 'base64',
+            content: Buffer.from('# Tiny\nA tiny CLI').toString('base64'),
+          });
+        }
+        return new Response('Not Found', { status: 404 });
+      });
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    it('analyzes a repository end to end without network access', async () => {
+      const response = await POST(
+        new Request('https://dandi.test/api/v1/github-summarizer', {
+          method: 'POST',
+          headers: { 'x-api-key': 'dev_sk_test', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ githubUrl: 'https://github.com/owner/repo' }),
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toMatchObject({
+        analysisProfile: 'basic',
+        analysis: { summary: 'A tiny CLI', cool_facts: ['Written in Go', 'One binary'] },
+        repositoryInfo: { stars: 7, license: 'MIT License' },
+        defaultBranch: 'main',
+        sources: [{ type: 'readme', path: 'README.md' }],
+        chunks: 1,
+        truncated: false,
+      });
+    });
+  });
+});
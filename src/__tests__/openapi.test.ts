@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ApiKeyRequestSchema,
+  RevokeApiKeyRequestSchema,
+  SummarizeRequestSchema,
+  UsageQuerySchema,
+  parseBody,
+  parseJsonBody,
+} from '@/lib/api-schemas';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+describe('api-schemas', () => {
+  it('returns the parsed body or the issues that failed', () => {
+    expect(parseBody(ApiKeyRequestSchema, { name: '  ci  ', permissions: ['read'] })).toEqual({
+      data: { name: 'ci', permissions: ['read'] },
+    });
+
+    expect(parseBody(ApiKeyRequestSchema, { permissions: ['sudo'] })).toMatchObject({
+      code: 'invalid_request',
+      issues: [
+        { path: 'name', message: 'Name is required' },
+        { path: 'permissions.0', message: expect.any(String) },
+      ],
+    });
+  });
+
+  it('reports one problem for a missing GitHub URL', () => {
+    expect(parseBody(SummarizeRequestSchema, { githubUrl: '' })).toMatchObject({
+      error: 'githubUrl: GitHub URL is required',
+    });
+    expect(
+      parseBody(SummarizeRequestSchema, { githubUrl: 'https://gitlab.com/a/b' })
+    ).toMatchObject({ error: 'githubUrl: Invalid GitHub URL format' });
+  });
+
+  it('only accepts a UUID as the usage keyId', () => {
+    expect(parseBody(UsageQuerySchema, { keyId: 'not-a-uuid' })).toMatchObject({
+      code: 'invalid_request',
+      issues: [{ path: 'keyId' }],
+    });
+    expect(
+      parseBody(UsageQuerySchema, {
+        keyId: '0b7e5b8e-3c1a-4f5e-9a51-2f0d6c1e8a90',
+        from: '2026-10-01',
+      })
+    ).toEqual({ data: { keyId: '0b7e5b8e-3c1a-4f5e-9a51-2f0d6c1e8a90', from: '2026-10-01' } });
+  });
+
+  it('rejects a body that is not JSON and reads an empty one as {}', async () => {
+    const post = (body: string) => new Request('https://dandi.test', { method: 'POST', body });
+
+    await expect(parseJsonBody(ApiKeyRequestSchema, post('{"name": '))).resolves.toEqual({
+      error: 'Request body must be valid JSON',
+      code: 'invalid_request',
+      issues: [],
+    });
+    await expect(parseJsonBody(RevokeApiKeyRequestSchema, post(''))).resolves.toEqual({
+      data: {},
+    });
+  });
+});
+
+describe('openapi', () => {
+  it('builds an OpenAPI 3.1 document whose references all resolve', () => {
+    const document = buildOpenApiDocument();
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths)).toEqual(
+      expect.arrayContaining(['/github-summarizer', '/validate-key', '/api-keys', '/api-keys/{id}'])
+    );
+
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) || [];
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(document.components.schemas).toHaveProperty(ref.split('/').pop() as string);
+    }
+
+    expect(document.components.schemas.ApiKeyRequest.required).toEqual(['name']);
+    expect(document.components.schemas.ApiKey.properties).not.toHaveProperty('key_hash');
+  });
+});
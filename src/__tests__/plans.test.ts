@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+import { checkKeyAllowance, getDefaultMonthlyLimit, validateKeySettings } from '@/lib/plans';
+
+const free = { slug: 'free', name: 'Free', max_monthly_limit: 10, max_api_keys: 3, features: [] };
+const enterprise = {
+  slug: 'enterprise',
+  name: 'Enterprise',
+  max_monthly_limit: 0,
+  max_api_keys: 0,
+  features: ['production_keys', 'unlimited_usage'],
+};
+
+describe('plans', () => {
+  it('caps the monthly limit at the plan maximum', () => {
+    const settings = { keyType: 'development', limitUsage: true };
+
+    expect(validateKeySettings(free, { ...settings, monthlyLimit: 10 })).toBeNull();
+    expect(validateKeySettings(free, { ...settings, monthlyLimit: 11 })).toMatchObject({
+      code: 'plan_limit_exceeded',
+    });
+    expect(validateKeySettings(free, { ...settings, monthlyLimit: 0 })).toMatchObject({
+      code: 'invalid_monthly_limit',
+    });
+    expect(validateKeySettings(enterprise, { ...settings, monthlyLimit: 1_000_000 })).toBeNull();
+  });
+
+  it('only allows production and unmetered keys on plans with those features', () => {
+    expect(
+      validateKeySettings(free, { keyType: 'production', limitUsage: true, monthlyLimit: 5 })
+    ).toMatchObject({ code: 'feature_not_in_plan' });
+    expect(
+      validateKeySettings(free, { keyType: 'development', limitUsage: false, monthlyLimit: 5 })
+    ).toMatchObject({ code: 'feature_not_in_plan' });
+    expect(
+      validateKeySettings(enterprise, { keyType: 'production', limitUsage: false, monthlyLimit: 5 })
+    ).toBeNull();
+  });
+
+  it('limits the number of keys unless the plan is unlimited', () => {
+    expect(checkKeyAllowance(free, 2)).toBeNull();
+    expect(checkKeyAllowance(free, 3)).toMatchObject({ code: 'plan_limit_exceeded' });
+    expect(checkKeyAllowance(enterprise, 500)).toBeNull();
+  });
+
+  it('defaults new keys to the plan quota', () => {
+    expect(getDefaultMonthlyLimit(free)).toBe(10);
+    expect(getDefaultMonthlyLimit(enterprise)).toBe(1000);
+  });
+});
@@ -0,0 +1,27 @@
+import { buildRateLimitHeaders } from '@/lib/rate-limit-headers';
+
+describe('buildRateLimitHeaders', () => {
+  const now = new Date('2025-06-30T00:00:00Z');
+  const resetAt = '2025-07-01T00:00:00.000Z';
+
+  it('reports limit, remaining and reset in both header styles', () => {
+    expect(buildRateLimitHeaders({ usage: 3, limit: 10, resetAt }, now)).toEqual({
+      'X-RateLimit-Limit': '10',
+      'X-RateLimit-Remaining': '7',
+      'X-RateLimit-Reset': String(Date.parse(resetAt) / 1000),
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '7',
+      'RateLimit-Reset': '86400',
+      'RateLimit-Policy': `10;w=${30 * 86400}`,
+    });
+  });
+
+  it('never reports negative remaining requests', () => {
+    const headers = buildRateLimitHeaders({ usage: 12, limit: 10, resetAt }, now);
+    expect(headers['X-RateLimit-Remaining']).toBe('0');
+  });
+
+  it('sends no headers for keys without a monthly limit', () => {
+    expect(buildRateLimitHeaders({ usage: 0, limit: 0 }, now)).toEqual({});
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { buildStoredKeyFields, generateApiKey } from '@/lib/api-key-crypto';
+import { buildRotationUpdate } from '@/lib/api-key-rotation';
+import { checkAndIncrementUsage, validateApiKey } from '@/lib/rate-limiting';
+
+// In-memory stand-in for the api_keys table and the increment_api_key_usage function
+const mockDb: { rows: Record<string, any>[] } = { rows: [] };
+
+const mockNextTick = () => new Promise((resolve) => setTimeout(resolve, Math.random() * 5));
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => ({
+      select: () => ({
+        // Supports the `col.eq.value,col.eq.value` filters used for key lookup
+        or: async (filters: string) => {
+          await mockNextTick();
+          const clauses = filters.split(',').map((clause) => clause.split('.eq.'));
+          // Each caller gets its own (possibly stale) snapshot, like a real read
+          const data = mockDb.rows
+            .filter((row) => clauses.some(([column, value]) => row[column] === value))
+            .map((row) => ({ ...row }));
+          return { data, error: null };
+        },
+      }),
+    }),
+    rpc: async (name: string, params: Record<string, any>) => {
+      await mockNextTick();
+      if (name !== 'increment_api_key_usage') {
+        return { data: null, error: { message: `unknown function ${name}` } };
+      }
+
+      // Mirrors the conditional UPDATE: check and increment happen in one step
+      const row = mockDb.rows.find((r) => r.id === params.p_key_id);
+      const sameMonth = row.last_reset_month === params.p_month;
+      if (sameMonth && row.current_usage >= params.p_limit) {
+        return {
+          data: [{ allowed: false, usage_count: row.current_usage, usage_limit: params.p_limit }],
+          error: null,
+        };
+      }
+      row.current_usage = sameMonth ? row.current_usage + 1 : 1;
+      row.last_reset_month = params.p_month;
+      return {
+        data: [{ allowed: true, usage_count: row.current_usage, usage_limit: params.p_limit }],
+        error: null,
+      };
+    },
+  }),
+}));
+
+describe('checkAndIncrementUsage', () => {
+  const apiKey = generateApiKey('development');
+
+  beforeAll(() => {
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-key';
+  });
+
+  beforeEach(() => {
+    mockDb.rows = [
+      {
+        id: 'key-1',
+        ...buildStoredKeyFields(apiKey),
+        permissions: ['read'],
+        limit_usage: true,
+        monthly_limit: 10,
+        current_usage: 0,
+        last_reset_month: null,
+      },
+    ];
+  });
+
+  // The SQL function itself is checked by scripts/check-database-schema.js
+  it('lets the usage function decide which concurrent requests fit the limit', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 50 }, () => checkAndIncrementUsage(apiKey, { permission: 'read' }))
+    );
+
+    const allowed = results.filter((result) => result.allowed);
+    const rejected = results.filter((result) => !result.allowed);
+
+    expect(allowed).toHaveLength(10);
+    expect(rejected).toHaveLength(40);
+    expect(rejected.every((result) => result.code === 'usage_limit_exceeded')).toBe(true);
+    expect(mockDb.rows[0].current_usage).toBe(10);
+    expect(allowed.map((result) => result.usage).sort((a, b) => a - b)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+    ]);
+  });
+
+  it('rejects keys without the required permission before counting usage', async () => {
+    const result = await checkAndIncrementUsage(apiKey, { permission: 'delete' });
+
+    expect(result).toMatchObject({ allowed: false, code: 'insufficient_permission' });
+    expect(mockDb.rows[0].current_usage).toBe(0);
+  });
+
+  it('accepts the replaced secret of a rotated key until its grace period ends', async () => {
+    const newKey = generateApiKey('development');
+    Object.assign(mockDb.rows[0], buildRotationUpdate(mockDb.rows[0], newKey, 1));
+
+    expect((await validateApiKey(newKey)).data?.id).toBe('key-1');
+    expect((await validateApiKey(apiKey)).data?.id).toBe('key-1');
+
+    mockDb.rows[0].previous_key_expires_at = new Date(Date.now() - 1000).toISOString();
+    expect(await validateApiKey(apiKey)).toMatchObject({ valid: false, code: 'invalid_api_key' });
+  });
+
+  it('rejects revoked keys without counting usage', async () => {
+    mockDb.rows[0].revoked_at = new Date().toISOString();
+
+    const result = await checkAndIncrementUsage(apiKey, { permission: 'read' });
+
+    expect(result).toMatchObject({ allowed: false, code: 'key_revoked' });
+    expect(mockDb.rows[0].current_usage).toBe(0);
+  });
+});
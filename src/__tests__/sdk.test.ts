@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import {
+  AuthenticationError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  createClient,
+} from '@/lib/sdk';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const errorResponse = (status: number, code: string, headers: Record<string, string> = {}) =>
+  jsonResponse(status, { error: { code, message: code }, request_id: 'req_1' }, headers);
+
+describe('sdk', () => {
+  const sleep = jest.fn(async () => {});
+
+  beforeEach(() => {
+    sleep.mockClear();
+  });
+
+  it('sends the API key and unwraps the response envelope', async () => {
+    const fetch = jest.fn(async () =>
+      jsonResponse(
+        200,
+        { data: { analysis: { summary: 's', cool_facts: [] } }, request_id: 'req_1' },
+        {
+          'RateLimit-Limit': '100',
+          'RateLimit-Remaining': '99',
+          'X-RateLimit-Reset': '1800000000',
+        }
+      )
+    );
+    const onRateLimit = jest.fn();
+    const client = createClient({
+      baseUrl: 'https://example.com/',
+      apiKey: 'dev_sk_test',
+      fetch,
+      sleep,
+      onRateLimit,
+    });
+
+    const result = await client.summarizeRepo('https://github.com/owner/repo');
+
+    expect(result.analysis.summary).toBe('s');
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://example.com/api/v1/github-summarizer');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'dev_sk_test' });
+    expect(JSON.parse(init.body as string)).toEqual({ githubUrl: 'https://github.com/owner/repo' });
+    expect(client.rateLimit).toEqual({
+      limit: 100,
+      remaining: 99,
+      resetAt: new Date(1800000000 * 1000),
+    });
+    expect(onRateLimit).toHaveBeenCalledWith(client.rateLimit);
+  });
+
+  it('throws the error class matching the error code', async () => {
+    const client = createClient({
+      fetch: jest.fn(async () => errorResponse(401, 'key_revoked')),
+      sleep,
+    });
+
+    const error = await client.validateKey('dev_sk_old').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toMatchObject({ code: 'key_revoked', status: 401, requestId: 'req_1' });
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('retries a burst limit after its Retry-After', async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(errorResponse(429, 'burst_limit_exceeded', { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(jsonResponse(200, { data: [], request_id: 'req_2' }));
+    const client = createClient({ fetch, sleep });
+
+    await expect(client.listKeys()).resolves.toEqual([]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(2000);
+  });
+
+  it('does not wait out an exhausted monthly quota', async () => {
+    const fetch = jest.fn(async () =>
+      errorResponse(429, 'usage_limit_exceeded', { 'Retry-After': '86400' })
+    );
+    const client = createClient({ apiKey: 'dev_sk_test', fetch, sleep });
+
+    const error = await client.summarizeRepo('https://github.com/owner/repo').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(86400);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off exponentially on server and network errors, then gives up', async () => {
+    const fetch = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockImplementation(async () => errorResponse(500, 'internal_error'));
+    const client = createClient({ fetch, sleep, maxRetries: 2, retryDelayMs: 100 });
+
+    await expect(client.getKey('key-1')).rejects.toBeInstanceOf(ServerError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+
+    const offline = createClient({
+      fetch: jest.fn().mockRejectedValue(new TypeError('fetch failed')),
+      sleep,
+      maxRetries: 0,
+    });
+    await expect(offline.listKeys()).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('retries a POST only when it was rate limited', async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(errorResponse(429, 'burst_limit_exceeded', { 'Retry-After': '1' }))
+      .mockResolvedValueOnce(errorResponse(502, 'internal_error'))
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+    const client = createClient({ apiKey: 'dev_sk_test', fetch, sleep, maxRetries: 2 });
+
+    await expect(client.summarizeRepo('https://github.com/owner/repo')).rejects.toBeInstanceOf(
+      ServerError
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(sleep.mock.calls).toEqual([[1000]]);
+
+    await expect(client.createKey({ name: 'CI' })).rejects.toBeInstanceOf(NetworkError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry validation errors', async () => {
+    const fetch = jest.fn(async () => errorResponse(400, 'invalid_request'));
+    const client = createClient({ fetch, sleep });
+
+    await expect(client.createKey({ name: '' })).rejects.toBeInstanceOf(ValidationError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
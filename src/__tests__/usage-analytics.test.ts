@@ -0,0 +1,74 @@
+import { aggregateUsageEvents, parseUsageRange, percentile } from '@/lib/usage-analytics';
+
+const event = (overrides: Record<string, any>) => ({
+  api_key_id: 'key-1',
+  github_url: 'https://github.com/vercel/next.js',
+  status_code: 200,
+  latency_ms: 100,
+  total_tokens: 0,
+  error_class: null,
+  created_at: '2025-03-02T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('usage-analytics', () => {
+  it('computes nearest-rank percentiles', () => {
+    const latencies = Array.from({ length: 100 }, (_, i) => i + 1);
+
+    expect(percentile(latencies, 50)).toBe(50);
+    expect(percentile(latencies, 95)).toBe(95);
+    expect(percentile([], 95)).toBeNull();
+  });
+
+  it('defaults to the last 30 days and rejects bad ranges', () => {
+    const now = new Date('2025-03-31T12:00:00Z');
+
+    expect(parseUsageRange({}, now)).toEqual({
+      from: '2025-03-02',
+      to: '2025-03-31',
+      start: '2025-03-02T00:00:00.000Z',
+      end: '2025-04-01T00:00:00.000Z',
+    });
+    expect(parseUsageRange({ from: '2025-03-10', to: '2025-03-01' }, now)).toHaveProperty('error');
+    expect(parseUsageRange({ from: '03/01/2025' }, now)).toHaveProperty('error');
+    expect(parseUsageRange({ from: '2024-01-01', to: '2025-03-01' }, now)).toHaveProperty('error');
+  });
+
+  it('groups events by day, key, outcome and repository', () => {
+    const summary = aggregateUsageEvents(
+      [
+        event({ latency_ms: 120, total_tokens: 300 }),
+        event({ api_key_id: 'key-2', latency_ms: 80 }),
+        event({
+          status_code: 429,
+          error_class: 'usage_limit_exceeded',
+          github_url: 'https://github.com/facebook/react',
+          created_at: '2025-03-03T23:59:59.000Z',
+        }),
+        event({ api_key_id: null, status_code: 500, error_class: null }),
+      ],
+      { from: '2025-03-01', to: '2025-03-03', keyNames: { 'key-1': 'ci', 'key-2': 'local' } }
+    );
+
+    expect(summary.totals).toEqual({ requests: 4, success: 2, error: 2, tokens: 300 });
+    expect(summary.byDay).toEqual([
+      { date: '2025-03-01', success: 0, error: 0 },
+      { date: '2025-03-02', success: 2, error: 1 },
+      { date: '2025-03-03', success: 0, error: 1 },
+    ]);
+    expect(summary.byKey).toEqual([
+      { apiKeyId: 'key-1', name: 'ci', success: 1, error: 1 },
+      { apiKeyId: 'key-2', name: 'local', success: 1, error: 0 },
+      { apiKeyId: null, name: 'Deleted keys', success: 0, error: 1 },
+    ]);
+    expect(summary.errorClasses).toEqual([
+      { errorClass: 'usage_limit_exceeded', count: 1 },
+      { errorClass: 'http_500', count: 1 },
+    ]);
+    expect(summary.topRepositories[0]).toEqual({
+      githubUrl: 'https://github.com/vercel/next.js',
+      count: 3,
+    });
+    expect(summary.latency).toEqual({ p50: 100, p95: 120 });
+  });
+});
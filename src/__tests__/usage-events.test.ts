@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { createTokenUsageCollector, recordUsageEvent } from '@/lib/usage-events';
+
+const mockInsert = jest.fn();
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { from: () => ({ insert: mockInsert }) },
+}));
+
+describe('usage-events', () => {
+  beforeEach(() => {
+    mockInsert.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds up token usage across LLM calls', () => {
+    const { handler, usage } = createTokenUsageCollector();
+
+    handler.handleLLMEnd({
+      llmOutput: { tokenUsage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 } },
+    });
+    handler.handleLLMEnd({
+      llmOutput: { tokenUsage: { promptTokens: 50, completionTokens: 5, totalTokens: 55 } },
+    });
+    handler.handleLLMEnd({ llmOutput: {} });
+
+    expect(usage).toEqual({ promptTokens: 150, completionTokens: 25, totalTokens: 175 });
+  });
+
+  it('stores one row per call in the usage event columns', async () => {
+    mockInsert.mockResolvedValue({ error: null });
+
+    const stored = await recordUsageEvent({
+      apiKeyId: 'key-1',
+      userId: 'user-1',
+      endpoint: '/api/github-summarizer',
+      statusCode: 429,
+      latencyMs: 12.6,
+      githubUrl: 'https://github.com/vercel/next.js',
+      errorClass: 'usage_limit_exceeded',
+    });
+
+    expect(stored).toBe(true);
+    expect(mockInsert).toHaveBeenCalledWith([
+      {
+        api_key_id: 'key-1',
+        user_id: 'user-1',
+        endpoint: '/api/github-summarizer',
+        github_url: 'https://github.com/vercel/next.js',
+        status_code: 429,
+        latency_ms: 13,
+        prompt_tokens: null,
+        completion_tokens: null,
+        total_tokens: null,
+        error_class: 'usage_limit_exceeded',
+      },
+    ]);
+  });
+
+  it('never throws when the event cannot be stored', async () => {
+    mockInsert.mockRejectedValue(new Error('connection reset'));
+
+    await expect(
+      recordUsageEvent({
+        apiKeyId: 'key-1',
+        userId: 'user-1',
+        endpoint: '/api/github-summarizer',
+        statusCode: 200,
+        latencyMs: 5,
+      })
+    ).resolves.toBe(false);
+  });
+});
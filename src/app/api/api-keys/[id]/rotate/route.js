@@ -0,0 +1,5 @@
+import { deprecatedAlias } from '../../../../../lib/api-response';
+import * as v1 from '../../../v1/api-keys/[id]/rotate/route';
+
+// Deprecated alias of /api/v1/api-keys/[id]/rotate
+export const POST = deprecatedAlias(v1.POST);
@@ -1,135 +1,12 @@
-import { NextResponse } from 'next/server';
-import { requireAuth } from '../../../../lib/auth-helpers';
-import { supabaseAdmin, ensureSupabaseEnv } from '../../../../lib/supabase';
-
-// GET /api/api-keys/[id] - Fetch a specific API key for authenticated user
-export async function GET(request, { params }) {
-  // Validate environment variables at runtime before use
-  ensureSupabaseEnv();
-
-  try {
-    const { userId, error } = await requireAuth(request);
-    if (error) return error;
-
-    const { id } = await params;
-    const { data, error: dbError } = await supabaseAdmin
-      .from('api_keys')
-      .select('*')
-      .eq('id', id)
-      .eq('user_id', userId)
-      .single();
-
-    if (dbError) {
-      if (dbError.code === 'PGRST116') {
-        return NextResponse.json({ error: 'API key not found' }, { status: 404 });
-      }
-      console.error('Error fetching API key:', dbError);
-      return NextResponse.json({ error: 'Failed to fetch API key' }, { status: 500 });
-    }
-
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('GET /api/api-keys/[id] error:', error);
-    return NextResponse.json({ error: 'Failed to fetch API key' }, { status: 500 });
-  }
-}
-
-// PUT /api/api-keys/[id] - Update a specific API key for authenticated user
-export async function PUT(request, { params }) {
-  // Validate environment variables at runtime before use
-  ensureSupabaseEnv();
-
-  try {
-    const { userId, error } = await requireAuth(request);
-    if (error) return error;
-
-    const { id } = await params;
-    const body = await request.json();
-    const { name, description, permissions, keyType } = body;
-
-    // Enforce usage limiting caps on update
-    const requestedLimitUsage = body.limitUsage;
-    const requestedMonthlyLimit =
-      typeof body.monthlyLimit === 'number' ? body.monthlyLimit : undefined;
-    const maxMonthlyLimit = 10;
-    const minMonthlyLimit = 1;
-    const defaultMonthlyLimit = 5;
-    const effectiveLimitUsage = requestedLimitUsage === undefined ? true : !!requestedLimitUsage;
-    const effectiveMonthlyLimit = Math.max(
-      minMonthlyLimit,
-      Math.min(maxMonthlyLimit, requestedMonthlyLimit ?? defaultMonthlyLimit)
-    );
-
-    // Validate required fields
-    if (!name) {
-      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
-    }
-
-    // Update the API key
-    const updates = {
-      name,
-      description: description || '',
-      permissions: permissions || [],
-      key_type: keyType || 'development',
-      limit_usage: effectiveLimitUsage,
-      monthly_limit: effectiveMonthlyLimit,
-    };
-
-    const { data, error: dbError } = await supabaseAdmin
-      .from('api_keys')
-      .update(updates)
-      .eq('id', id)
-      .eq('user_id', userId)
-      .select();
-
-    if (dbError) {
-      console.error('Error updating API key:', dbError);
-      return NextResponse.json({ error: 'Failed to update API key' }, { status: 500 });
-    }
-
-    if (!data || data.length === 0) {
-      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
-    }
-
-    return NextResponse.json(data[0]);
-  } catch (error) {
-    console.error('PUT /api/api-keys/[id] error:', error);
-    return NextResponse.json({ error: 'Failed to update API key' }, { status: 500 });
-  }
-}
-
-// DELETE /api/api-keys/[id] - Delete a specific API key for authenticated user
-export async function DELETE(request, { params }) {
-  // Validate environment variables at runtime before use
-  ensureSupabaseEnv();
-
-  try {
-    const { userId, error } = await requireAuth(request);
-    if (error) return error;
-
-    const { id } = await params;
-    const { data, error: dbError } = await supabaseAdmin
-      .from('api_keys')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', userId)
-      .select();
-
-    if (dbError) {
-      console.error('Error deleting API key:', dbError);
-      return NextResponse.json({ error: 'Failed to delete API key' }, { status: 500 });
-    }
-
-    if (!data || data.length === 0) {
-      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
-    }
-
-    return NextResponse.json(
-      { message: 'API key deleted successfully', deletedKey: data[0] },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error('DELETE /api/api-keys/[id] error:', error);
-    return NextResponse.json({ error: 'Failed to delete API key' }, { status: 500 });
-  }
-}
+import { deprecatedAlias, toLegacyBody } from '../../../../lib/api-response';
+import * as v1 from '../../v1/api-keys/[id]/route';
+
+// Deprecated alias of /api/v1/api-keys/[id]
+export const GET = deprecatedAlias(v1.GET);
+export const PUT = deprecatedAlias(v1.PUT);
+export const DELETE = deprecatedAlias(v1.DELETE, {
+  toLegacy: (body) =>
+    body.error
+      ? toLegacyBody(body)
+      : { message: 'API key revoked successfully', revokedKey: body.data },
+});
@@ -0,0 +1,5 @@
+import { deprecatedAlias } from '../../../lib/api-response';
+import * as v1 from '../v1/audit/route';
+
+// Deprecated alias of /api/v1/audit
+export const GET = deprecatedAlias(v1.GET);
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '../../../lib/openapi';
+
+// GET /api/openapi.json - OpenAPI 3.1 description of the public API
+// Served as a plain document rather than in the response envelope, so API tools can load it
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { 'Access-Control-Allow-Origin': '*' },
+  });
+}
@@ -0,0 +1,85 @@
+import { requireAuth } from '../../../../../../lib/auth-helpers';
+import { supabaseAdmin, ensureSupabaseEnv } from '../../../../../../lib/supabase';
+import { apiError, apiSuccess } from '../../../../../../lib/api-response';
+import { redactApiKey } from '../../../../../../lib/api-key-crypto';
+import { checkKeyAllowance, countUserApiKeys, getUserPlan } from '../../../../../../lib/plans';
+import {
+  AUDIT_ACTIONS,
+  diffRecords,
+  getAuditContext,
+  recordAuditEvent,
+} from '../../../../../../lib/audit-log';
+
+// POST /api/v1/api-keys/[id]/restore - Reactivate a revoked API key for authenticated user
+export async function POST(request, { params }) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { id } = await params;
+
+    // A restored key counts against the plan's key allowance again
+    const plan = await getUserPlan(userId);
+    const keyCount = plan ? await countUserApiKeys(userId) : null;
+    if (!plan || keyCount === null) {
+      return apiError(request, 'internal_error', 'Failed to restore API key');
+    }
+
+    const planError = checkKeyAllowance(plan, keyCount);
+    if (planError) {
+      return apiError(request, planError.code, planError.error);
+    }
+
+    // Kept for the audit log's before/after diff
+    const { data: current, error: fetchError } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .not('revoked_at', 'is', null)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return apiError(request, 'not_found', 'Revoked API key not found');
+      }
+      console.error('Error fetching API key for restore:', fetchError);
+      return apiError(request, 'internal_error', 'Failed to restore API key');
+    }
+
+    const { data, error: dbError } = await supabaseAdmin
+      .from('api_keys')
+      .update({ revoked_at: null, revoked_by: null, revoked_reason: null })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .not('revoked_at', 'is', null)
+      .select();
+
+    if (dbError) {
+      console.error('Error restoring API key:', dbError);
+      return apiError(request, 'internal_error', 'Failed to restore API key');
+    }
+
+    if (!data || data.length === 0) {
+      return apiError(request, 'not_found', 'Revoked API key not found');
+    }
+
+    await recordAuditEvent({
+      userId,
+      actorId: userId,
+      action: AUDIT_ACTIONS.KEY_RESTORED,
+      targetType: 'api_key',
+      targetId: id,
+      changes: diffRecords(current, data[0]),
+      context: getAuditContext(request),
+    });
+
+    return apiSuccess(request, redactApiKey(data[0]));
+  } catch (error) {
+    console.error('POST /api/v1/api-keys/[id]/restore error:', error);
+    return apiError(request, 'internal_error', 'Failed to restore API key');
+  }
+}
@@ -0,0 +1,91 @@
+import { requireAuth } from '../../../../../../lib/auth-helpers';
+import { supabaseAdmin, ensureSupabaseEnv } from '../../../../../../lib/supabase';
+import { apiError, apiSuccess } from '../../../../../../lib/api-response';
+import { generateApiKey, redactApiKey } from '../../../../../../lib/api-key-crypto';
+import { buildRotationUpdate, parseGracePeriod } from '../../../../../../lib/api-key-rotation';
+import { RotateApiKeyRequestSchema, parseJsonBody } from '../../../../../../lib/api-schemas';
+import {
+  AUDIT_ACTIONS,
+  diffRecords,
+  getAuditContext,
+  recordAuditEvent,
+} from '../../../../../../lib/audit-log';
+
+// POST /api/v1/api-keys/[id]/rotate - Issue a new secret; the old one keeps working for a grace period
+export async function POST(request, { params }) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { id } = await params;
+    // The body is optional
+    const parsed = await parseJsonBody(RotateApiKeyRequestSchema, request);
+    if (parsed.error) {
+      return apiError(request, parsed.code, parsed.error, { details: { issues: parsed.issues } });
+    }
+
+    const gracePeriod = parseGracePeriod(parsed.data.gracePeriodHours);
+    if (gracePeriod.error) {
+      return apiError(request, gracePeriod.code, gracePeriod.error);
+    }
+
+    const { data: current, error: fetchError } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return apiError(request, 'not_found', 'API key not found');
+      }
+      console.error('Error fetching API key for rotation:', fetchError);
+      return apiError(request, 'internal_error', 'Failed to rotate API key');
+    }
+
+    if (current.revoked_at) {
+      return apiError(request, 'conflict', 'Revoked API keys cannot be rotated');
+    }
+
+    // The plaintext key is returned once below and only its hash is stored
+    const plaintextKey = generateApiKey(current.key_type);
+
+    // Matching on the current hash makes concurrent rotations of the same key fail
+    // instead of silently dropping one of the new secrets
+    const { data, error: dbError } = await supabaseAdmin
+      .from('api_keys')
+      .update(buildRotationUpdate(current, plaintextKey, gracePeriod.gracePeriodHours))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('key_hash', current.key_hash)
+      .select();
+
+    if (dbError) {
+      console.error('Error rotating API key:', dbError);
+      return apiError(request, 'internal_error', 'Failed to rotate API key');
+    }
+
+    if (!data || data.length === 0) {
+      return apiError(request, 'conflict', 'API key was rotated by another request, please retry');
+    }
+
+    await recordAuditEvent({
+      userId,
+      actorId: userId,
+      action: AUDIT_ACTIONS.KEY_ROTATED,
+      targetType: 'api_key',
+      targetId: id,
+      changes: diffRecords(current, data[0]),
+      context: getAuditContext(request),
+    });
+
+    return apiSuccess(request, { ...redactApiKey(data[0]), key: plaintextKey });
+  } catch (error) {
+    console.error('POST /api/v1/api-keys/[id]/rotate error:', error);
+    return apiError(request, 'internal_error', 'Failed to rotate API key');
+  }
+}
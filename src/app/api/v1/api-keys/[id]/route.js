@@ -0,0 +1,217 @@
+import { requireAuth } from '../../../../../lib/auth-helpers';
+import { supabaseAdmin, ensureSupabaseEnv } from '../../../../../lib/supabase';
+import { apiError, apiSuccess } from '../../../../../lib/api-response';
+import {
+  ApiKeyRequestSchema,
+  RevokeApiKeyRequestSchema,
+  parseJsonBody,
+} from '../../../../../lib/api-schemas';
+import { redactApiKey } from '../../../../../lib/api-key-crypto';
+import { validateExpiryUpdate } from '../../../../../lib/api-key-expiry';
+import { validateKeyRestrictions } from '../../../../../lib/api-key-restrictions';
+import {
+  AUDIT_ACTIONS,
+  diffRecords,
+  getAuditContext,
+  recordAuditEvent,
+} from '../../../../../lib/audit-log';
+import { getDefaultMonthlyLimit, getUserPlan, validateKeySettings } from '../../../../../lib/plans';
+
+// GET /api/v1/api-keys/[id] - Fetch a specific API key for authenticated user
+export async function GET(request, { params }) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { id } = await params;
+    const { data, error: dbError } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (dbError) {
+      if (dbError.code === 'PGRST116') {
+        return apiError(request, 'not_found', 'API key not found');
+      }
+      console.error('Error fetching API key:', dbError);
+      return apiError(request, 'internal_error', 'Failed to fetch API key');
+    }
+
+    return apiSuccess(request, redactApiKey(data));
+  } catch (error) {
+    console.error('GET /api/v1/api-keys/[id] error:', error);
+    return apiError(request, 'internal_error', 'Failed to fetch API key');
+  }
+}
+
+// PUT /api/v1/api-keys/[id] - Update a specific API key for authenticated user
+export async function PUT(request, { params }) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { id } = await params;
+    const parsed = await parseJsonBody(ApiKeyRequestSchema, request);
+    if (parsed.error) {
+      return apiError(request, parsed.code, parsed.error, { details: { issues: parsed.issues } });
+    }
+    const body = parsed.data;
+    const { name, description, permissions, keyType } = body;
+
+    // Key type and quota are capped by the owner's plan
+    const plan = await getUserPlan(userId);
+    if (!plan) {
+      return apiError(request, 'internal_error', 'Failed to update API key');
+    }
+
+    const settings = {
+      keyType: keyType || 'development',
+      limitUsage: body.limitUsage === undefined ? true : !!body.limitUsage,
+      monthlyLimit: body.monthlyLimit ?? getDefaultMonthlyLimit(plan),
+    };
+
+    const planError = validateKeySettings(plan, settings);
+    if (planError) {
+      return apiError(request, planError.code, planError.error);
+    }
+
+    // Allowlists left out of the request are kept as they are
+    const restrictions = validateKeyRestrictions(body);
+    if (restrictions.error) {
+      return apiError(request, restrictions.code, restrictions.error);
+    }
+
+    // Kept for the audit log's before/after diff and the expiry check
+    const { data: current, error: fetchError } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return apiError(request, 'not_found', 'API key not found');
+      }
+      console.error('Error fetching API key for update:', fetchError);
+      return apiError(request, 'internal_error', 'Failed to update API key');
+    }
+
+    // Leaving expiresAt out keeps the current expiry; null removes it
+    const expiry = validateExpiryUpdate(body.expiresAt, current.expires_at, settings.keyType);
+    if (expiry.error) {
+      return apiError(request, expiry.code, expiry.error);
+    }
+
+    // Update the API key
+    const updates = {
+      name,
+      description: description || '',
+      permissions: permissions || [],
+      key_type: settings.keyType,
+      limit_usage: settings.limitUsage,
+      monthly_limit: settings.limitUsage ? settings.monthlyLimit : getDefaultMonthlyLimit(plan),
+      ...(expiry.expiresAt !== undefined && { expires_at: expiry.expiresAt }),
+      ...restrictions.fields,
+    };
+
+    const { data, error: dbError } = await supabaseAdmin
+      .from('api_keys')
+      .update(updates)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select();
+
+    if (dbError) {
+      console.error('Error updating API key:', dbError);
+      return apiError(request, 'internal_error', 'Failed to update API key');
+    }
+
+    if (!data || data.length === 0) {
+      return apiError(request, 'not_found', 'API key not found');
+    }
+
+    await recordAuditEvent({
+      userId,
+      actorId: userId,
+      action: AUDIT_ACTIONS.KEY_UPDATED,
+      targetType: 'api_key',
+      targetId: id,
+      changes: diffRecords(current, data[0]),
+      context: getAuditContext(request),
+    });
+
+    return apiSuccess(request, redactApiKey(data[0]));
+  } catch (error) {
+    console.error('PUT /api/v1/api-keys/[id] error:', error);
+    return apiError(request, 'internal_error', 'Failed to update API key');
+  }
+}
+
+// DELETE /api/v1/api-keys/[id] - Revoke a specific API key for authenticated user
+// The row is kept for usage history until the revoked-key purge job removes it
+export async function DELETE(request, { params }) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { id } = await params;
+    // The body is optional
+    const parsed = await parseJsonBody(RevokeApiKeyRequestSchema, request);
+    if (parsed.error) {
+      return apiError(request, parsed.code, parsed.error, { details: { issues: parsed.issues } });
+    }
+    const reason = (parsed.data.reason || '').trim().slice(0, 500);
+
+    const { data, error: dbError } = await supabaseAdmin
+      .from('api_keys')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revoked_by: userId,
+        revoked_reason: reason || null,
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select();
+
+    if (dbError) {
+      console.error('Error revoking API key:', dbError);
+      return apiError(request, 'internal_error', 'Failed to revoke API key');
+    }
+
+    if (!data || data.length === 0) {
+      return apiError(request, 'not_found', 'API key not found or already revoked');
+    }
+
+    // The update only matches keys that were not revoked yet
+    await recordAuditEvent({
+      userId,
+      actorId: userId,
+      action: AUDIT_ACTIONS.KEY_REVOKED,
+      targetType: 'api_key',
+      targetId: id,
+      changes: diffRecords(
+        { ...data[0], revoked_at: null, revoked_by: null, revoked_reason: null },
+        data[0]
+      ),
+      context: getAuditContext(request),
+    });
+
+    return apiSuccess(request, redactApiKey(data[0]));
+  } catch (error) {
+    console.error('DELETE /api/v1/api-keys/[id] error:', error);
+    return apiError(request, 'internal_error', 'Failed to revoke API key');
+  }
+}
@@ -0,0 +1,139 @@
+import { requireAuth } from '../../../../lib/auth-helpers';
+import { supabaseAdmin, ensureSupabaseEnv } from '../../../../lib/supabase';
+import { apiError, apiSuccess } from '../../../../lib/api-response';
+import { ApiKeyRequestSchema, parseJsonBody } from '../../../../lib/api-schemas';
+import { buildStoredKeyFields, generateApiKey, redactApiKey } from '../../../../lib/api-key-crypto';
+import { validateExpiry } from '../../../../lib/api-key-expiry';
+import { validateKeyRestrictions } from '../../../../lib/api-key-restrictions';
+import {
+  AUDIT_ACTIONS,
+  diffRecords,
+  getAuditContext,
+  recordAuditEvent,
+} from '../../../../lib/audit-log';
+import {
+  checkKeyAllowance,
+  countUserApiKeys,
+  getDefaultMonthlyLimit,
+  getUserPlan,
+  validateKeySettings,
+} from '../../../../lib/plans';
+
+// GET /api/v1/api-keys - Fetch all API keys for authenticated user
+export async function GET(request) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { data, error: dbError } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('Error fetching API keys:', dbError);
+      return apiError(request, 'internal_error', 'Failed to fetch API keys');
+    }
+
+    return apiSuccess(request, (data || []).map(redactApiKey));
+  } catch (error) {
+    console.error('GET /api/v1/api-keys error:', error);
+    return apiError(request, 'internal_error', 'Failed to fetch API keys');
+  }
+}
+
+// POST /api/v1/api-keys - Create a new API key for authenticated user
+export async function POST(request) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const parsed = await parseJsonBody(ApiKeyRequestSchema, request);
+    if (parsed.error) {
+      return apiError(request, parsed.code, parsed.error, { details: { issues: parsed.issues } });
+    }
+    const body = parsed.data;
+    const { name, description, permissions, keyType } = body;
+
+    // Key count, type and quota are capped by the owner's plan
+    const plan = await getUserPlan(userId);
+    const keyCount = plan ? await countUserApiKeys(userId) : null;
+    if (!plan || keyCount === null) {
+      return apiError(request, 'internal_error', 'Failed to create API key');
+    }
+
+    const settings = {
+      keyType: keyType || 'development',
+      limitUsage: body.limitUsage === undefined ? true : !!body.limitUsage,
+      monthlyLimit: body.monthlyLimit ?? getDefaultMonthlyLimit(plan),
+    };
+
+    const planError = checkKeyAllowance(plan, keyCount) || validateKeySettings(plan, settings);
+    if (planError) {
+      return apiError(request, planError.code, planError.error);
+    }
+
+    const expiry = validateExpiry(body.expiresAt, settings.keyType);
+    if (expiry.error) {
+      return apiError(request, expiry.code, expiry.error);
+    }
+
+    // Empty allowlists leave the key usable from any address or referrer
+    const restrictions = validateKeyRestrictions({
+      allowedIps: body.allowedIps ?? [],
+      allowedReferrers: body.allowedReferrers ?? [],
+    });
+    if (restrictions.error) {
+      return apiError(request, restrictions.code, restrictions.error);
+    }
+
+    // The plaintext key is returned once below and only its hash is stored
+    const plaintextKey = generateApiKey(settings.keyType);
+
+    const newApiKey = {
+      user_id: userId,
+      name,
+      description: description || '',
+      ...buildStoredKeyFields(plaintextKey),
+      permissions: permissions || [],
+      key_type: settings.keyType,
+      limit_usage: settings.limitUsage,
+      monthly_limit: settings.limitUsage ? settings.monthlyLimit : getDefaultMonthlyLimit(plan),
+      expires_at: expiry.expiresAt,
+      ...restrictions.fields,
+    };
+
+    const { data, error: dbError } = await supabaseAdmin
+      .from('api_keys')
+      .insert([newApiKey])
+      .select()
+      .single();
+
+    if (dbError) {
+      console.error('Error creating API key:', dbError);
+      return apiError(request, 'internal_error', 'Failed to create API key');
+    }
+
+    await recordAuditEvent({
+      userId,
+      actorId: userId,
+      action: AUDIT_ACTIONS.KEY_CREATED,
+      targetType: 'api_key',
+      targetId: data.id,
+      changes: diffRecords(null, data),
+      context: getAuditContext(request),
+    });
+
+    return apiSuccess(request, { ...redactApiKey(data), key: plaintextKey }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/v1/api-keys error:', error);
+    return apiError(request, 'internal_error', 'Failed to create API key');
+  }
+}
@@ -0,0 +1,54 @@
+import { requireAuth } from '../../../../lib/auth-helpers';
+import { supabaseAdmin, ensureSupabaseEnv } from '../../../../lib/supabase';
+import { apiError, apiSuccess } from '../../../../lib/api-response';
+import { parseAuditPage } from '../../../../lib/audit-log';
+
+// GET /api/v1/audit?page=1&pageSize=25 - Account and key activity for the authenticated user, newest first
+export async function GET(request) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { searchParams } = new URL(request.url);
+    const paging = parseAuditPage({
+      page: searchParams.get('page'),
+      pageSize: searchParams.get('pageSize'),
+    });
+    if (paging.error) {
+      return apiError(request, 'invalid_request', paging.error);
+    }
+
+    const {
+      data,
+      count,
+      error: dbError,
+    } = await supabaseAdmin
+      .from('audit_events')
+      .select(
+        'id, actor_id, action, target_type, target_id, ip_address, user_agent, changes, created_at',
+        { count: 'exact' }
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(paging.from, paging.to);
+
+    if (dbError) {
+      console.error('Error fetching audit events:', dbError);
+      return apiError(request, 'internal_error', 'Failed to fetch activity');
+    }
+
+    return apiSuccess(request, {
+      events: data || [],
+      page: paging.page,
+      pageSize: paging.pageSize,
+      total: count ?? 0,
+    });
+  } catch (error) {
+    console.error('GET /api/v1/audit error:', error);
+    return apiError(request, 'internal_error', 'Failed to fetch activity');
+  }
+}
@@ -0,0 +1,364 @@
+import { createClient } from '@supabase/supabase-js';
+import { analyzeReadme, getChunkingLimits } from '../../../../lib/chain';
+import {
+  burstLimitError,
+  checkAndIncrementUsage,
+  refundUsage,
+} from '../../../../lib/rate-limiting';
+import { checkIpBurstLimit } from '../../../../lib/burst-limiting';
+import { getClientIp } from '../../../../lib/ip-address';
+import { getRequestClient } from '../../../../lib/api-key-restrictions';
+import { buildRateLimitHeaders } from '../../../../lib/rate-limit-headers';
+import { getBasicRepoInfo } from '../../../../lib/get-repo-info';
+import {
+  getRepository,
+  getRepositoryContent,
+  parseGithubUrl,
+} from '../../../../lib/github-content';
+import {
+  cacheAnalysis,
+  getAnalysisCacheConfig,
+  getAnalysisCacheKey,
+  getCachedAnalysis,
+} from '../../../../lib/analysis-cache';
+import { getLlmConfig } from '../../../../lib/llm-provider';
+import { PERMISSIONS } from '../../../../lib/api-key-permissions';
+import { getErrorStatus } from '../../../../lib/api-errors';
+import {
+  acceptsEventStream,
+  apiError,
+  apiEventStream,
+  apiSuccess,
+} from '../../../../lib/api-response';
+import { SummarizeRequestSchema, parseBody, readJsonBody } from '../../../../lib/api-schemas';
+import { DEFAULT_ANALYSIS_PROFILE } from '../../../../lib/analysis-profiles';
+import { createTokenUsageCollector, recordUsageEvent } from '../../../../lib/usage-events';
+import { validateSupabaseEnv } from '@/lib/env-validation';
+
+// Use placeholders during build time, but validate at runtime
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-anon-key';
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Scope an API key must hold to call this endpoint
+const REQUIRED_PERMISSION = PERMISSIONS.READ;
+
+// POST /api/v1/github-summarizer - Summarize a GitHub repository from its README or, lacking one, its manifests and docs
+//
+// With `Accept: text/event-stream` the analysis is streamed as Server-Sent Events:
+//   progress  {"stage": "fetching_readme" | "fetching_repo_info" | "analyzing"}
+//   token     {"text": "..."}, the next piece of analysis.summary (all of it at once for a cache hit)
+//   result    the response envelope, {"data": ..., "request_id": ...}
+//   error     the error envelope, {"error": {...}, "request_id": ...}
+// Failures before the analysis starts (authentication, quota, validation) are
+// still answered as plain JSON errors. Usage is charged once, when the stream opens.
+export async function POST(request) {
+  // Validate environment variables at runtime before use
+  validateSupabaseEnv();
+
+  const startedAt = Date.now();
+  const event = {};
+
+  // Only calls made with an identified key are logged
+  const logUsage = async (statusCode) => {
+    if (!event.apiKeyId) return;
+    await recordUsageEvent({
+      ...event,
+      // The path called, so calls through the deprecated alias can be told apart
+      endpoint: new URL(request.url).pathname,
+      statusCode,
+      latencyMs: Date.now() - startedAt,
+    });
+  };
+
+  const response = await summarize(request, event, logUsage);
+
+  // Streams log their usage when they end
+  if (!event.streamed) {
+    await logUsage(response.status);
+  }
+
+  return response;
+}
+
+/**
+ * Fetches a repository and analyzes it, or serves the cached analysis of the same content
+ * @param {Object} request
+ * @param {string} request.githubUrl
+ * @param {string} request.analysisProfile
+ * @param {boolean} [request.forceRefresh] - Skips the cache lookup
+ * @param {boolean} [request.cacheOnly] - Returns null on a cache miss instead of running the model
+ * @param {Object} event - The usage event; gets the token usage
+ * @param {Object} [handlers]
+ * @param {(stage: string) => void} [handlers.onProgress] - Told when each step starts
+ * @param {(text: string) => void} [handlers.onSummaryToken] - Receives the summary as it is generated
+ * @returns {Promise<Object|null>} The response payload, without the quota fields
+ * @throws {Error} With `stage` set to the step that failed, fetch_readme or analyze
+ */
+async function analyzeRepository(
+  { githubUrl, analysisProfile, forceRefresh, cacheOnly },
+  event,
+  handlers = {}
+) {
+  const { onProgress = () => {}, onSummaryToken } = handlers;
+  let stage = 'fetch_readme';
+
+  try {
+    // Fetch the repository once, then the README (or fallback sources) and
+    // repository information in parallel. A cache-only lookup fetches the
+    // releases and tags behind the repository information only on a hit.
+    onProgress('fetching_readme');
+    const repository = await getRepository(githubUrl);
+    onProgress('fetching_repo_info');
+    let [repositoryContent, repoInfo] = await Promise.all([
+      getRepositoryContent(githubUrl, { repository }),
+      cacheOnly ? null : getBasicRepoInfo(githubUrl, { repository }),
+    ]);
+
+    stage = 'analyze';
+    const { provider, model } = getLlmConfig();
+    const cacheKey =
+      repositoryContent.contentSha &&
+      getAnalysisCacheKey({
+        ...parseGithubUrl(githubUrl),
+        contentSha: repositoryContent.contentSha,
+        profile: analysisProfile,
+        model: `${provider}/${model}`,
+        chunking: getChunkingLimits(),
+      });
+
+    let result = cacheKey && !forceRefresh ? await getCachedAnalysis(cacheKey) : null;
+    if (cacheOnly) {
+      if (!result) return null;
+      repoInfo = await getBasicRepoInfo(githubUrl, { repository });
+    }
+    if (result) {
+      onSummaryToken?.(result.analysis.summary);
+    } else {
+      // Analyze the content using LangChain
+      onProgress('analyzing');
+      const tokenUsage = createTokenUsageCollector();
+      event.tokens = tokenUsage.usage;
+      result = await analyzeReadme(repositoryContent.content, {
+        callbacks: [tokenUsage.handler],
+        profile: analysisProfile,
+        onSummaryToken,
+      });
+      if (cacheKey) await cacheAnalysis(cacheKey, result);
+    }
+
+    const { analysis, chunks, truncated, cachedAt } = result;
+    return {
+      analysisProfile,
+      analysis,
+      githubUrl,
+      repositoryInfo: {
+        stars: repoInfo.stars,
+        version: repoInfo.version,
+        website: repoInfo.website,
+        license: repoInfo.license,
+      },
+      defaultBranch: repositoryContent.defaultBranch,
+      sources: repositoryContent.sources,
+      chunks,
+      truncated,
+      cached: Boolean(cachedAt),
+      cachedAt: cachedAt ?? null,
+    };
+  } catch (error) {
+    error.stage = stage;
+    throw error;
+  }
+}
+
+/**
+ * Gets the quota fields of a response, giving back the request a cache hit used
+ * when ANALYSIS_CACHE_FREE_HITS is set
+ * @param {{cached: boolean}} payload - From analyzeRepository
+ * @param {Object} rateLimitResult - From checkAndIncrementUsage
+ * @returns {Promise<{usage: number, limit: number}>}
+ */
+async function settleQuota(payload, rateLimitResult) {
+  const quota = { usage: rateLimitResult.usage, limit: rateLimitResult.limit };
+  // Keys without a monthly limit, and keys served while out of quota, were never charged
+  if (
+    !payload.cached ||
+    !quota.limit ||
+    !rateLimitResult.allowed ||
+    !getAnalysisCacheConfig().freeHits
+  ) {
+    return quota;
+  }
+
+  const refund = await refundUsage(rateLimitResult.apiKeyId);
+  return refund.error ? quota : { ...quota, usage: refund.usage };
+}
+
+/**
+ * Looks up a cached analysis for a key that is out of monthly quota
+ *
+ * Cache hits are free with ANALYSIS_CACHE_FREE_HITS, so they are served even
+ * when the quota refuses a fresh analysis. The repository is fetched from
+ * GitHub to find its content SHA, but releases and tags are only fetched for a
+ * hit and the model is never called.
+ * @param {unknown} body - The request body
+ * @param {Object} event - The usage event
+ * @returns {Promise<Object|null>} The response payload, or null when there is nothing free to serve
+ */
+async function getFreeCachedAnalysis(body, event) {
+  if (!getAnalysisCacheConfig().freeHits) {
+    return null;
+  }
+
+  const parsed = parseBody(SummarizeRequestSchema, body);
+  if (parsed.error || parsed.data.forceRefresh) {
+    return null;
+  }
+
+  const { githubUrl, analysisProfile = DEFAULT_ANALYSIS_PROFILE } = parsed.data;
+  try {
+    return await analyzeRepository({ githubUrl, analysisProfile, cacheOnly: true }, event);
+  } catch (error) {
+    console.error('Error looking up a free cached analysis:', error);
+    return null;
+  }
+}
+
+/**
+ * Handles a summarize request
+ * @param {Request} request - The incoming request
+ * @param {Object} event - Filled in with the usage event fields as they become known
+ * @param {(statusCode: number) => Promise<void>} logUsage - Records the usage event of a stream
+ * @returns {Promise<Response>}
+ */
+async function summarize(request, event, logUsage) {
+  try {
+    // Throttle bursts per client IP before touching the database
+    const ipBurstResult = await checkIpBurstLimit(getClientIp(request));
+    if (!ipBurstResult.allowed) {
+      const { error, code, retryAfter } = burstLimitError(ipBurstResult);
+      return apiError(request, code, error, {
+        details: { retryAfter },
+        headers: { 'Retry-After': String(retryAfter) },
+      });
+    }
+
+    // A body that is not JSON at all is rejected before the key is charged
+    const json = await readJsonBody(request);
+    if (json.error) {
+      event.errorClass = json.code;
+      return apiError(request, json.code, json.error);
+    }
+    const { body } = json;
+    event.githubUrl = typeof body?.githubUrl === 'string' ? body.githubUrl : undefined;
+    const apiKey = request.headers.get('x-api-key');
+
+    if (!apiKey) {
+      return apiError(request, 'missing_api_key', 'API key is required');
+    }
+
+    // Check rate limiting and increment usage
+    const rateLimitResult = await checkAndIncrementUsage(apiKey, {
+      permission: REQUIRED_PERMISSION,
+      client: getRequestClient(request),
+    });
+
+    // Every response from here on carries the key's quota state
+    const rateLimitHeaders = buildRateLimitHeaders(rateLimitResult);
+    event.apiKeyId = rateLimitResult.apiKeyId;
+    event.userId = rateLimitResult.userId;
+
+    // A key out of monthly quota is still served analyses that are cached and free
+    const freePayload =
+      rateLimitResult.code === 'usage_limit_exceeded'
+        ? await getFreeCachedAnalysis(body, event)
+        : null;
+
+    if (!rateLimitResult.allowed && !freePayload) {
+      event.errorClass = rateLimitResult.code;
+      const statusCode = getErrorStatus(rateLimitResult.code);
+      const retryAfter = rateLimitResult.retryAfter ?? rateLimitHeaders['RateLimit-Reset'];
+      return apiError(request, rateLimitResult.code, rateLimitResult.error, {
+        details: {
+          usage: rateLimitResult.usage,
+          limit: rateLimitResult.limit,
+          ...(statusCode === 429 && retryAfter && { retryAfter: Number(retryAfter) }),
+        },
+        headers:
+          statusCode === 429 && retryAfter
+            ? { ...rateLimitHeaders, 'Retry-After': String(retryAfter) }
+            : rateLimitHeaders,
+      });
+    }
+
+    // Validate the request body; a metered call with a bad body still counts
+    const parsed = parseBody(SummarizeRequestSchema, body);
+    if (parsed.error) {
+      event.errorClass = parsed.code;
+      return apiError(request, parsed.code, parsed.error, {
+        details: { issues: parsed.issues },
+        headers: rateLimitHeaders,
+      });
+    }
+    const { githubUrl, analysisProfile = DEFAULT_ANALYSIS_PROFILE, forceRefresh } = parsed.data;
+    const analyze = freePayload
+      ? async ({ onSummaryToken } = {}) => {
+          onSummaryToken?.(freePayload.analysis.summary);
+          return freePayload;
+        }
+      : (handlers) =>
+          analyzeRepository({ githubUrl, analysisProfile, forceRefresh }, event, handlers);
+
+    if (acceptsEventStream(request)) {
+      event.streamed = true;
+      return apiEventStream(
+        request,
+        async (stream) => {
+          try {
+            const payload = await analyze({
+              onProgress: (stage) => stream.send('progress', { stage }),
+              onSummaryToken: (text) => stream.send('token', { text }),
+            });
+            stream.success({ ...payload, ...(await settleQuota(payload, rateLimitResult)) });
+          } catch (readmeError) {
+            console.error('Error processing GitHub repository:', readmeError);
+            event.errorClass = `${readmeError.stage}_failed`;
+            stream.error(
+              event.errorClass,
+              readmeError.message || 'Failed to process GitHub repository'
+            );
+          } finally {
+            // The stream was opened with 200, but one that ends in an error event
+            // is logged with that error's status so it counts as a failure
+            await logUsage(event.errorClass ? getErrorStatus(event.errorClass) : 200);
+          }
+        },
+        { headers: rateLimitHeaders }
+      );
+    }
+
+    try {
+      const payload = await analyze();
+      const quota = await settleQuota(payload, rateLimitResult);
+      return apiSuccess(
+        request,
+        { ...payload, ...quota },
+        { headers: buildRateLimitHeaders({ ...rateLimitResult, ...quota }) }
+      );
+    } catch (readmeError) {
+      console.error('Error processing GitHub repository:', readmeError);
+      event.errorClass = `${readmeError.stage}_failed`;
+      return apiError(
+        request,
+        event.errorClass,
+        readmeError.message || 'Failed to process GitHub repository',
+        { headers: rateLimitHeaders }
+      );
+    }
+  } catch (error) {
+    console.error('Validation error:', error);
+    event.errorClass = 'internal_error';
+    return apiError(request, 'internal_error', 'Internal server error');
+  }
+}
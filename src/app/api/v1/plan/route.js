@@ -0,0 +1,33 @@
+import { requireAuth } from '../../../../lib/auth-helpers';
+import { ensureSupabaseEnv } from '../../../../lib/supabase';
+import { apiError, apiSuccess } from '../../../../lib/api-response';
+import { countUserApiKeys, getUserPlan } from '../../../../lib/plans';
+
+// GET /api/v1/plan - Fetch the authenticated user's plan and how many keys it has left
+export async function GET(request) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const plan = await getUserPlan(userId);
+    const keyCount = plan ? await countUserApiKeys(userId) : null;
+    if (!plan || keyCount === null) {
+      return apiError(request, 'internal_error', 'Failed to fetch plan');
+    }
+
+    return apiSuccess(request, {
+      slug: plan.slug,
+      name: plan.name,
+      max_monthly_limit: plan.max_monthly_limit,
+      max_api_keys: plan.max_api_keys,
+      features: plan.features || [],
+      key_count: keyCount,
+    });
+  } catch (error) {
+    console.error('GET /api/v1/plan error:', error);
+    return apiError(request, 'internal_error', 'Failed to fetch plan');
+  }
+}
@@ -0,0 +1,90 @@
+import { requireAuth } from '../../../../lib/auth-helpers';
+import { supabaseAdmin, ensureSupabaseEnv } from '../../../../lib/supabase';
+import { apiError, apiSuccess } from '../../../../lib/api-response';
+import { UsageQuerySchema, parseBody } from '../../../../lib/api-schemas';
+import { aggregateUsageEvents, parseUsageRange } from '../../../../lib/usage-analytics';
+
+// Events are read in pages; ranges with more than MAX_EVENTS are reported as truncated
+const PAGE_SIZE = 1000;
+const MAX_EVENTS = 20000;
+
+// GET /api/v1/usage?from=YYYY-MM-DD&to=YYYY-MM-DD&keyId=<uuid> - Usage analytics for the authenticated user
+export async function GET(request) {
+  // Validate environment variables at runtime before use
+  ensureSupabaseEnv();
+
+  try {
+    const { userId, error } = await requireAuth(request);
+    if (error) return error;
+
+    const { searchParams } = new URL(request.url);
+    const params = parseBody(UsageQuerySchema, Object.fromEntries(searchParams));
+    if (params.error) {
+      return apiError(request, params.code, params.error, { details: { issues: params.issues } });
+    }
+
+    const { from, to, keyId } = params.data;
+    const range = parseUsageRange({ from, to });
+    if (range.error) {
+      return apiError(request, 'invalid_request', range.error);
+    }
+
+    const { data: keys, error: keysError } = await supabaseAdmin
+      .from('api_keys')
+      .select('id, name')
+      .eq('user_id', userId);
+
+    if (keysError) {
+      console.error('Error fetching API keys for usage:', keysError);
+      return apiError(request, 'internal_error', 'Failed to fetch usage');
+    }
+
+    const events = [];
+    let truncated = false;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabaseAdmin
+        .from('api_usage_events')
+        .select(
+          'api_key_id, github_url, status_code, latency_ms, total_tokens, error_class, created_at'
+        )
+        .eq('user_id', userId)
+        .gte('created_at', range.start)
+        .lt('created_at', range.end);
+
+      if (keyId) {
+        query = query.eq('api_key_id', keyId);
+      }
+
+      // id breaks ties between events of the same instant, so pages never overlap
+      const { data, error: dbError } = await query
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (dbError) {
+        console.error('Error fetching usage events:', dbError);
+        return apiError(request, 'internal_error', 'Failed to fetch usage');
+      }
+
+      events.push(...(data || []));
+
+      if (!data || data.length < PAGE_SIZE) break;
+      if (events.length >= MAX_EVENTS) {
+        truncated = true;
+        break;
+      }
+    }
+
+    const keyNames = Object.fromEntries((keys || []).map((key) => [key.id, key.name]));
+
+    return apiSuccess(request, {
+      ...aggregateUsageEvents(events, { from: range.from, to: range.to, keyNames }),
+      keyId: keyId || null,
+      truncated,
+    });
+  } catch (error) {
+    console.error('GET /api/v1/usage error:', error);
+    return apiError(request, 'internal_error', 'Failed to fetch usage');
+  }
+}
@@ -0,0 +1,70 @@
+import { burstLimitError, validateApiKey } from '../../../../lib/rate-limiting';
+import { checkIpBurstLimit, checkKeyBurstLimit } from '../../../../lib/burst-limiting';
+import { getClientIp } from '../../../../lib/ip-address';
+import { getRequestClient } from '../../../../lib/api-key-restrictions';
+import { PERMISSIONS, checkPermission } from '../../../../lib/api-key-permissions';
+import { apiError, apiSuccess } from '../../../../lib/api-response';
+import { redactApiKey } from '../../../../lib/api-key-crypto';
+import { ValidateKeyRequestSchema, parseBody, readJsonBody } from '../../../../lib/api-schemas';
+
+// Scope an API key must hold to call this endpoint
+const REQUIRED_PERMISSION = PERMISSIONS.READ;
+
+// POST /api/v1/validate-key - Check an API key and return its details
+export async function POST(request) {
+  try {
+    // Throttle bursts per client IP before touching the database
+    const ipBurstResult = await checkIpBurstLimit(getClientIp(request));
+    if (!ipBurstResult.allowed) {
+      return burstLimitResponse(request, ipBurstResult);
+    }
+
+    const json = await readJsonBody(request);
+    if (json.error) {
+      return apiError(request, json.code, json.error);
+    }
+
+    const parsed = parseBody(ValidateKeyRequestSchema, json.body);
+    if (parsed.error) {
+      return apiError(request, 'missing_api_key', parsed.error);
+    }
+    const { apiKey } = parsed.data;
+
+    // Use the reusable validation function
+    const validation = await validateApiKey(apiKey, { client: getRequestClient(request) });
+
+    if (!validation.valid) {
+      return apiError(request, validation.code, validation.error);
+    }
+
+    const permissionError = checkPermission(validation.data, REQUIRED_PERMISSION);
+    if (permissionError) {
+      return apiError(request, permissionError.code, permissionError.error);
+    }
+
+    const keyBurstResult = await checkKeyBurstLimit(validation.data);
+    if (!keyBurstResult.allowed) {
+      return burstLimitResponse(request, keyBurstResult);
+    }
+
+    // API key is valid, return the key data without its hash or salt
+    return apiSuccess(request, redactApiKey(validation.data));
+  } catch (error) {
+    console.error('Validation error:', error);
+
+    // Check if it's an environment variable error
+    if (error.message && error.message.includes('Missing required environment variable')) {
+      return apiError(request, 'internal_error', 'Server configuration error: ' + error.message);
+    }
+
+    return apiError(request, 'internal_error', 'Internal server error');
+  }
+}
+
+function burstLimitResponse(request, burstResult) {
+  const { error, code, retryAfter } = burstLimitError(burstResult);
+  return apiError(request, code, error, {
+    details: { retryAfter },
+    headers: { 'Retry-After': String(retryAfter) },
+  });
+}
@@ -1,43 +1,8 @@
-import { NextResponse } from 'next/server';
-import { validateApiKey } from '../../../lib/rate-limiting';
-
-export async function POST(request) {
-  try {
-    const { apiKey } = await request.json();
-
-    if (!apiKey) {
-      return NextResponse.json({ valid: false, error: 'API key is required' }, { status: 400 });
-    }
-
-    // Use the reusable validation function
-    const validation = await validateApiKey(apiKey);
-
-    if (!validation.valid) {
-      const statusCode = validation.error === 'Invalid API key' ? 401 : 500;
-      return NextResponse.json({ valid: false, error: validation.error }, { status: statusCode });
-    }
-
-    // API key is valid, return the key data (excluding the actual key for security)
-    const { key, ...keyData } = validation.data;
-
-    return NextResponse.json({
-      valid: true,
-      apiKeyData: {
-        ...keyData,
-        key: validation.data.key, // Include the key for the protected page
-      },
-    });
-  } catch (error) {
-    console.error('Validation error:', error);
-
-    // Check if it's an environment variable error
-    if (error.message && error.message.includes('Missing required environment variable')) {
-      return NextResponse.json(
-        { valid: false, error: 'Server configuration error: ' + error.message },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({ valid: false, error: 'Internal server error' }, { status: 500 });
-  }
-}
+import { deprecatedAlias, toLegacyBody } from '../../../lib/api-response';
+import * as v1 from '../v1/validate-key/route';
+
+// Deprecated alias of /api/v1/validate-key
+export const POST = deprecatedAlias(v1.POST, {
+  toLegacy: (body) =>
+    body.error ? { valid: false, ...toLegacyBody(body) } : { valid: true, apiKeyData: body.data },
+});
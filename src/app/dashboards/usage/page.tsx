@@ -0,0 +1,77 @@
+'use client';
+
+import { Providers } from '../../providers';
+import Sidebar from '../../../components/sidebar';
+import TopBar from '../../../components/top-bar';
+import Footer from '../../../components/footer';
+import LoadingSpinner from '../../../components/loading-spinner';
+import GoogleLoginButton from '../../../components/google-login-button';
+import UsageDashboard from '../../../components/usage-dashboard';
+import { useApiKeys } from '../../../hooks/use-api-keys';
+import { useSidebar } from '../../../hooks/use-sidebar';
+import { useAuth } from '../../../contexts/auth-context';
+
+function UsagePage() {
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { apiKeys, loading } = useApiKeys();
+  const { sidebarVisible, toggleSidebar } = useSidebar();
+
+  if (loading || authLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center py-12 px-4">
+        <div className="max-w-md w-full space-y-8 text-center">
+          <h2 className="text-3xl font-extrabold text-foreground">Sign in to see your usage</h2>
+          <GoogleLoginButton className="w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex">
+      {/* Mobile Backdrop */}
+      {sidebarVisible && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 z-40 lg:hidden"
+          onClick={() => toggleSidebar()}
+        />
+      )}
+
+      {/* Sidebar */}
+      {sidebarVisible && (
+        <div className="fixed lg:relative z-50 lg:z-auto w-64">
+          <Sidebar />
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <TopBar sidebarVisible={sidebarVisible} toggleSidebar={toggleSidebar} />
+
+        <div className="flex-1 p-4 sm:p-6 space-y-4 sm:space-y-6 overflow-x-auto">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Usage</h2>
+            <p className="text-muted-foreground mt-1">
+              Requests made with your API keys, by day, key and outcome.
+            </p>
+          </div>
+          <UsageDashboard apiKeys={apiKeys} />
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
+
+export default function Usage() {
+  return (
+    <Providers>
+      <UsagePage />
+    </Providers>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import Sidebar from '../../components/sidebar';
+import TopBar from '../../components/top-bar';
+import Footer from '../../components/footer';
+import LoadingSpinner from '../../components/loading-spinner';
+import ApiReference from '../../components/api-reference';
+import { useApiKeys } from '../../hooks/use-api-keys';
+import { useOpenApi } from '../../hooks/use-openapi';
+import { useSidebar } from '../../hooks/use-sidebar';
+import { useAuth } from '../../contexts/auth-context';
+
+interface SnippetKeyOption {
+  id: string;
+  name: string;
+  key_prefix: string;
+  revoked_at: string | null;
+}
+
+export default function Docs() {
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { apiKeys } = useApiKeys();
+  const { document, loading, error } = useOpenApi();
+  const { sidebarVisible, toggleSidebar } = useSidebar();
+  const [selectedKeyId, setSelectedKeyId] = useState('');
+
+  if (loading || authLoading) {
+    return <LoadingSpinner />;
+  }
+
+  // Only the display prefix is known here; the caller completes the secret
+  const keyOptions = isAuthenticated
+    ? (apiKeys as SnippetKeyOption[]).filter((key) => !key.revoked_at)
+    : [];
+  const snippetKey = keyOptions.find((key) => key.id === selectedKeyId) || keyOptions[0];
+
+  return (
+    <div className="min-h-screen bg-background flex">
+      {/* Mobile Backdrop */}
+      {sidebarVisible && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 z-40 lg:hidden"
+          onClick={() => toggleSidebar()}
+        />
+      )}
+
+      {/* Sidebar */}
+      {sidebarVisible && (
+        <div className="fixed lg:relative z-50 lg:z-auto w-64">
+          <Sidebar />
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <TopBar sidebarVisible={sidebarVisible} toggleSidebar={toggleSidebar} />
+
+        <div className="flex-1 p-4 sm:p-6 space-y-4 sm:space-y-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">API Reference</h2>
+              <p className="text-muted-foreground mt-1">
+                Every endpoint of the public API, generated from{' '}
+                <a href="/api/openapi.json" className="text-primary hover:underline">
+                  the OpenAPI document
+                </a>
+                .
+              </p>
+            </div>
+            {keyOptions.length > 0 && (
+              <label className="text-sm text-foreground">
+                <span className="block mb-1">Key used in examples</span>
+                <select
+                  value={snippetKey?.id}
+                  onChange={(e) => setSelectedKeyId(e.target.value)}
+                  className="px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {keyOptions.map((key) => (
+                    <option key={key.id} value={key.id}>
+                      {key.name} ({key.key_prefix}…)
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-800 border border-red-200 rounded p-3 text-sm">
+              {error}
+            </div>
+          )}
+
+          {document && (
+            <ApiReference
+              document={document}
+              snippetKey={snippetKey ? `${snippetKey.key_prefix}...` : undefined}
+            />
+          )}
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
@@ -9,21 +9,36 @@ import { useSidebar } from '../../hooks/use-sidebar';
 import { useAuth } from '../../contexts/auth-context';
 // Removed API key validation imports; not needed for GitHub summarizer flow
 import TopBar from '../../components/top-bar';
+import { storeRepoAnalysis, streamApiRequest } from '../../lib/api-request';
+
+// Progress stages streamed by the summarizer, in the order they start
+const STAGES = [
+  { id: 'fetching_readme', label: 'Fetching README' },
+  { id: 'fetching_repo_info', label: 'Fetching repository info' },
+  { id: 'analyzing', label: 'Analyzing' },
+];
 
 export default function Playground() {
   const [apiKey, setApiKey] = useState('');
   const [githubUrl, setGithubUrl] = useState('');
+  const [analysisProfile, setAnalysisProfile] = useState('basic');
+  const [forceRefresh, setForceRefresh] = useState(false);
   const [responseData, setResponseData] = useState<any | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [stage, setStage] = useState<string | null>(null);
+  const [streamedSummary, setStreamedSummary] = useState('');
   const router = useRouter();
   const { sidebarVisible, toggleSidebar } = useSidebar();
   const { isAuthenticated, loading: authLoading } = useAuth();
+  const currentStage = STAGES.findIndex(({ id }) => id === stage);
 
   const handleSubmit = async (e) => {
     e.preventDefault();
     setError(null);
     setResponseData(null);
+    setStage(null);
+    setStreamedSummary('');
 
     if (!githubUrl.trim()) {
       window.showToastNotification('Please enter a GitHub URL', 'error');
@@ -37,28 +52,30 @@ export default function Playground() {
     setLoading(true);
 
     try {
-      const res = await fetch('/api/github-summarizer', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey.trim(),
+      const res = await streamApiRequest({
+        path: '/api/v1/github-summarizer',
+        apiKey: apiKey.trim(),
+        body: { githubUrl: githubUrl.trim(), analysisProfile, forceRefresh },
+        onEvent: (event, data) => {
+          if (event === 'progress') setStage(data.stage);
+          if (event === 'token') setStreamedSummary((summary) => summary + data.text);
         },
-        body: JSON.stringify({ githubUrl: githubUrl.trim() }),
       });
 
-      const data = await res.json();
-
       if (!res.ok) {
-        setError(data?.error || 'Request failed');
-        window.showToastNotification(data?.error || 'Request failed', 'error');
+        const message = res.body?.error?.message || 'Request failed';
+        setError(message);
+        window.showToastNotification(message, 'error');
         return;
       }
 
-      try {
-        sessionStorage.setItem('repoAnalysisResponse', JSON.stringify(data));
-        sessionStorage.setItem('repoGithubUrl', githubUrl.trim());
-      } catch {}
-      window.showToastNotification('Repository analyzed successfully', 'success');
+      storeRepoAnalysis(res.body.data, githubUrl.trim());
+      window.showToastNotification(
+        res.body.data.cached
+          ? 'Loaded the cached analysis of this README'
+          : 'Repository analyzed successfully',
+        'success'
+      );
       router.push('/protected');
     } catch (err: any) {
       console.error('Error calling GitHub summarizer:', err);
@@ -137,6 +154,41 @@ export default function Playground() {
                   />
                 </div>
 
+                <div>
+                  <label
+                    htmlFor="analysisProfile"
+                    className="block text-sm font-medium text-foreground mb-2"
+                  >
+                    Analysis Profile
+                  </label>
+                  <select
+                    id="analysisProfile"
+                    value={analysisProfile}
+                    onChange={(e) => setAnalysisProfile(e.target.value)}
+                    className="w-full px-4 py-3 border border-border rounded-lg bg-background focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary text-foreground"
+                  >
+                    <option value="basic">Basic: summary and cool facts</option>
+                    <option value="detailed">
+                      Detailed: tech stack, use cases, installation, maturity, quick start
+                    </option>
+                    <option value="security">
+                      Security: security features, concerns and vulnerability reporting
+                    </option>
+                  </select>
+                  <div className="flex items-center space-x-3 mt-3">
+                    <input
+                      type="checkbox"
+                      id="forceRefresh"
+                      checked={forceRefresh}
+                      onChange={(e) => setForceRefresh(e.target.checked)}
+                      className="w-4 h-4 text-primary focus:ring-primary border-border rounded"
+                    />
+                    <label htmlFor="forceRefresh" className="text-sm text-foreground">
+                      Analyze again even if this README was analyzed before
+                    </label>
+                  </div>
+                </div>
+
                 <div>
                   <label
                     htmlFor="apiKey"
@@ -206,12 +258,50 @@ export default function Playground() {
                       <h3 className="text-sm font-medium text-foreground mb-1">How it works</h3>
                       <p className="text-sm text-foreground/80">
                         Provide a GitHub URL like <code>https://github.com/owner/repo</code> and
-                        your API key. We&apos;ll fetch the README and return a JSON analysis.
+                        your API key. We&apos;ll fetch the README and stream the analysis as it is
+                        written.
                       </p>
                     </div>
                   </div>
                 </div>
 
+                {loading && stage && (
+                  <div className="mt-4 space-y-3">
+                    <ol className="space-y-1 text-sm">
+                      {STAGES.map(({ id, label }, index) => {
+                        const state =
+                          index < currentStage
+                            ? 'done'
+                            : index === currentStage
+                              ? 'active'
+                              : 'pending';
+                        return (
+                          <li
+                            key={id}
+                            className={`flex items-center space-x-2 ${
+                              state === 'pending' ? 'text-muted-foreground' : 'text-foreground'
+                            }`}
+                          >
+                            {state === 'active' ? (
+                              <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary"></div>
+                            ) : (
+                              <span className="w-3 text-center">
+                                {state === 'done' ? '✓' : '·'}
+                              </span>
+                            )}
+                            <span>{label}</span>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                    {streamedSummary && (
+                      <p className="text-sm text-foreground bg-muted rounded-lg p-3 whitespace-pre-wrap">
+                        {streamedSummary}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {error && (
                   <div className="mt-4 bg-red-50 text-red-800 border border-red-200 rounded p-3 text-sm">
                     {error}
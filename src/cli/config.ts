@@ -0,0 +1,98 @@
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+
+/**
+ * CLI Configuration
+ *
+ * Settings come from, in order of precedence: command-line flags, the
+ * XPTO_* environment variables, and a JSON config file (`--config`,
+ * XPTO_CONFIG or ~/.xptorc.json):
+ *
+ *   { "baseUrl": "https://xpto.space", "apiKey": "prod_sk_...", "sessionCookie": "..." }
+ */
+
+export const OUTPUT_FORMATS = ['text', 'json', 'markdown'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface CliConfig {
+  baseUrl: string;
+  apiKey?: string;
+  /** Cookie header of a signed-in browser session; needed by the `keys` commands */
+  sessionCookie?: string;
+  format: OutputFormat;
+}
+
+export const DEFAULT_BASE_URL = 'https://xpto.space';
+export const DEFAULT_CONFIG_FILE = '.xptorc.json';
+
+const ENV_VARIABLES = {
+  baseUrl: 'XPTO_BASE_URL',
+  apiKey: 'XPTO_API_KEY',
+  sessionCookie: 'XPTO_SESSION_COOKIE',
+  format: 'XPTO_FORMAT',
+} as const;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Reads the config file; a missing default file is the same as an empty one
+ * @param path - File to read, or null for the default
+ * @param env - Environment, for XPTO_CONFIG and HOME
+ */
+async function readConfigFile(
+  path: string | null,
+  env: Record<string, string | undefined>
+): Promise<Partial<CliConfig>> {
+  const explicitPath = path || env.XPTO_CONFIG;
+  const file = explicitPath || join(env.HOME || homedir(), DEFAULT_CONFIG_FILE);
+
+  let contents: string;
+  try {
+    contents = await readFile(file, 'utf8');
+  } catch (error) {
+    if (!explicitPath && (error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new ConfigError(`Cannot read config file ${file}`);
+  }
+
+  try {
+    const parsed = JSON.parse(contents);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+    return parsed;
+  } catch {
+    throw new ConfigError(`Config file ${file} is not a JSON object`);
+  }
+}
+
+/**
+ * Resolves the settings for one run
+ * @param flags - Values given on the command line
+ * @param env - Environment variables
+ */
+export async function loadConfig(
+  flags: Partial<Record<keyof CliConfig, string>> & { config?: string },
+  env: Record<string, string | undefined>
+): Promise<CliConfig> {
+  const file = await readConfigFile(flags.config || null, env);
+  const pick = (name: keyof CliConfig) => flags[name] || env[ENV_VARIABLES[name]] || file[name];
+
+  const format = pick('format') || 'text';
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new ConfigError(
+      `Unknown output format "${format}"; use one of ${OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+
+  return {
+    baseUrl: pick('baseUrl') || DEFAULT_BASE_URL,
+    apiKey: pick('apiKey') || undefined,
+    sessionCookie: pick('sessionCookie') || undefined,
+    format: format as OutputFormat,
+  };
+}
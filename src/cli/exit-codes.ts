@@ -0,0 +1,61 @@
+import {
+  ApiError,
+  AuthenticationError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  ServerError,
+  UpstreamError,
+  ValidationError,
+} from '../lib/sdk';
+
+/**
+ * CLI Exit Codes
+ *
+ * One exit code per family of API error codes, so scripts can tell a bad key
+ * from an exhausted quota without parsing the output. The families are the
+ * SDK's error classes; codes the SDK does not know exit with FAILURE.
+ */
+
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILURE: 1,
+  /** Unknown command, missing argument or unreadable config file */
+  USAGE: 2,
+  VALIDATION: 3,
+  AUTHENTICATION: 4,
+  PERMISSION_DENIED: 5,
+  NOT_FOUND: 6,
+  CONFLICT: 7,
+  RATE_LIMITED: 8,
+  UPSTREAM: 9,
+  SERVER: 10,
+  NETWORK: 11,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+// Checked in order; every class extends ApiError, which is matched last
+const EXIT_CODES_BY_CLASS: [new (...args: any[]) => Error, ExitCode][] = [
+  [ValidationError, EXIT_CODES.VALIDATION],
+  [AuthenticationError, EXIT_CODES.AUTHENTICATION],
+  [PermissionDeniedError, EXIT_CODES.PERMISSION_DENIED],
+  [NotFoundError, EXIT_CODES.NOT_FOUND],
+  [ConflictError, EXIT_CODES.CONFLICT],
+  [RateLimitError, EXIT_CODES.RATE_LIMITED],
+  [UpstreamError, EXIT_CODES.UPSTREAM],
+  [ServerError, EXIT_CODES.SERVER],
+  [NetworkError, EXIT_CODES.NETWORK],
+  [ApiError, EXIT_CODES.FAILURE],
+];
+
+/**
+ * Gets the exit code for an error thrown by a command
+ * @param error - Usually an ApiError or NetworkError from the SDK
+ */
+export function getExitCode(error: unknown): ExitCode {
+  const match = EXIT_CODES_BY_CLASS.find(([ErrorClass]) => error instanceof ErrorClass);
+  return match ? match[1] : EXIT_CODES.FAILURE;
+}
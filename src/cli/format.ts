@@ -0,0 +1,204 @@
+import { ApiError } from '../lib/sdk';
+import type { ApiKey, CreatedApiKey, RepositorySummary } from '../lib/sdk';
+import type { OutputFormat } from './config';
+
+/**
+ * CLI Output Formatting
+ *
+ * Every command prints its result in one of three formats: `text` for
+ * terminals, `json` (the API's `data`, unchanged) for scripts, and
+ * `markdown` for pasting into issues and pull requests.
+ */
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Pipes would end a markdown table cell early
+const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|');
+
+const table = (headers: string[], rows: unknown[][]) =>
+  [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+
+const columns = (rows: string[][]) => {
+  const widths = rows[0].map((_, index) => Math.max(...rows.map((row) => row[index].length)));
+  return rows
+    .map((row) => row.map((value, index) => value.padEnd(widths[index])).join('  '))
+    .join('\n')
+    .replace(/ +$/gm, '');
+};
+
+const keyStatus = (key: ApiKey) => {
+  if (key.revoked_at) return 'revoked';
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) return 'expired';
+  return 'active';
+};
+
+const currentMonth = () => new Date().toISOString().slice(0, 7); // YYYY-MM, in UTC
+
+// The counter is only reset by the next counted request, so a count from an
+// earlier month means nothing has been used this month
+const usedThisMonth = (key: ApiKey) =>
+  key.last_reset_month === currentMonth() ? key.current_usage : 0;
+
+// 0 is unlimited, as everywhere else
+const quota = (key: ApiKey) =>
+  key.limit_usage && key.monthly_limit > 0
+    ? `${usedThisMonth(key)}/${key.monthly_limit}`
+    : `${usedThisMonth(key)}/unlimited`;
+
+// e.g. installation_steps -> Installation steps
+const label = (field: string) => field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, ' ');
+
+/**
+ * Renders the fields the detailed and security profiles add to an analysis
+ * @param analysis - The analysis without summary and cool_facts
+ * @param markdown - Markdown headings and fences instead of plain text
+ */
+const profileSections = (analysis: Record<string, unknown>, markdown: boolean) =>
+  Object.entries(analysis).flatMap(([field, value]) => {
+    if (value === null || (Array.isArray(value) && value.length === 0)) return [];
+
+    let body: string[];
+    if (Array.isArray(value)) {
+      body = value.map((item) => (markdown ? `- ${item}` : `  - ${item}`));
+    } else if (typeof value === 'object') {
+      // The quick-start snippet
+      const { language, code } = value as { language: string; code: string };
+      body = markdown ? [`\`\`\`${language}`, code, '```'] : code.split('\n').map((l) => `  ${l}`);
+    } else {
+      body = [markdown ? String(value) : `  ${value}`];
+    }
+
+    return markdown ? [`### ${label(field)}`, '', ...body, ''] : [`${label(field)}:`, ...body, ''];
+  });
+
+export function formatAnalysis(result: RepositorySummary, format: OutputFormat): string {
+  if (format === 'json') return json(result);
+
+  const { analysis, repositoryInfo } = result;
+  const { summary, cool_facts: coolFacts, ...profileFields } = analysis;
+  const info = [
+    ['Stars', repositoryInfo.stars],
+    ['Version', repositoryInfo.version],
+    ['License', repositoryInfo.license],
+    ['Website', repositoryInfo.website],
+    ['Cached', result.cached ? `analysis from ${result.cachedAt}` : undefined],
+  ].filter(([, value]) => value !== '' && value !== undefined);
+
+  if (format === 'markdown') {
+    return [
+      `## ${result.githubUrl}`,
+      '',
+      summary,
+      '',
+      '### Cool facts',
+      '',
+      ...coolFacts.map((fact) => `- ${fact}`),
+      '',
+      ...profileSections(profileFields, true),
+      table(['', ''], info),
+      '',
+      `_Sources: ${result.sources.map((source) => `\`${source.path}\``).join(', ')}_`,
+    ].join('\n');
+  }
+
+  return [
+    result.githubUrl,
+    '',
+    summary,
+    '',
+    'Cool facts:',
+    ...coolFacts.map((fact) => `  - ${fact}`),
+    '',
+    ...profileSections(profileFields, false),
+    ...info.map(([label, value]) => `${label}: ${value}`),
+    `Sources: ${result.sources.map((source) => source.path).join(', ')}`,
+  ].join('\n');
+}
+
+export function formatKeyList(keys: ApiKey[], format: OutputFormat): string {
+  if (format === 'json') return json(keys);
+  if (keys.length === 0) return 'No API keys';
+
+  const headers = ['ID', 'Name', 'Prefix', 'Type', 'Status', 'Usage'];
+  const rows = keys.map((key) => [
+    key.id,
+    key.name,
+    `${key.key_prefix}...`,
+    key.key_type,
+    keyStatus(key),
+    quota(key),
+  ]);
+
+  return format === 'markdown' ? table(headers, rows) : columns([headers, ...rows]);
+}
+
+/** Result of `keys create` and `keys rotate`, the only time the secret is shown */
+export function formatCreatedKey(key: CreatedApiKey, format: OutputFormat): string {
+  if (format === 'json') return json(key);
+
+  const lines = [
+    `Key "${key.name}" (${key.id})`,
+    '',
+    format === 'markdown' ? `\`${key.key}\`` : key.key,
+    '',
+    'Store this key now; it will not be shown again.',
+  ];
+  if (key.previous_key_expires_at) {
+    lines.push(`The previous key keeps working until ${key.previous_key_expires_at}.`);
+  }
+  return lines.join('\n');
+}
+
+export function formatRevokedKey(key: ApiKey, format: OutputFormat): string {
+  if (format === 'json') return json(key);
+  const name = format === 'markdown' ? `**${key.name}**` : `"${key.name}"`;
+  return `Revoked key ${name} (${key.id}) at ${key.revoked_at}`;
+}
+
+/** The configured key's quota for the current month */
+export function formatUsage(key: ApiKey, format: OutputFormat): string {
+  const used = usedThisMonth(key);
+  if (format === 'json') {
+    return json({
+      id: key.id,
+      name: key.name,
+      usage: used,
+      limit: key.limit_usage ? key.monthly_limit : 0,
+      month: currentMonth(),
+    });
+  }
+
+  const unlimited = !key.limit_usage || key.monthly_limit === 0;
+  const remaining = unlimited ? 'unlimited' : Math.max(0, key.monthly_limit - used);
+  const rows = [
+    ['Key', `${key.name} (${key.key_prefix}...)`],
+    ['Used this month', used],
+    ['Monthly limit', unlimited ? 'unlimited' : key.monthly_limit],
+    ['Remaining', remaining],
+  ];
+
+  return format === 'markdown'
+    ? table(['', ''], rows)
+    : columns(rows.map(([label, value]) => [`${label}:`, String(value)]));
+}
+
+export function formatError(error: unknown, format: OutputFormat): string {
+  const isApiError = error instanceof ApiError;
+  const message = error instanceof Error ? error.message : String(error);
+  const code = isApiError ? error.code : null;
+  const requestId = isApiError ? error.requestId : null;
+
+  if (format === 'json') {
+    return json({
+      error: { code, message, ...(isApiError && { details: error.details }) },
+      request_id: requestId,
+    });
+  }
+
+  const text = `Error${code ? ` [${code}]` : ''}: ${message}`;
+  return requestId ? `${text} (request ${requestId})` : text;
+}
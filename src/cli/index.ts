@@ -0,0 +1,233 @@
+import { parseArgs } from 'util';
+import {
+  createClient,
+  type AnalysisProfile,
+  type ApiClient,
+  type KeyType,
+  type Permission,
+} from '../lib/sdk';
+import { ConfigError, loadConfig, type CliConfig } from './config';
+import { EXIT_CODES, getExitCode, type ExitCode } from './exit-codes';
+import {
+  formatAnalysis,
+  formatCreatedKey,
+  formatError,
+  formatKeyList,
+  formatRevokedKey,
+  formatUsage,
+} from './format';
+
+/**
+ * Xpto CLI
+ *
+ * Command-line front end to the public API, built on the SDK:
+ *
+ *   xpto analyze https://github.com/owner/repo --format markdown
+ *   xpto keys list
+ *   xpto keys rotate <id> --grace-hours 48
+ *
+ * runCli never exits the process itself; it returns the exit code so tests
+ * can run it in-process against a mock server.
+ */
+
+export const USAGE = `Usage: xpto <command> [options]
+
+Commands:
+  analyze <github-url>      Analyze a repository
+      --profile basic|detailed|security
+      --force-refresh       Analyze again instead of using a cached analysis
+  usage                     Show this month's usage of your API key
+  keys list                 List your API keys
+  keys create <name>        Create a key
+      --type development|production  --permissions read,edit
+      --limit <n>  --unlimited  --expires-at <date>  --description <text>
+  keys rotate <id>          Issue a new secret for a key
+      --grace-hours <n>     Hours the old secret keeps working (default 24)
+  keys revoke <id>          Revoke a key
+      --reason <text>
+
+Options:
+  -f, --format text|json|markdown   Output format (default text)
+      --api-key <key>               API key (default $XPTO_API_KEY)
+      --base-url <url>              API origin (default $XPTO_BASE_URL or https://xpto.space)
+      --config <file>               Config file (default $XPTO_CONFIG or ~/.xptorc.json)
+  -h, --help                        Show this help
+
+The keys commands need a signed-in session: set $XPTO_SESSION_COOKIE or
+"sessionCookie" in the config file to the Cookie header of your browser session.`;
+
+export interface CliIo {
+  env: Record<string, string | undefined>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** Replaceable in tests */
+  fetch?: typeof fetch;
+}
+
+const OPTIONS = {
+  format: { type: 'string', short: 'f' },
+  'api-key': { type: 'string' },
+  'base-url': { type: 'string' },
+  config: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  type: { type: 'string' },
+  permissions: { type: 'string' },
+  limit: { type: 'string' },
+  unlimited: { type: 'boolean' },
+  'expires-at': { type: 'string' },
+  description: { type: 'string' },
+  'grace-hours': { type: 'string' },
+  reason: { type: 'string' },
+  profile: { type: 'string' },
+  'force-refresh': { type: 'boolean' },
+} as const;
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+interface CommandContext {
+  client: ApiClient;
+  config: CliConfig;
+  args: string[];
+  values: Values;
+}
+
+/** A mistake on the command line rather than an API failure */
+class UsageError extends Error {}
+
+const requireArg = (args: string[], index: number, name: string) => {
+  if (!args[index]) throw new UsageError(`Missing <${name}>`);
+  return args[index];
+};
+
+const toNumber = (value: string | undefined, flag: string) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`--${flag} must be a number`);
+  }
+  return number;
+};
+
+const requireSession = (config: CliConfig) => {
+  if (!config.sessionCookie) {
+    throw new UsageError('The keys commands need XPTO_SESSION_COOKIE or "sessionCookie" set');
+  }
+};
+
+const requireApiKey = (config: CliConfig) => {
+  if (!config.apiKey) {
+    throw new UsageError('No API key: set XPTO_API_KEY, "apiKey" in the config file or --api-key');
+  }
+};
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<string>> = {
+  async analyze({ client, config, args, values }) {
+    requireApiKey(config);
+    const githubUrl = requireArg(args, 1, 'github-url');
+    const result = await client.summarizeRepo(githubUrl, {
+      analysisProfile: values.profile as AnalysisProfile | undefined,
+      forceRefresh: values['force-refresh'],
+    });
+    return formatAnalysis(result, config.format);
+  },
+
+  async usage({ client, config }) {
+    requireApiKey(config);
+    return formatUsage(await client.validateKey(), config.format);
+  },
+
+  async 'keys list'({ client, config }) {
+    requireSession(config);
+    return formatKeyList(await client.listKeys(), config.format);
+  },
+
+  async 'keys create'({ client, config, args, values }) {
+    requireSession(config);
+    const key = await client.createKey({
+      name: requireArg(args, 2, 'name'),
+      description: values.description,
+      keyType: values.type as KeyType | undefined,
+      permissions: values.permissions?.split(',').map((scope) => scope.trim() as Permission),
+      monthlyLimit: toNumber(values.limit, 'limit'),
+      limitUsage: values.unlimited ? false : undefined,
+      expiresAt: values['expires-at'],
+    });
+    return formatCreatedKey(key, config.format);
+  },
+
+  async 'keys rotate'({ client, config, args, values }) {
+    requireSession(config);
+    const key = await client.rotateKey(requireArg(args, 2, 'id'), {
+      gracePeriodHours: toNumber(values['grace-hours'], 'grace-hours'),
+    });
+    return formatCreatedKey(key, config.format);
+  },
+
+  async 'keys revoke'({ client, config, args, values }) {
+    requireSession(config);
+    const key = await client.revokeKey(requireArg(args, 2, 'id'), { reason: values.reason });
+    return formatRevokedKey(key, config.format);
+  },
+};
+
+/**
+ * Runs one CLI invocation
+ * @param argv - Arguments after the program name
+ * @param io - Environment and output streams
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<ExitCode> {
+  let parsed: { values: Values; positionals: string[] };
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}\n`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const { values, positionals: args } = parsed;
+  const name = args[0] === 'keys' ? `keys ${args[1] ?? ''}`.trim() : args[0];
+  const command = COMMANDS[name];
+
+  if (values.help || !command) {
+    const output = values.help ? io.stdout : io.stderr;
+    output(`${name && !values.help ? `Unknown command "${name}"\n\n` : ''}${USAGE}\n`);
+    return values.help ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE;
+  }
+
+  let config: CliConfig;
+  try {
+    config = await loadConfig(
+      {
+        format: values.format,
+        apiKey: values['api-key'],
+        baseUrl: values['base-url'],
+        config: values.config,
+      },
+      io.env
+    );
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    io.stderr(`${error.message}\n`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const client = createClient({
+    baseUrl: config.baseUrl,
+    apiKey: config.apiKey,
+    sessionCookie: config.sessionCookie,
+    fetch: io.fetch,
+  });
+
+  try {
+    io.stdout(`${await command({ client, config, args, values })}\n`);
+    return EXIT_CODES.SUCCESS;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n`);
+      return EXIT_CODES.USAGE;
+    }
+    io.stderr(`${formatError(error, config.format)}\n`);
+    return getExitCode(error);
+  }
+}
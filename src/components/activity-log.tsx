@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuditEvents, type AuditEvent } from '../hooks/use-audit-events';
+
+interface ActivityLogProps {
+  apiKeys: { id: string; name: string }[];
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'api_key.created': 'Created key',
+  'api_key.updated': 'Edited key',
+  'api_key.rotated': 'Rotated key',
+  'api_key.revoked': 'Revoked key',
+  'api_key.restored': 'Restored key',
+  'api_key.purged': 'Purged key',
+  'user.signed_in': 'Signed in',
+  'plan.changed': 'Plan changed',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return String(value);
+};
+
+function ChangeList({ changes }: { changes: AuditEvent['changes'] }) {
+  const entries = Object.entries(changes || {});
+  if (entries.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {entries.map(([field, { from, to }]) => (
+        <li key={field}>
+          <code className="text-foreground">{field}</code>: {formatValue(from)} → {formatValue(to)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ActivityLog({ apiKeys }: ActivityLogProps) {
+  const [page, setPage] = useState(1);
+  const { auditPage, loading, error } = useAuditEvents(page);
+
+  const keyNames = Object.fromEntries(apiKeys.map((key) => [key.id, key.name]));
+  const pageCount = auditPage ? Math.max(1, Math.ceil(auditPage.total / auditPage.pageSize)) : 1;
+
+  return (
+    <div className="p-6 space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-800 border border-red-200 rounded p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading && !auditPage && <p className="text-muted-foreground">Loading activity...</p>}
+
+      {auditPage && auditPage.events.length === 0 && (
+        <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+      )}
+
+      {auditPage && auditPage.events.length > 0 && (
+        <ul className="divide-y divide-border">
+          {auditPage.events.map((event) => (
+            <li key={event.id} className="py-3 flex flex-col sm:flex-row sm:justify-between gap-1">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground">
+                  {ACTION_LABELS[event.action] || event.action}
+                  {event.target_type === 'api_key' && event.target_id && (
+                    <span className="font-normal text-muted-foreground">
+                      {' '}
+                      {keyNames[event.target_id] || 'deleted key'}
+                    </span>
+                  )}
+                </p>
+                <ChangeList changes={event.changes} />
+              </div>
+              <div
+                className="text-xs text-muted-foreground sm:text-right shrink-0"
+                title={event.user_agent || undefined}
+              >
+                <p>{new Date(event.created_at).toLocaleString()}</p>
+                <p>{event.actor_id ? event.ip_address || 'Unknown IP' : 'System'}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {auditPage && pageCount > 1 && (
+        <div className="flex items-center justify-between text-sm">
+          <button
+            onClick={() => setPage((prev) => prev - 1)}
+            disabled={page <= 1 || loading}
+            className="px-3 py-1 border border-border rounded-md text-foreground disabled:opacity-50"
+          >
+            Newer
+          </button>
+          <span className="text-muted-foreground">
+            Page {page} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage((prev) => prev + 1)}
+            disabled={page >= pageCount || loading}
+            className="px-3 py-1 border border-border rounded-md text-foreground disabled:opacity-50"
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
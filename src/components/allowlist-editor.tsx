@@ -0,0 +1,85 @@
+import { useState } from 'react';
+
+interface AllowlistEditorProps {
+  label: string;
+  hint: string;
+  placeholder: string;
+  entries: string[];
+  readOnly?: boolean;
+  onChange: (entries: string[]) => void;
+}
+
+export default function AllowlistEditor({
+  label,
+  hint,
+  placeholder,
+  entries,
+  readOnly = false,
+  onChange,
+}: AllowlistEditorProps) {
+  const [draft, setDraft] = useState('');
+
+  const addEntry = () => {
+    const entry = draft.trim();
+    if (entry && !entries.includes(entry)) {
+      onChange([...entries, entry]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-black mb-3">{label}</label>
+      {!readOnly && (
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter adds the entry instead of submitting the form
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addEntry();
+              }
+            }}
+            placeholder={placeholder}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black placeholder-gray-600 font-mono text-sm"
+          />
+          <button
+            type="button"
+            onClick={addEntry}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:border-gray-400"
+          >
+            Add
+          </button>
+        </div>
+      )}
+      {entries.length > 0 ? (
+        <ul className="flex flex-wrap gap-2">
+          {entries.map((entry) => (
+            <li
+              key={entry}
+              className="inline-flex items-center px-2.5 py-1 rounded-md bg-gray-100 text-gray-800 text-sm font-mono"
+            >
+              {entry}
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => onChange(entries.filter((e) => e !== entry))}
+                  className="ml-2 text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${entry}`}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No restriction.</p>
+      )}
+      <p className="text-xs text-gray-500 mt-2">{hint}</p>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ const defaultPayload = {
 
 const mockResponse = {
   success: true,
+  analysisProfile: 'basic',
   analysis: {
     summary:
       'The LangChain repository is a Python framework designed for building applications powered by large language models (LLMs). It offers tools for chaining components, integrating third-party services, and future-proofing AI application development. The ecosystem includes complementary tools like LangSmith for evaluation, LangGraph for agent orchestration, and deployment platforms, all aimed at simplifying and enhancing LLM-based application creation.',
@@ -29,6 +30,12 @@ const mockResponse = {
     website: 'https://python.langchain.com',
     license: 'MIT License',
   },
+  defaultBranch: 'master',
+  sources: [{ type: 'readme', path: 'README.md' }],
+  chunks: 1,
+  truncated: false,
+  cached: false,
+  cachedAt: null,
   usage: 0,
   limit: 0,
 };
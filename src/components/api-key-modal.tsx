@@ -1,4 +1,8 @@
 import Link from 'next/link';
+import { ALL_PERMISSIONS } from '../lib/api-key-permissions';
+import { EXPIRY_PRESET_DAYS } from '../lib/api-key-expiry';
+import type { Plan } from '../hooks/use-plan';
+import AllowlistEditor from './allowlist-editor';
 
 interface APIKeyModalProps {
   isOpen: boolean;
@@ -6,6 +10,7 @@ interface APIKeyModalProps {
   editingKey: any;
   viewingKey: any;
   formData: any;
+  plan: Plan | null;
   onClose: () => void;
   onSubmit: (e: React.FormEvent) => void;
   onFormDataChange: (data: any) => void;
@@ -18,12 +23,28 @@ export default function APIKeyModal({
   editingKey,
   viewingKey,
   formData,
+  plan,
   onClose,
   onSubmit,
   onFormDataChange,
   onTogglePermission,
 }: APIKeyModalProps) {
-  const availablePermissions = ['create', 'read', 'edit', 'delete', 'admin'];
+  const availablePermissions = ALL_PERMISSIONS;
+  // Without a plan yet, leave enforcement to the API
+  const productionAllowed = !plan || plan.features.includes('production_keys');
+  const unlimitedAllowed = !plan || plan.features.includes('unlimited_usage');
+  const maxMonthlyLimit = plan && plan.max_monthly_limit > 0 ? plan.max_monthly_limit : undefined;
+
+  const expiresInDays = (days: number) =>
+    new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+  // Custom dates expire at the end of the chosen local day
+  const expiresOnDate = (date: string) => (date ? new Date(`${date}T23:59:59`).toISOString() : '');
+  const toDateInputValue = (iso: string) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  };
 
   if (!isOpen) return null;
 
@@ -141,9 +162,13 @@ export default function APIKeyModal({
                     formData.keyType === 'production'
                       ? 'border-blue-500 bg-blue-50'
                       : 'border-gray-200 bg-white hover:border-gray-300'
-                  } ${viewingKey ? 'cursor-default' : 'cursor-pointer'}`}
+                  } ${viewingKey || !productionAllowed ? 'cursor-default' : 'cursor-pointer'} ${
+                    !viewingKey && !productionAllowed ? 'opacity-60' : ''
+                  }`}
                   onClick={
-                    viewingKey ? undefined : () => onFormDataChange({ keyType: 'production' })
+                    viewingKey || !productionAllowed
+                      ? undefined
+                      : () => onFormDataChange({ keyType: 'production' })
                   }
                 >
                   <div className="flex items-center space-x-3">
@@ -183,6 +208,11 @@ export default function APIKeyModal({
                         <div className="text-sm text-gray-500">
                           Rate limited to 1,000 requests/minute
                         </div>
+                        {!productionAllowed && (
+                          <div className="text-xs text-gray-500">
+                            Not included in the {plan?.name} plan
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -225,6 +255,70 @@ export default function APIKeyModal({
               </p>
             </div>
 
+            {/* Expiration */}
+            <div>
+              <label className="block text-sm font-medium text-black mb-3">
+                Expiration — Expired keys are rejected automatically
+              </label>
+              {!viewingKey && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  <button
+                    type="button"
+                    onClick={() => onFormDataChange({ expiresAt: '' })}
+                    className={`px-3 py-1 border rounded-md text-sm ${
+                      !formData.expiresAt
+                        ? 'border-blue-500 bg-blue-50 text-blue-800'
+                        : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                    }`}
+                  >
+                    Never
+                  </button>
+                  {EXPIRY_PRESET_DAYS.map((days) => (
+                    <button
+                      key={days}
+                      type="button"
+                      onClick={() => onFormDataChange({ expiresAt: expiresInDays(days) })}
+                      className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:border-gray-400"
+                    >
+                      {days} days
+                    </button>
+                  ))}
+                </div>
+              )}
+              <input
+                type="date"
+                value={toDateInputValue(formData.expiresAt)}
+                onChange={(e) => onFormDataChange({ expiresAt: expiresOnDate(e.target.value) })}
+                min={toDateInputValue(expiresInDays(1))}
+                className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black ${viewingKey ? 'bg-gray-50 cursor-not-allowed' : ''}`}
+                readOnly={!!viewingKey}
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                {formData.expiresAt
+                  ? `Expires ${new Date(formData.expiresAt).toLocaleString()}.`
+                  : 'This key never expires.'}
+              </p>
+            </div>
+
+            {/* Network Restrictions */}
+            <AllowlistEditor
+              label="Allowed IP addresses — Only accept requests from these addresses"
+              hint="IPv4 or IPv6 addresses or CIDR ranges, e.g. 203.0.113.0/24."
+              placeholder="203.0.113.0/24"
+              entries={formData.allowedIps}
+              readOnly={!!viewingKey}
+              onChange={(allowedIps) => onFormDataChange({ allowedIps })}
+            />
+
+            <AllowlistEditor
+              label="Allowed referrers — Only accept requests from these sites"
+              hint="A host (example.com, *.example.com) or a URL prefix ending in * (https://example.com/app/*)."
+              placeholder="*.example.com"
+              entries={formData.allowedReferrers}
+              readOnly={!!viewingKey}
+              onChange={(allowedReferrers) => onFormDataChange({ allowedReferrers })}
+            />
+
             {/* Monthly Usage Limit */}
             <div>
               <div className="flex items-center space-x-3 mb-3">
@@ -234,7 +328,7 @@ export default function APIKeyModal({
                   checked={formData.limitUsage}
                   onChange={(e) => onFormDataChange({ limitUsage: e.target.checked })}
                   className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                  disabled={!!viewingKey}
+                  disabled={!!viewingKey || (!unlimitedAllowed && formData.limitUsage)}
                 />
                 <label htmlFor="limitUsage" className="text-sm font-medium text-black">
                   Limit monthly usage*
@@ -249,10 +343,16 @@ export default function APIKeyModal({
                   }
                   className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black ${viewingKey ? 'bg-gray-50 cursor-not-allowed' : ''}`}
                   min="1"
-                  max="10"
+                  max={maxMonthlyLimit}
                   readOnly={!!viewingKey}
                 />
               )}
+              {maxMonthlyLimit && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Your {plan?.name} plan allows up to {maxMonthlyLimit.toLocaleString()} requests
+                  per month per key.
+                </p>
+              )}
               <p className="text-xs text-gray-500 mt-2">
                 * If the combined usage of all your keys exceeds your plan&apos;s limit, all
                 requests will be rejected.
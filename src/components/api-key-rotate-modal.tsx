@@ -0,0 +1,76 @@
+import { useState } from 'react';
+
+interface APIKeyRotateModalProps {
+  apiKey: any;
+  onClose: () => void;
+  onConfirm: (gracePeriodHours: number) => void;
+}
+
+// Matches DEFAULT_GRACE_PERIOD_HOURS on the server
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+
+const GRACE_PERIOD_OPTIONS = [
+  { hours: 0, label: 'Immediately' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 7 * 24, label: '7 days' },
+  { hours: 30 * 24, label: '30 days' },
+];
+
+export default function APIKeyRotateModal({ apiKey, onClose, onConfirm }: APIKeyRotateModalProps) {
+  const [gracePeriodHours, setGracePeriodHours] = useState(DEFAULT_GRACE_PERIOD_HOURS);
+
+  if (!apiKey) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="p-6">
+          <h3 className="text-xl font-bold text-gray-900 mb-2">Rotate &quot;{apiKey.name}&quot;</h3>
+          <p className="text-gray-600 mb-6">
+            A new secret will be issued for this key. Usage counters and history stay with the key.
+            Choose how long the current secret ({apiKey.key_prefix}…) keeps working so you can
+            update your callers.
+          </p>
+
+          <label className="block text-sm font-medium text-black mb-3">
+            Old secret stops working
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {GRACE_PERIOD_OPTIONS.map(({ hours, label }) => (
+              <button
+                key={hours}
+                type="button"
+                onClick={() => setGracePeriodHours(hours)}
+                className={`px-3 py-1 border rounded-md text-sm ${
+                  gracePeriodHours === hours
+                    ? 'border-blue-500 bg-blue-50 text-blue-800'
+                    : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onConfirm(gracePeriodHours)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Rotate key
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
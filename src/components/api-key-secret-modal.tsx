@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { copyToClipboard } from '../utils/clipboard';
+
+interface APIKeySecretModalProps {
+  secret: string | null;
+  onClose: () => void;
+}
+
+export default function APIKeySecretModal({ secret, onClose }: APIKeySecretModalProps) {
+  const [copied, setCopied] = useState(false);
+
+  if (!secret) return null;
+
+  const handleCopy = async () => {
+    const result = await copyToClipboard(secret);
+    if (result.success) {
+      setCopied(true);
+      window.showToastNotification('API key copied to clipboard!', 'success');
+    } else {
+      window.showToastNotification('Failed to copy API key', 'error');
+    }
+  };
+
+  const handleClose = () => {
+    setCopied(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="p-6">
+          <h3 className="text-xl font-bold text-gray-900 mb-2">Save your API key</h3>
+          <p className="text-gray-600 mb-6">
+            This is the only time the full key will be shown. Copy it now and store it somewhere
+            safe; afterwards only its prefix is visible in the dashboard.
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 px-3 py-2 bg-gray-50 border border-gray-300 rounded-md text-sm text-black font-mono break-all">
+              {secret}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className={`px-3 py-2 rounded-md text-sm font-medium border ${
+                copied
+                  ? 'border-green-500 text-green-600'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+              aria-label="Copy API key to clipboard"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+
+          <div className="flex justify-end pt-6">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              I have saved my key
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
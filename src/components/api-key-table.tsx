@@ -1,28 +1,71 @@
-import { useState } from 'react';
-import { copyToClipboard } from '../utils/clipboard';
+import { useEffect, useState } from 'react';
+import { EXPIRY_WARNING_DAYS } from '../lib/api-key-expiry';
 
 interface APIKeyTableProps {
   apiKeys: any[];
   onView: (key: any) => void;
   onEdit: (key: any) => void;
-  onDelete: (id: string) => void;
+  onRotate: (key: any) => void;
+  onRevoke: (id: string) => void;
+  onRestore: (id: string) => void;
 }
 
-export default function APIKeyTable({ apiKeys, onView, onEdit, onDelete }: APIKeyTableProps) {
-  const [copiedKeyId, setCopiedKeyId] = useState(null);
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
 
-  const handleCopy = async (key, keyId) => {
-    const result = await copyToClipboard(key);
-    if (result.success) {
-      setCopiedKeyId(keyId);
-      window.showToastNotification('API key copied to clipboard!', 'success');
-      setTimeout(() => {
-        setCopiedKeyId(null);
-      }, 2000);
-    } else {
-      window.showToastNotification('Failed to copy API key', 'error');
-    }
-  };
+const formatTimeRemaining = (ms: number) => {
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((ms % HOUR_MS) / MINUTE_MS);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${minutes}m`;
+};
+
+function ExpiryCell({ expiresAt, now }: { expiresAt: string | null; now: number }) {
+  if (!expiresAt) {
+    return <>Never</>;
+  }
+
+  const remaining = new Date(expiresAt).getTime() - now;
+
+  if (remaining <= 0) {
+    return (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+        Expired
+      </span>
+    );
+  }
+
+  if (remaining <= EXPIRY_WARNING_DAYS * DAY_MS) {
+    return (
+      <span
+        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+          remaining <= 3 * DAY_MS ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+        }`}
+        title={new Date(expiresAt).toLocaleString()}
+      >
+        in {formatTimeRemaining(remaining)}
+      </span>
+    );
+  }
+
+  return <>{new Date(expiresAt).toLocaleDateString()}</>;
+}
+
+export default function APIKeyTable({
+  apiKeys,
+  onView,
+  onEdit,
+  onRotate,
+  onRevoke,
+  onRestore,
+}: APIKeyTableProps) {
+  // Re-render every minute so expiry countdowns stay current
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), MINUTE_MS);
+    return () => clearInterval(interval);
+  }, []);
 
   return (
     <div className="overflow-x-auto">
@@ -45,6 +88,9 @@ export default function APIKeyTable({ apiKeys, onView, onEdit, onDelete }: APIKe
               <span className="hidden sm:inline">LAST LIMIT RESET</span>
               <span className="sm:hidden">RESET</span>
             </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              EXPIRES
+            </th>
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               KEY
             </th>
@@ -55,9 +101,22 @@ export default function APIKeyTable({ apiKeys, onView, onEdit, onDelete }: APIKe
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
           {apiKeys.map((key) => (
-            <tr key={key.id} className="hover:bg-gray-50">
+            <tr
+              key={key.id}
+              className={key.revoked_at ? 'bg-gray-50 opacity-75' : 'hover:bg-gray-50'}
+            >
               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                 {key.name}
+                {key.revoked_at && (
+                  <span
+                    className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                    title={`Revoked ${new Date(key.revoked_at).toLocaleString()}${
+                      key.revoked_reason ? `: ${key.revoked_reason}` : ''
+                    }`}
+                  >
+                    Revoked
+                  </span>
+                )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 <span
@@ -96,8 +155,21 @@ export default function APIKeyTable({ apiKeys, onView, onEdit, onDelete }: APIKe
                   'Never'
                 )}
               </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                <ExpiryCell expiresAt={key.expires_at} now={now} />
+              </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
-                {key.key.substring(0, 8)}************************
+                <div>{key.key_prefix}…</div>
+                {key.previous_key_prefix &&
+                  new Date(key.previous_key_expires_at).getTime() > now && (
+                    <div
+                      className="text-xs text-gray-400"
+                      title={`Old secret stops working ${new Date(key.previous_key_expires_at).toLocaleString()}`}
+                    >
+                      <span className="line-through">{key.previous_key_prefix}…</span> stops in{' '}
+                      {formatTimeRemaining(new Date(key.previous_key_expires_at).getTime() - now)}
+                    </div>
+                  )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                 <div className="flex items-center space-x-2">
@@ -124,16 +196,12 @@ export default function APIKeyTable({ apiKeys, onView, onEdit, onDelete }: APIKe
                       />
                     </svg>
                   </button>
-                  <button
-                    onClick={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      handleCopy(key.key, key.id);
-                    }}
-                    className={`${copiedKeyId === key.id ? 'text-green-600' : 'text-gray-400 hover:text-gray-600'}`}
-                    title={copiedKeyId === key.id ? 'Copied!' : 'Copy API key to clipboard'}
-                  >
-                    {copiedKeyId === key.id ? (
+                  {key.revoked_at ? (
+                    <button
+                      onClick={() => onRestore(key.id)}
+                      className="text-gray-400 hover:text-green-600"
+                      title="Restore key"
+                    >
                       <svg
                         className="w-4 h-4"
                         fill="none"
@@ -144,52 +212,74 @@ export default function APIKeyTable({ apiKeys, onView, onEdit, onDelete }: APIKe
                           strokeLinecap="round"
                           strokeLinejoin="round"
                           strokeWidth={2}
-                          d="M5 13l4 4L19 7"
+                          d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
                         />
                       </svg>
-                    ) : (
-                      <svg
-                        className="w-4 h-4"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => onEdit(key)}
+                        className="text-gray-400 hover:text-gray-600"
                       >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                        />
-                      </svg>
-                    )}
-                  </button>
-                  <button onClick={() => onEdit(key)} className="text-gray-400 hover:text-gray-600">
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                      />
-                    </svg>
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      onDelete(key.id);
-                    }}
-                    className="text-gray-400 hover:text-red-600"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                      />
-                    </svg>
-                  </button>
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                          />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => onRotate(key)}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Rotate secret"
+                      >
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                          />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          onRevoke(key.id);
+                        }}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Revoke key"
+                      >
+                        <svg
+                          className="w-4 h-4"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                          />
+                        </svg>
+                      </button>
+                    </>
+                  )}
                 </div>
               </td>
             </tr>
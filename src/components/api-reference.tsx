@@ -0,0 +1,396 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { OpenApiDocument } from '../hooks/use-openapi';
+import {
+  buildExample,
+  buildSnippets,
+  describeType,
+  fillPath,
+  getOperationAuth,
+  groupOperationsByTag,
+  resolveSchema,
+} from '../lib/api-docs';
+import { sendApiRequest, storeRepoAnalysis } from '../lib/api-request';
+import { copyToClipboard } from '../utils/clipboard';
+
+interface ApiReferenceProps {
+  document: OpenApiDocument;
+  // Filled into the snippets, e.g. `dev_sk_ab12...`
+  snippetKey?: string;
+}
+
+interface OperationEntry {
+  id: string;
+  method: string;
+  path: string;
+  operation: Record<string, any>;
+  parameters: Record<string, any>[];
+}
+
+const METHOD_CLASSES: Record<string, string> = {
+  get: 'bg-blue-50 text-blue-700 border-blue-200',
+  post: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  put: 'bg-amber-50 text-amber-700 border-amber-200',
+  patch: 'bg-amber-50 text-amber-700 border-amber-200',
+  delete: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const SNIPPET_LANGUAGES = [
+  { id: 'curl', label: 'curl' },
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'python', label: 'Python' },
+] as const;
+
+const inputClasses =
+  'w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+function MethodBadge({ method }: { method: string }) {
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-md border text-xs font-semibold uppercase ${METHOD_CLASSES[method] || ''}`}
+    >
+      {method}
+    </span>
+  );
+}
+
+function SchemaTable({
+  document,
+  schema,
+}: {
+  document: OpenApiDocument;
+  schema: Record<string, any>;
+}) {
+  const resolved = resolveSchema(document, schema);
+  const properties = Object.entries<Record<string, any>>(resolved?.properties || {});
+  if (properties.length === 0) return null;
+
+  return (
+    <table className="w-full text-sm">
+      <tbody className="divide-y divide-border">
+        {properties.map(([name, property]) => (
+          <tr key={name}>
+            <td className="py-2 pr-4 align-top whitespace-nowrap">
+              <code className="text-foreground">{name}</code>
+              {resolved.required?.includes(name) && <span className="ml-1 text-red-600">*</span>}
+            </td>
+            <td className="py-2 pr-4 align-top text-muted-foreground font-mono text-xs">
+              {describeType(property)}
+            </td>
+            <td className="py-2 align-top text-muted-foreground">
+              {property.description || resolveSchema(document, property)?.description}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Snippets({ snippets }: { snippets: Record<string, string> }) {
+  const [language, setLanguage] = useState<(typeof SNIPPET_LANGUAGES)[number]['id']>('curl');
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const result = await copyToClipboard(snippets[language]);
+    if (result.success) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1">
+          {SNIPPET_LANGUAGES.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setLanguage(id)}
+              className={`px-3 py-1 rounded-md text-sm ${
+                language === id
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleCopy}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="text-xs bg-muted text-foreground p-4 rounded-lg overflow-auto">
+        {snippets[language]}
+      </pre>
+    </div>
+  );
+}
+
+function TryIt({
+  document,
+  entry,
+  auth,
+  example,
+}: {
+  document: OpenApiDocument;
+  entry: OperationEntry;
+  auth: 'apiKey' | 'session' | null;
+  example: unknown;
+}) {
+  const router = useRouter();
+  const [apiKey, setApiKey] = useState('');
+  const [params, setParams] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(example === undefined ? '' : JSON.stringify(example, null, 2));
+  const [result, setResult] = useState<Awaited<ReturnType<typeof sendApiRequest>> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const basePath = document.servers?.[0]?.url || '';
+
+  const handleSend = async () => {
+    setError(null);
+    setResult(null);
+
+    let parsedBody;
+    if (body.trim()) {
+      try {
+        parsedBody = JSON.parse(body);
+      } catch {
+        setError('The request body is not valid JSON');
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      setResult(
+        await sendApiRequest({
+          method: entry.method,
+          path: `${basePath}${fillPath(entry.path, params)}`,
+          apiKey: apiKey.trim() || undefined,
+          body: parsedBody,
+        })
+      );
+    } catch (err) {
+      console.error('Error sending API request:', err);
+      setError('Unexpected error sending the request');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenAnalysis = () => {
+    storeRepoAnalysis(result?.body.data, result?.body.data.githubUrl);
+    router.push('/protected');
+  };
+
+  return (
+    <div className="space-y-3">
+      {auth === 'apiKey' && (
+        <input
+          type="text"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="Your full API key"
+          className={inputClasses}
+        />
+      )}
+      {auth === 'session' && (
+        <p className="text-xs text-muted-foreground">
+          Sent with your current session; sign in to call this endpoint.
+        </p>
+      )}
+      {entry.parameters
+        .filter((parameter) => parameter.in === 'path')
+        .map((parameter) => (
+          <input
+            key={parameter.name}
+            type="text"
+            value={params[parameter.name] || ''}
+            onChange={(e) => setParams((prev) => ({ ...prev, [parameter.name]: e.target.value }))}
+            placeholder={parameter.name}
+            className={inputClasses}
+          />
+        ))}
+      {example !== undefined && (
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={Math.min(12, body.split('\n').length + 1)}
+          className={`${inputClasses} font-mono text-xs`}
+        />
+      )}
+      <button
+        onClick={handleSend}
+        disabled={loading}
+        className="bg-primary hover:bg-primary/90 disabled:bg-primary/60 text-primary-foreground text-sm font-medium py-2 px-4 rounded-lg transition-colors"
+      >
+        {loading ? 'Sending...' : 'Send request'}
+      </button>
+
+      {error && (
+        <div className="bg-red-50 text-red-800 border border-red-200 rounded p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div>
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className={result.ok ? 'text-emerald-700' : 'text-red-700'}>
+              {result.status} · {result.durationMs} ms
+            </span>
+            {result.ok && entry.operation.operationId === 'summarizeRepository' && (
+              <button onClick={handleOpenAnalysis} className="text-primary hover:underline">
+                Open analysis
+              </button>
+            )}
+          </div>
+          <pre className="text-xs bg-muted text-foreground p-4 rounded-lg overflow-auto max-h-96">
+            {typeof result.body === 'string' ? result.body : JSON.stringify(result.body, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OperationCard({
+  document,
+  entry,
+  origin,
+  snippetKey,
+}: {
+  document: OpenApiDocument;
+  entry: OperationEntry;
+  origin: string;
+  snippetKey?: string;
+}) {
+  const { method, path, operation } = entry;
+  const auth = getOperationAuth(document, operation);
+  const bodySchema = operation.requestBody?.content?.['application/json']?.schema;
+  const example = bodySchema ? buildExample(document, bodySchema) : undefined;
+  const basePath = document.servers?.[0]?.url || '';
+
+  const snippets = buildSnippets({
+    method,
+    url: `${origin}${basePath}${path}`,
+    auth,
+    apiKey: snippetKey,
+    body: example,
+  });
+
+  return (
+    <div id={entry.id} className="bg-card rounded-xl shadow-sm border border-border p-6 space-y-5">
+      <div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <MethodBadge method={method} />
+          <code className="text-sm text-foreground">
+            {basePath}
+            {path}
+          </code>
+        </div>
+        <p className="mt-2 text-foreground">{operation.summary}</p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {auth === 'apiKey' && 'Authenticate with your API key in the x-api-key header.'}
+          {auth === 'session' && 'Requires a signed-in session.'}
+          {!auth && 'No authentication header needed.'}
+        </p>
+      </div>
+
+      {bodySchema && (
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">Request body</h4>
+          <SchemaTable document={document} schema={bodySchema} />
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold text-foreground mb-2">Responses</h4>
+        <ul className="space-y-1 text-sm">
+          {Object.entries<Record<string, any>>(operation.responses || {}).map(
+            ([status, response]) => (
+              <li key={status} className="flex gap-3">
+                <code className={status.startsWith('2') ? 'text-emerald-700' : 'text-red-700'}>
+                  {status}
+                </code>
+                <span className="text-muted-foreground">{response.description}</span>
+              </li>
+            )
+          )}
+        </ul>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">Example</h4>
+          <Snippets snippets={snippets} />
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-foreground mb-2">Try it</h4>
+          <TryIt document={document} entry={entry} auth={auth} example={example} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ApiReference({ document, snippetKey }: ApiReferenceProps) {
+  const groups = groupOperationsByTag(document);
+  // Read after mounting so the server render and the first client render match
+  const [origin, setOrigin] = useState('');
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  return (
+    <div className="flex gap-6">
+      {/* Endpoint index */}
+      <nav className="hidden xl:block w-56 shrink-0 sticky top-6 self-start space-y-4">
+        {groups.map(({ tag, operations }) => (
+          <div key={tag}>
+            <p className="text-xs font-semibold uppercase text-muted-foreground mb-2">{tag}</p>
+            <ul className="space-y-1">
+              {operations.map((entry) => (
+                <li key={entry.id}>
+                  <a
+                    href={`#${entry.id}`}
+                    className="flex items-center gap-2 text-sm text-foreground hover:text-primary"
+                  >
+                    <MethodBadge method={entry.method} />
+                    <span className="truncate">{entry.path}</span>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </nav>
+
+      <div className="flex-1 min-w-0 space-y-8">
+        {groups.map(({ tag, operations }) => (
+          <section key={tag} className="space-y-4">
+            <h3 className="text-xl font-semibold text-foreground">{tag}</h3>
+            {operations.map((entry) => (
+              <OperationCard
+                key={entry.id}
+                document={document}
+                entry={entry}
+                origin={origin}
+                snippetKey={snippetKey}
+              />
+            ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import Link from 'next/link';
 import Sidebar from './sidebar';
 import Notification from './notification';
@@ -7,21 +8,49 @@ import PlanCard from './plan-card';
 import TopBar from './top-bar';
 import APIKeyTable from './api-key-table';
 import APIKeyModal from './api-key-modal';
+import APIKeySecretModal from './api-key-secret-modal';
+import APIKeyRotateModal from './api-key-rotate-modal';
+import ActivityLog from './activity-log';
 import ContactSection from './contact-section';
 import Footer from './footer';
 import LoadingSpinner from './loading-spinner';
 import GoogleLoginButton from './google-login-button';
 import UserProfile from './user-profile';
 import { useApiKeys } from '../hooks/use-api-keys';
+import { usePlan } from '../hooks/use-plan';
 import { useFormData } from '../hooks/use-form-data';
 import { useModalState } from '../hooks/use-modal-state';
 import { useSidebar } from '../hooks/use-sidebar';
 import { useAuth } from '../contexts/auth-context';
 import { validateApiKeyForm } from '../utils/validation';
 
+type KeyStatusFilter = 'active' | 'revoked' | 'all';
+
+const KEY_STATUS_FILTERS: { value: KeyStatusFilter; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'revoked', label: 'Revoked' },
+  { value: 'all', label: 'All' },
+];
+
+type DashboardTab = 'keys' | 'activity';
+
+const DASHBOARD_TABS: { value: DashboardTab; label: string }[] = [
+  { value: 'keys', label: 'API Keys' },
+  { value: 'activity', label: 'Activity' },
+];
+
 export default function DashboardWrapper() {
   const { user, isAuthenticated, loading: authLoading } = useAuth();
-  const { apiKeys, loading, createApiKey, updateApiKey, deleteApiKey } = useApiKeys();
+  const {
+    apiKeys,
+    loading,
+    createApiKey,
+    updateApiKey,
+    rotateApiKey,
+    revokeApiKey,
+    restoreApiKey,
+  } = useApiKeys();
+  const { plan, refetch: refetchPlan } = usePlan();
   const { formData, updateFormData, resetFormData, populateFormData, togglePermission } =
     useFormData();
   const {
@@ -35,6 +64,15 @@ export default function DashboardWrapper() {
     closeAllModals,
   } = useModalState();
   const { sidebarVisible, toggleSidebar } = useSidebar();
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [rotatingKey, setRotatingKey] = useState<any>(null);
+  const [statusFilter, setStatusFilter] = useState<KeyStatusFilter>('active');
+  const [activeTab, setActiveTab] = useState<DashboardTab>('keys');
+
+  const visibleKeys = apiKeys.filter((key: any) => {
+    if (statusFilter === 'all') return true;
+    return statusFilter === 'revoked' ? !!key.revoked_at : !key.revoked_at;
+  });
 
   const handleCreate = async (e) => {
     e.preventDefault();
@@ -49,6 +87,8 @@ export default function DashboardWrapper() {
     if (result.success) {
       closeAllModals();
       resetFormData();
+      setCreatedSecret(result.secret);
+      refetchPlan();
       window.showToastNotification('API key created successfully!', 'success');
     } else {
       window.showToastNotification(result.error, 'error');
@@ -74,14 +114,40 @@ export default function DashboardWrapper() {
     }
   };
 
-  const handleDelete = async (id) => {
-    if (confirm('Are you sure you want to delete this API key?')) {
-      const result = await deleteApiKey(id);
-      if (result.success) {
-        window.showToastNotification('API key deleted successfully!', 'success');
-      } else {
-        window.showToastNotification(result.error, 'error');
-      }
+  const handleRevoke = async (id) => {
+    // Cancelling the prompt keeps the key; an empty reason still revokes it
+    const reason = prompt(
+      'Revoke this API key? Requests using it will be rejected until it is restored.\n\nReason (optional):'
+    );
+    if (reason === null) return;
+
+    const result = await revokeApiKey(id, reason.trim() || undefined);
+    if (result.success) {
+      refetchPlan();
+      window.showToastNotification('API key revoked successfully!', 'success');
+    } else {
+      window.showToastNotification(result.error, 'error');
+    }
+  };
+
+  const handleRestore = async (id) => {
+    const result = await restoreApiKey(id);
+    if (result.success) {
+      refetchPlan();
+      window.showToastNotification('API key restored successfully!', 'success');
+    } else {
+      window.showToastNotification(result.error, 'error');
+    }
+  };
+
+  const handleRotate = async (gracePeriodHours: number) => {
+    const result = await rotateApiKey(rotatingKey.id, gracePeriodHours);
+    setRotatingKey(null);
+    if (result.success) {
+      setCreatedSecret(result.secret);
+      window.showToastNotification('API key rotated successfully!', 'success');
+    } else {
+      window.showToastNotification(result.error, 'error');
     }
   };
 
@@ -155,36 +221,83 @@ export default function DashboardWrapper() {
 
         {/* Main Content Area */}
         <div className="flex-1 p-4 sm:p-6 space-y-4 sm:space-y-6 overflow-x-auto">
-          <PlanCard />
-
-          {/* API Keys Section */}
-          <div className="bg-card rounded-xl shadow-sm border border-border">
-            <div className="p-6 border-b border-border">
-              <div className="flex justify-between items-center">
-                <h3 className="text-lg font-semibold text-foreground">API Keys</h3>
-                <button
-                  onClick={openCreateModal}
-                  className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-                >
-                  +
-                </button>
+          <PlanCard plan={plan} />
+
+          {/* Dashboard Tabs */}
+          <div className="flex gap-4 border-b border-border">
+            {DASHBOARD_TABS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setActiveTab(value)}
+                className={`pb-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+                  activeTab === value
+                    ? 'border-primary text-primary'
+                    : 'border-transparent text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'keys' ? (
+            /* API Keys Section */
+            <div className="bg-card rounded-xl shadow-sm border border-border">
+              <div className="p-6 border-b border-border">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-lg font-semibold text-foreground">API Keys</h3>
+                  <button
+                    onClick={openCreateModal}
+                    className="bg-primary hover:bg-primary/90 text-primary-foreground px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    +
+                  </button>
+                </div>
+                <p className="text-muted-foreground mt-2">
+                  The key is used to authenticate your requests to the Research API. To learn more,
+                  see the{' '}
+                  <Link href="/docs" className="text-primary hover:underline">
+                    documentation page
+                  </Link>
+                  .
+                </p>
+                <div className="flex gap-2 mt-4">
+                  {KEY_STATUS_FILTERS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => setStatusFilter(value)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                        statusFilter === value
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
               </div>
-              <p className="text-muted-foreground mt-2">
-                The key is used to authenticate your requests to the Research API. To learn more,
-                see the{' '}
-                <Link href="/docs" className="text-primary hover:underline">
-                  documentation page
-                </Link>
-                .
-              </p>
+              <APIKeyTable
+                apiKeys={visibleKeys}
+                onView={handleView}
+                onEdit={handleEdit}
+                onRotate={setRotatingKey}
+                onRevoke={handleRevoke}
+                onRestore={handleRestore}
+              />
             </div>
-            <APIKeyTable
-              apiKeys={apiKeys}
-              onView={handleView}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
-            />
-          </div>
+          ) : (
+            /* Activity Section */
+            <div className="bg-card rounded-xl shadow-sm border border-border">
+              <div className="p-6 border-b border-border">
+                <h3 className="text-lg font-semibold text-foreground">Activity</h3>
+                <p className="text-muted-foreground mt-2">
+                  Sign-ins, plan changes and every change made to your API keys.
+                </p>
+              </div>
+              <ActivityLog apiKeys={apiKeys} />
+            </div>
+          )}
 
           <ContactSection />
         </div>
@@ -199,12 +312,23 @@ export default function DashboardWrapper() {
         editingKey={editingKey}
         viewingKey={viewingKey}
         formData={formData}
+        plan={plan}
         onClose={handleModalClose}
         onSubmit={editingKey ? handleUpdate : handleCreate}
         onFormDataChange={updateFormData}
         onTogglePermission={togglePermission}
       />
 
+      {/* Rotation grace period picker */}
+      <APIKeyRotateModal
+        apiKey={rotatingKey}
+        onClose={() => setRotatingKey(null)}
+        onConfirm={handleRotate}
+      />
+
+      {/* One-time display of a newly created key */}
+      <APIKeySecretModal secret={createdSecret} onClose={() => setCreatedSecret(null)} />
+
       {/* Notification Component */}
       <Notification />
     </div>
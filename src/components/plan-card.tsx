@@ -2,8 +2,13 @@
 
 import { useState } from 'react';
 import { useToast } from '../hooks/use-toast';
+import type { Plan } from '../hooks/use-plan';
 
-export default function PlanCard() {
+interface PlanCardProps {
+  plan: Plan | null;
+}
+
+export default function PlanCard({ plan }: PlanCardProps) {
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
@@ -37,12 +42,16 @@ export default function PlanCard() {
     }
   };
 
+  const maxKeys = plan?.max_api_keys ?? 0;
+  const keyCount = plan?.key_count ?? 0;
+  const keyUsagePercent = maxKeys > 0 ? Math.min(100, (keyCount / maxKeys) * 100) : 0;
+
   return (
     <div className="bg-gradient-to-r from-primary to-accent rounded-xl p-6 text-primary-foreground">
       <div className="flex justify-between items-start mb-4">
         <div>
           <p className="text-sm font-medium opacity-90">CURRENT PLAN</p>
-          <h2 className="text-3xl font-bold mt-1">Researcher</h2>
+          <h2 className="text-3xl font-bold mt-1">{plan?.name ?? '—'}</h2>
         </div>
         <button
           onClick={handleManagePlan}
@@ -66,11 +75,16 @@ export default function PlanCard() {
         </div>
         <div>
           <div className="flex justify-between text-sm mb-1">
-            <span>Plan</span>
-            <span>0/1,000 Credits</span>
+            <span>API Keys</span>
+            <span>
+              {keyCount}/{maxKeys > 0 ? maxKeys.toLocaleString() : 'Unlimited'} keys
+            </span>
           </div>
           <div className="w-full bg-primary-foreground/20 rounded-full h-2">
-            <div className="bg-primary-foreground h-2 rounded-full" style={{ width: '0%' }}></div>
+            <div
+              className="bg-primary-foreground h-2 rounded-full"
+              style={{ width: `${keyUsagePercent}%` }}
+            ></div>
           </div>
         </div>
         <div className="flex items-center justify-between">
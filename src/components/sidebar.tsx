@@ -52,7 +52,7 @@ export default function Sidebar() {
         <nav className="space-y-1 sm:space-y-2">
           <Link
             href="/"
-            className={`${linkBaseClasses} ${pathname === '/' || pathname.startsWith('/dashboards') ? activeClasses : inactiveClasses}`}
+            className={`${linkBaseClasses} ${pathname === '/' || pathname === '/dashboards' ? activeClasses : inactiveClasses}`}
           >
             <svg
               className="w-4 h-4 sm:w-5 sm:h-5"
@@ -69,6 +69,25 @@ export default function Sidebar() {
             </svg>
             <span className="font-medium">Overview</span>
           </Link>
+          <Link
+            href="/dashboards/usage"
+            className={`${linkBaseClasses} ${pathname.startsWith('/dashboards/usage') ? activeClasses : inactiveClasses}`}
+          >
+            <svg
+              className="w-4 h-4 sm:w-5 sm:h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+              />
+            </svg>
+            <span>Usage</span>
+          </Link>
           <Link
             href="/playground"
             className={`${linkBaseClasses} ${pathname.startsWith('/playground') ? activeClasses : inactiveClasses}`}
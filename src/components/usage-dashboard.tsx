@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useUsage, type UsageFilters } from '../hooks/use-usage';
+
+interface UsageDashboardProps {
+  apiKeys: { id: string; name: string }[];
+}
+
+const SUCCESS_COLOR = 'var(--chart-1)';
+const ERROR_COLOR = 'var(--chart-3)';
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const formatLatency = (ms: number | null) => (ms === null ? '—' : `${ms.toLocaleString()} ms`);
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-card rounded-xl shadow-sm border border-border p-4">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold text-foreground mt-1">{value}</p>
+    </div>
+  );
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-card rounded-xl shadow-sm border border-border p-6">
+      <h3 className="text-lg font-semibold text-foreground mb-4">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+export default function UsageDashboard({ apiKeys }: UsageDashboardProps) {
+  const [filters, setFilters] = useState<UsageFilters>({
+    from: daysAgo(29),
+    to: daysAgo(0),
+    keyId: '',
+  });
+  const { usage, loading, error } = useUsage(filters);
+
+  const inputClasses =
+    'px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Filters */}
+      <div className="bg-card rounded-xl shadow-sm border border-border p-4 flex flex-wrap gap-4 items-end">
+        <label className="text-sm text-foreground">
+          <span className="block mb-1">From</span>
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to}
+            onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+            className={inputClasses}
+          />
+        </label>
+        <label className="text-sm text-foreground">
+          <span className="block mb-1">To</span>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from}
+            onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+            className={inputClasses}
+          />
+        </label>
+        <label className="text-sm text-foreground">
+          <span className="block mb-1">API key</span>
+          <select
+            value={filters.keyId}
+            onChange={(e) => setFilters((prev) => ({ ...prev, keyId: e.target.value }))}
+            className={inputClasses}
+          >
+            <option value="">All keys</option>
+            {apiKeys.map((key) => (
+              <option key={key.id} value={key.id}>
+                {key.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-800 border border-red-200 rounded p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading && !usage && <p className="text-muted-foreground">Loading usage...</p>}
+
+      {usage && (
+        <>
+          {usage.truncated && (
+            <p className="text-sm text-muted-foreground">
+              This range has more requests than can be summarized at once; narrow the date range for
+              exact figures.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <StatCard label="Requests" value={usage.totals.requests.toLocaleString()} />
+            <StatCard label="Successful" value={usage.totals.success.toLocaleString()} />
+            <StatCard label="Errors" value={usage.totals.error.toLocaleString()} />
+            <StatCard label="p50 latency" value={formatLatency(usage.latency.p50)} />
+            <StatCard label="p95 latency" value={formatLatency(usage.latency.p95)} />
+          </div>
+
+          <ChartCard title="Requests per day">
+            <ResponsiveContainer width="100%" height={280}>
+              <BarChart data={usage.byDay}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(5)} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="success" name="Success" stackId="requests" fill={SUCCESS_COLOR} />
+                <Bar dataKey="error" name="Error" stackId="requests" fill={ERROR_COLOR} />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+            <ChartCard title="Requests per key">
+              {usage.byKey.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No requests in this range.</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={Math.max(160, usage.byKey.length * 48)}>
+                  <BarChart data={usage.byKey} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={120} />
+                    <Tooltip />
+                    <Bar dataKey="success" name="Success" stackId="requests" fill={SUCCESS_COLOR} />
+                    <Bar dataKey="error" name="Error" stackId="requests" fill={ERROR_COLOR} />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </ChartCard>
+
+            <ChartCard title="Errors by type">
+              {usage.errorClasses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No errors in this range.</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {usage.errorClasses.map(({ errorClass, count }) => (
+                    <li key={errorClass} className="flex justify-between py-2 text-sm">
+                      <code className="text-foreground">{errorClass}</code>
+                      <span className="text-muted-foreground">{count.toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </ChartCard>
+          </div>
+
+          <ChartCard title="Most analyzed repositories">
+            {usage.topRepositories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No repositories analyzed yet.</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {usage.topRepositories.map(({ githubUrl, count }) => (
+                  <li key={githubUrl} className="flex justify-between py-2 text-sm">
+                    <a
+                      href={githubUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline truncate mr-4"
+                    >
+                      {githubUrl.replace('https://github.com/', '')}
+                    </a>
+                    <span className="text-muted-foreground">{count.toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ChartCard>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
+import { ApiError, createClient, type ApiKeyInput } from '../lib/sdk';
+
+// Same-origin client; key management uses the session cookie
+const api = createClient();
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiError ? error.message : fallback;
 
 export const useApiKeys = () => {
   const [apiKeys, setApiKeys] = useState([]);
@@ -6,20 +13,10 @@ export const useApiKeys = () => {
 
   const fetchApiKeys = useCallback(async () => {
     try {
-      const response = await fetch('/api/api-keys', {
-        credentials: 'include', // Include session cookies for authentication
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setApiKeys(data || []);
-      } else {
-        // If API fails, set empty array so UI can still render
-        console.error('Failed to fetch API keys:', response.status, response.statusText);
-        setApiKeys([]);
-      }
+      setApiKeys(await api.listKeys());
     } catch (error) {
-      console.error('Error fetching API keys:', error);
       // Set empty array on error so UI can still render
+      console.error('Error fetching API keys:', error);
       setApiKeys([]);
     } finally {
       setLoading(false);
@@ -28,70 +25,58 @@ export const useApiKeys = () => {
 
   const createApiKey = async (formData: Record<string, any>) => {
     try {
-      const response = await fetch('/api/api-keys', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include', // Include session cookies for authentication
-        body: JSON.stringify(formData),
-      });
-
-      if (response.ok) {
-        await fetchApiKeys();
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to create API key' };
-      }
+      // The full secret is only present in this response
+      const createdKey = await api.createKey(formData as ApiKeyInput);
+      await fetchApiKeys();
+      return { success: true, secret: createdKey.key };
     } catch (error) {
       console.error('Error creating API key:', error);
-      return { success: false, error: 'Failed to create API key' };
+      return { success: false, error: errorMessage(error, 'Failed to create API key') };
     }
   };
 
   const updateApiKey = async (id: string, formData: Record<string, any>) => {
     try {
-      const response = await fetch(`/api/api-keys/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include', // Include session cookies for authentication
-        body: JSON.stringify(formData),
-      });
-
-      if (response.ok) {
-        await fetchApiKeys();
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        return { success: false, error: errorData.error || 'Failed to update API key' };
-      }
+      await api.updateKey(id, formData as ApiKeyInput);
+      await fetchApiKeys();
+      return { success: true };
     } catch (error) {
       console.error('Error updating API key:', error);
-      return { success: false, error: 'Failed to update API key' };
+      return { success: false, error: errorMessage(error, 'Failed to update API key') };
     }
   };
 
-  const deleteApiKey = async (id: string) => {
+  const rotateApiKey = async (id: string, gracePeriodHours: number) => {
     try {
-      const response = await fetch(`/api/api-keys/${id}`, {
-        method: 'DELETE',
-        credentials: 'include', // Include session cookies for authentication
-      });
+      // The new secret is only present in this response
+      const rotatedKey = await api.rotateKey(id, { gracePeriodHours });
+      await fetchApiKeys();
+      return { success: true, secret: rotatedKey.key };
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      return { success: false, error: errorMessage(error, 'Failed to rotate API key') };
+    }
+  };
 
-      if (response.ok) {
-        await fetchApiKeys();
-        return { success: true };
-      } else {
-        const errorData = await response.json();
-        console.error('Delete failed:', errorData);
-        return { success: false, error: 'Failed to delete API key' };
-      }
+  const revokeApiKey = async (id: string, reason?: string) => {
+    try {
+      await api.revokeKey(id, { reason });
+      await fetchApiKeys();
+      return { success: true };
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      return { success: false, error: errorMessage(error, 'Failed to revoke API key') };
+    }
+  };
+
+  const restoreApiKey = async (id: string) => {
+    try {
+      await api.restoreKey(id);
+      await fetchApiKeys();
+      return { success: true };
     } catch (error) {
-      console.error('Error deleting API key:', error);
-      return { success: false, error: 'Failed to delete API key' };
+      console.error('Error restoring API key:', error);
+      return { success: false, error: errorMessage(error, 'Failed to restore API key') };
     }
   };
 
@@ -104,7 +89,9 @@ export const useApiKeys = () => {
     loading,
     createApiKey,
     updateApiKey,
-    deleteApiKey,
+    rotateApiKey,
+    revokeApiKey,
+    restoreApiKey,
     refetch: fetchApiKeys,
   };
 };
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface AuditEvent {
+  id: number;
+  actor_id: string | null;
+  action: string;
+  target_type: string | null;
+  target_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  created_at: string;
+}
+
+export interface AuditPage {
+  events: AuditEvent[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export const useAuditEvents = (page: number) => {
+  const [auditPage, setAuditPage] = useState<AuditPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAuditEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/audit?page=${page}`, {
+        credentials: 'include', // Include session cookies for authentication
+      });
+      const { data, error } = await response.json();
+
+      if (response.ok) {
+        setAuditPage(data);
+      } else {
+        setError(error?.message || 'Failed to fetch activity');
+      }
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+      setError('Failed to fetch activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchAuditEvents();
+  }, [fetchAuditEvents]);
+
+  return {
+    auditPage,
+    loading,
+    error,
+    refetch: fetchAuditEvents,
+  };
+};
@@ -7,6 +7,9 @@ const initialFormData = {
   keyType: 'development',
   limitUsage: true,
   monthlyLimit: 5,
+  expiresAt: '', // ISO date; empty means the key never expires
+  allowedIps: [], // CIDR ranges; empty means any address
+  allowedReferrers: [], // Referrer patterns; empty means any referrer
 };
 
 export const useFormData = () => {
@@ -28,6 +31,9 @@ export const useFormData = () => {
       keyType: key.key_type || 'development',
       limitUsage: key.limit_usage ?? true,
       monthlyLimit: typeof key.monthly_limit === 'number' ? key.monthly_limit : 5,
+      expiresAt: key.expires_at || '',
+      allowedIps: key.allowed_ips || [],
+      allowedReferrers: key.allowed_referrers || [],
     });
   };
 
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+
+// Loosely typed: the document is only walked by the helpers in lib/api-docs.js
+export type OpenApiDocument = Record<string, any>;
+
+export const useOpenApi = () => {
+  const [document, setDocument] = useState<OpenApiDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDocument = async () => {
+      try {
+        const response = await fetch('/api/openapi.json');
+        if (response.ok) {
+          setDocument(await response.json());
+        } else {
+          setError('Failed to load the API reference');
+        }
+      } catch (error) {
+        console.error('Error fetching OpenAPI document:', error);
+        setError('Failed to load the API reference');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDocument();
+  }, []);
+
+  return {
+    document,
+    loading,
+    error,
+  };
+};
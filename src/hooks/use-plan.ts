@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface Plan {
+  slug: string;
+  name: string;
+  max_monthly_limit: number; // 0 = unlimited
+  max_api_keys: number; // 0 = unlimited
+  features: string[];
+  key_count: number;
+}
+
+export const usePlan = () => {
+  const [plan, setPlan] = useState<Plan | null>(null);
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      const response = await fetch('/api/v1/plan', {
+        credentials: 'include', // Include session cookies for authentication
+      });
+      if (response.ok) {
+        setPlan((await response.json()).data);
+      } else {
+        console.error('Failed to fetch plan:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching plan:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  return {
+    plan,
+    refetch: fetchPlan,
+  };
+};
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface UsageFilters {
+  from: string;
+  to: string;
+  keyId: string;
+}
+
+export interface UsageSummary {
+  range: { from: string; to: string };
+  totals: { requests: number; success: number; error: number; tokens: number };
+  latency: { p50: number | null; p95: number | null };
+  byDay: { date: string; success: number; error: number }[];
+  byKey: { apiKeyId: string | null; name: string; success: number; error: number }[];
+  errorClasses: { errorClass: string; count: number }[];
+  topRepositories: { githubUrl: string; count: number }[];
+  keyId: string | null;
+  truncated: boolean;
+}
+
+export const useUsage = (filters: UsageFilters) => {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams();
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    if (filters.keyId) params.set('keyId', filters.keyId);
+
+    try {
+      const response = await fetch(`/api/v1/usage?${params}`, {
+        credentials: 'include', // Include session cookies for authentication
+      });
+      const { data, error } = await response.json();
+
+      if (response.ok) {
+        setUsage(data);
+      } else {
+        setError(error?.message || 'Failed to fetch usage');
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+      setError('Failed to fetch usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters.from, filters.to, filters.keyId]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return {
+    usage,
+    loading,
+    error,
+    refetch: fetchUsage,
+  };
+};
@@ -0,0 +1,14 @@
+import { warnIfClientIpUnknown } from './lib/ip-address';
+
+/**
+ * Server Startup
+ *
+ * Next.js calls register() once when a server instance starts, before it
+ * handles requests. Configuration that silently weakens request handling is
+ * reported here rather than on every request.
+ */
+export function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    warnIfClientIpUnknown();
+  }
+}
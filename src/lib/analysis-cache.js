@@ -0,0 +1,204 @@
+import { supabaseAdmin } from './supabase';
+
+/**
+ * Analysis Cache
+ *
+ * Stores analysis results so the same repository content is not sent to the
+ * language model twice. Entries are keyed by repository, the blob SHA of the
+ * content that was read (see github-content.js), the analysis profile, the
+ * model and the chunking limits (see chain.js), so a new README commit,
+ * another profile, a model change or a different chunk budget is a miss.
+ * Repository info such as stars is fetched fresh on every call and not cached.
+ *
+ * Entries live in a pluggable store:
+ * - memory: per-process LRU, used in tests and local development
+ * - postgres: `analysis_cache` table shared by every server instance
+ *
+ *   ANALYSIS_CACHE_STORE        memory | postgres | off; production defaults to postgres
+ *   ANALYSIS_CACHE_TTL_HOURS    how long an entry is served (default 720; 0 = until evicted)
+ *   ANALYSIS_CACHE_MAX_ENTRIES  size of the memory LRU (default 500)
+ *   ANALYSIS_CACHE_FREE_HITS    'true' to give back the quota a cache hit used, and to
+ *                               serve cached analyses to keys out of monthly quota
+ */
+
+export const DEFAULT_CACHE_TTL_HOURS = 720;
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * @typedef {Object} CachedAnalysis
+ * @property {Object} analysis - Follows the profile's schema
+ * @property {number} chunks
+ * @property {boolean} truncated
+ * @property {string} cachedAt - ISO date the analysis was produced
+ */
+
+/**
+ * @typedef {Object} AnalysisCacheStore
+ * @property {(key: string) => Promise<CachedAnalysis|null>} get - Returns a live entry or null
+ * @property {(key: string, value: CachedAnalysis, ttlMs: number) => Promise<void>} set
+ *   Stores an entry; a ttlMs of 0 keeps it until it is evicted
+ */
+
+/**
+ * Gets the cache settings from the environment
+ * @returns {{store: 'memory'|'postgres'|'off', ttlMs: number, maxEntries: number, freeHits: boolean}}
+ */
+export function getAnalysisCacheConfig() {
+  const store =
+    process.env.ANALYSIS_CACHE_STORE ||
+    (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+  const ttlHours = parseInt(process.env.ANALYSIS_CACHE_TTL_HOURS, 10);
+  const maxEntries = parseInt(process.env.ANALYSIS_CACHE_MAX_ENTRIES, 10);
+
+  return {
+    store: ['memory', 'postgres', 'off'].includes(store) ? store : 'memory',
+    ttlMs: (ttlHours >= 0 ? ttlHours : DEFAULT_CACHE_TTL_HOURS) * HOUR_MS,
+    maxEntries: maxEntries > 0 ? maxEntries : DEFAULT_CACHE_MAX_ENTRIES,
+    freeHits: process.env.ANALYSIS_CACHE_FREE_HITS === 'true',
+  };
+}
+
+/**
+ * Builds the cache key of an analysis
+ * @param {Object} parts
+ * @param {string} parts.owner - Repository owner
+ * @param {string} parts.repo - Repository name
+ * @param {string} parts.contentSha - From getRepositoryContent
+ * @param {string} parts.profile - Analysis profile name
+ * @param {string} parts.model - Provider and model, e.g. openai/gpt-4.1-nano
+ * @param {{maxInputTokens: number, chunkTokens: number, maxChunks: number}} parts.chunking
+ *   From getChunkingLimits; they decide how much of large content is summarized
+ * @returns {string}
+ */
+export function getAnalysisCacheKey({ owner, repo, contentSha, profile, model, chunking }) {
+  const { maxInputTokens, chunkTokens, maxChunks } = chunking;
+  // GitHub owner and repository names are case-insensitive
+  return (
+    `${owner.toLowerCase()}/${repo.toLowerCase()}@${contentSha}:${profile}:${model}` +
+    `:${maxInputTokens}/${chunkTokens}/${maxChunks}`
+  );
+}
+
+/**
+ * Creates an in-memory cache store that evicts the least recently used entry
+ * @param {{maxEntries?: number}} [options]
+ * @returns {AnalysisCacheStore}
+ */
+export function createMemoryCacheStore({ maxEntries = DEFAULT_CACHE_MAX_ENTRIES } = {}) {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const entries = new Map();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.expiresAt && entry.expiresAt <= Date.now()) return null;
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null });
+
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+  };
+}
+
+/**
+ * Creates a cache store backed by the analysis_cache table
+ * @param {Object} [client=supabaseAdmin] - Supabase client
+ * @returns {AnalysisCacheStore}
+ */
+export function createPostgresCacheStore(client = supabaseAdmin) {
+  return {
+    async get(key) {
+      const { data, error } = await client
+        .from('analysis_cache')
+        .select('payload, created_at, expires_at')
+        .eq('cache_key', key);
+
+      if (error) {
+        throw error;
+      }
+
+      const row = data?.[0];
+      if (!row || (row.expires_at && new Date(row.expires_at) <= new Date())) {
+        return null;
+      }
+
+      return { ...row.payload, cachedAt: new Date(row.created_at).toISOString() };
+    },
+    async set(key, { cachedAt, ...payload }, ttlMs) {
+      const { error } = await client.from('analysis_cache').upsert(
+        {
+          cache_key: key,
+          payload,
+          created_at: cachedAt,
+          expires_at: ttlMs ? new Date(Date.now() + ttlMs).toISOString() : null,
+        },
+        { onConflict: 'cache_key' }
+      );
+
+      if (error) {
+        throw error;
+      }
+    },
+  };
+}
+
+const stores = {};
+
+/**
+ * Gets the configured cache store (created once per process and store type)
+ * @returns {AnalysisCacheStore|null} null when caching is off
+ */
+export function getAnalysisCacheStore() {
+  const { store, maxEntries } = getAnalysisCacheConfig();
+  if (store === 'off') return null;
+
+  stores[store] ??=
+    store === 'postgres' ? createPostgresCacheStore() : createMemoryCacheStore({ maxEntries });
+  return stores[store];
+}
+
+/**
+ * Looks up a cached analysis
+ *
+ * Fails open: a cache outage only costs a fresh analysis.
+ * @param {string} key - From getAnalysisCacheKey
+ * @returns {Promise<CachedAnalysis|null>}
+ */
+export async function getCachedAnalysis(key) {
+  try {
+    return (await getAnalysisCacheStore()?.get(key)) ?? null;
+  } catch (error) {
+    console.error('Error reading analysis cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Caches an analysis
+ * @param {string} key - From getAnalysisCacheKey
+ * @param {{analysis: Object, chunks: number, truncated: boolean}} result - From analyzeReadme
+ * @returns {Promise<void>}
+ */
+export async function cacheAnalysis(key, { analysis, chunks, truncated }) {
+  try {
+    await getAnalysisCacheStore()?.set(
+      key,
+      { analysis, chunks, truncated, cachedAt: new Date().toISOString() },
+      getAnalysisCacheConfig().ttlMs
+    );
+  } catch (error) {
+    console.error('Error writing analysis cache:', error);
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  DetailedRepositoryAnalysisSchema,
+  RepositoryAnalysisSchema,
+  SecurityRepositoryAnalysisSchema,
+} from './api-schemas';
+
+/**
+ * Analysis Profiles
+ *
+ * A profile decides what the analyzer extracts from a repository: its
+ * structured output schema, the instructions that end the analysis prompt,
+ * and what chunk summaries keep when large content is summarized in parts.
+ * Callers pick one with the `analysisProfile` request field.
+ */
+
+export const DEFAULT_ANALYSIS_PROFILE = 'basic';
+
+export const ANALYSIS_PROFILES = {
+  basic: {
+    schema: RepositoryAnalysisSchema,
+    instructions:
+      'Provide a concise summary of the repository and list two cool/interesting facts about it.',
+    chunkFocus: 'notable facts (features, numbers, integrations, users)',
+  },
+  detailed: {
+    schema: DetailedRepositoryAnalysisSchema,
+    instructions: `Provide a concise summary of the repository and list two cool/interesting facts about it. Then describe:
+- the tech stack: languages, frameworks and notable libraries
+- the primary use cases and the target audience
+- the installation steps, in order
+- maturity signals such as versioning, tests, CI, documentation and adoption
+- a quick-start code snippet copied exactly from the content, or null if there is none; never write one yourself
+Only state what the content supports; use empty lists for anything it does not cover.`,
+    chunkFocus:
+      'notable facts, the tech stack, use cases, audience, installation steps, maturity signals and quick-start code (copied exactly)',
+  },
+  security: {
+    schema: SecurityRepositoryAnalysisSchema,
+    instructions: `Provide a concise summary of the repository and list two cool/interesting facts about it. Then assess it from a security point of view:
+- the tech stack: languages, frameworks and notable libraries
+- security features the project documents, such as authentication, encryption, sandboxing or input validation
+- concerns a user should weigh before adopting it, such as required privileges, network exposure, handling of secrets or signs of poor maintenance
+- how to report vulnerabilities, or null if the content does not say
+- maturity signals such as versioning, tests, CI, documentation and adoption
+Only state what the content supports; use empty lists for anything it does not cover.`,
+    chunkFocus:
+      'notable facts, the tech stack, security features, risks, vulnerability reporting and maturity signals',
+  },
+};
+
+/**
+ * Gets a profile by name
+ * @param {string} [name=DEFAULT_ANALYSIS_PROFILE] - One of the ANALYSIS_PROFILES keys
+ * @returns {{schema: import('zod').ZodObject, instructions: string, chunkFocus: string}}
+ */
+export function getAnalysisProfile(name = DEFAULT_ANALYSIS_PROFILE) {
+  const profile = ANALYSIS_PROFILES[name];
+  if (!profile) {
+    throw new Error(`Unknown analysis profile "${name}"`);
+  }
+  return profile;
+}
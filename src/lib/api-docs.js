@@ -0,0 +1,245 @@
+/**
+ * API Reference Helpers
+ *
+ * Turn the OpenAPI document from /api/openapi.json into what the /docs page
+ * renders: operations grouped by tag, example request bodies built from the
+ * schemas, and ready-to-paste curl, JavaScript and Python snippets.
+ */
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// Stands in for the caller's key in examples and snippets
+export const API_KEY_PLACEHOLDER = 'YOUR_API_KEY';
+export const SESSION_TOKEN_PLACEHOLDER = 'YOUR_SESSION_TOKEN';
+
+const UNTAGGED = 'Other';
+
+/**
+ * Follows $ref pointers to the schema they name
+ * @param {Object} document - The OpenAPI document
+ * @param {Object} [schema]
+ * @returns {Object|undefined}
+ */
+export function resolveSchema(document, schema) {
+  let resolved = schema;
+  while (resolved?.$ref) {
+    const id = resolved.$ref.split('/').pop();
+    resolved = document.components?.schemas?.[id];
+  }
+  return resolved;
+}
+
+/**
+ * Lists every operation of the document, grouped by its first tag
+ * @param {Object} document - The OpenAPI document
+ * @returns {{tag: string, operations: {id: string, method: string, path: string, operation: Object, parameters: Object[]}[]}[]}
+ *   Tags in the order the document declares them, untagged operations last
+ */
+export function groupOperationsByTag(document) {
+  const groups = new Map((document.tags || []).map(({ name }) => [name, []]));
+
+  for (const [path, item] of Object.entries(document.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+
+      const tag = operation.tags?.[0] || UNTAGGED;
+      if (!groups.has(tag)) groups.set(tag, []);
+      groups.get(tag).push({
+        id: operation.operationId || `${method}-${path}`,
+        method,
+        path,
+        operation,
+        parameters: [...(item.parameters || []), ...(operation.parameters || [])],
+      });
+    }
+  }
+
+  return [...groups]
+    .filter(([, operations]) => operations.length > 0)
+    .map(([tag, operations]) => ({ tag, operations }));
+}
+
+/**
+ * Builds an example value for a schema
+ *
+ * Objects get their required properties plus any property with a declared
+ * example, so the result is a minimal request that passes validation.
+ * @param {Object} document - The OpenAPI document
+ * @param {Object} [schema]
+ * @param {number} [depth=0] - Guards against self-referencing schemas
+ * @returns {*}
+ */
+export function buildExample(document, schema, depth = 0) {
+  const resolved = resolveSchema(document, schema);
+  if (!resolved || depth > 5) return null;
+
+  if (resolved.examples?.length) return resolved.examples[0];
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.enum?.length) return resolved.enum[0];
+
+  if (resolved.anyOf) {
+    const option = resolved.anyOf.find((candidate) => candidate.type !== 'null');
+    return buildExample(document, option, depth + 1);
+  }
+
+  switch (resolved.type) {
+    case 'object': {
+      const required = resolved.required || [];
+      return Object.fromEntries(
+        Object.entries(resolved.properties || {})
+          .filter(([name, property]) => required.includes(name) || hasExample(document, property))
+          .map(([name, property]) => [name, buildExample(document, property, depth + 1)])
+      );
+    }
+    case 'array':
+      return [];
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return true;
+    case 'string':
+      return 'string';
+    default:
+      return null;
+  }
+}
+
+function hasExample(document, schema) {
+  const resolved = resolveSchema(document, schema);
+  if (!resolved) return false;
+  if (resolved.examples?.length) return true;
+  return (resolved.anyOf || []).some((option) => hasExample(document, option));
+}
+
+/**
+ * Describes a schema's type in a word or two, e.g. `string[]` or `ApiKey`
+ * @param {Object} [schema]
+ * @returns {string}
+ */
+export function describeType(schema) {
+  if (!schema) return 'any';
+  if (schema.$ref) return schema.$ref.split('/').pop();
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  if (schema.anyOf) return schema.anyOf.map(describeType).join(' | ');
+  if (schema.type === 'array') return `${describeType(schema.items)}[]`;
+  return schema.type || 'any';
+}
+
+/**
+ * Builds the snippets that call one operation
+ * @param {Object} request
+ * @param {string} request.method - Lowercase HTTP method
+ * @param {string} request.url - Absolute URL; path parameters may stay as {name}
+ * @param {'apiKey'|'session'|null} request.auth - How the operation authenticates
+ * @param {string} [request.apiKey=API_KEY_PLACEHOLDER] - Replaces the key placeholder everywhere
+ * @param {*} [request.body] - JSON body, if the operation takes one
+ * @returns {{curl: string, javascript: string, python: string}}
+ */
+export function buildSnippets({ method, url, auth, apiKey = API_KEY_PLACEHOLDER, body }) {
+  const upper = method.toUpperCase();
+  const hasBody = body !== undefined;
+  const headers = {
+    ...(hasBody && { 'Content-Type': 'application/json' }),
+    ...(auth === 'apiKey' && { 'x-api-key': API_KEY_PLACEHOLDER }),
+  };
+  const cookies =
+    auth === 'session' ? { 'next-auth.session-token': SESSION_TOKEN_PLACEHOLDER } : {};
+
+  const curl = [
+    `curl -X ${upper} '${url}'`,
+    ...Object.entries(headers).map(([name, value]) => `  -H '${name}: ${value}'`),
+    ...Object.entries(cookies).map(([name, value]) => `  -b '${name}=${value}'`),
+    ...(hasBody ? [`  -d '${JSON.stringify(body).replace(/'/g, `'\\''`)}'`] : []),
+  ].join(' \\\n');
+
+  const fetchOptions = [
+    `  method: '${upper}',`,
+    ...(Object.keys(headers).length
+      ? [
+          '  headers: {',
+          ...Object.entries(headers).map(([name, value]) => `    '${name}': '${value}',`),
+          '  },',
+        ]
+      : []),
+    ...(auth === 'session' ? ["  credentials: 'include',"] : []),
+    ...(hasBody ? [`  body: JSON.stringify(${indent(JSON.stringify(body, null, 2), 2)}),`] : []),
+  ];
+  const javascript = [
+    `const response = await fetch('${url}', {`,
+    ...fetchOptions,
+    '});',
+    'const { data, error } = await response.json();',
+  ].join('\n');
+
+  const pythonArgs = [
+    `    "${url}",`,
+    ...(auth === 'apiKey' ? [`    headers={"x-api-key": "${API_KEY_PLACEHOLDER}"},`] : []),
+    ...(auth === 'session' ? [`    cookies=${toPython(cookies, 4)},`] : []),
+    ...(hasBody ? [`    json=${toPython(body, 4)},`] : []),
+  ];
+  const python = [
+    'import requests',
+    '',
+    `response = requests.${method}(`,
+    ...pythonArgs,
+    ')',
+    'print(response.json())',
+  ].join('\n');
+
+  const withKey = (snippet) => snippet.split(API_KEY_PLACEHOLDER).join(apiKey);
+  return { curl: withKey(curl), javascript: withKey(javascript), python: withKey(python) };
+}
+
+function indent(text, spaces) {
+  return text.replace(/\n/g, `\n${' '.repeat(spaces)}`);
+}
+
+/**
+ * Writes a JSON value as a Python literal
+ * @param {*} value
+ * @param {number} level - Indentation of the line the literal starts on
+ * @returns {string}
+ */
+function toPython(value, level) {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value !== 'object') return JSON.stringify(value);
+
+  const pad = ' '.repeat(level + 4);
+  const entries = Array.isArray(value)
+    ? value.map((item) => toPython(item, level + 4))
+    : Object.entries(value).map(
+        ([key, item]) => `${JSON.stringify(key)}: ${toPython(item, level + 4)}`
+      );
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  if (entries.length === 0) return `${open}${close}`;
+  return `${open}\n${entries.map((entry) => `${pad}${entry},`).join('\n')}\n${' '.repeat(level)}${close}`;
+}
+
+/**
+ * Gets how an operation authenticates
+ * @param {Object} document - The OpenAPI document
+ * @param {Object} operation
+ * @returns {'apiKey'|'session'|null}
+ */
+export function getOperationAuth(document, operation) {
+  const scheme = Object.keys((operation.security || document.security || [])[0] || {})[0];
+  if (!scheme) return null;
+  return document.components?.securitySchemes?.[scheme]?.in === 'cookie' ? 'session' : 'apiKey';
+}
+
+/**
+ * Fills path parameters into an operation's path
+ * @param {string} path - e.g. '/api-keys/{id}'
+ * @param {Object<string, string>} values
+ * @returns {string}
+ */
+export function fillPath(path, values) {
+  return path.replace(/\{(\w+)\}/g, (match, name) =>
+    values[name] ? encodeURIComponent(values[name]) : match
+  );
+}
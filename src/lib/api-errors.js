@@ -0,0 +1,46 @@
+/**
+ * API Error Codes
+ *
+ * Machine-readable codes returned as `error.code` by the /api/v1 routes and
+ * alongside error messages by the key validation and usage helpers, and the
+ * HTTP status each one maps to.
+ */
+
+export const ERROR_STATUS = {
+  invalid_request: 400,
+  missing_api_key: 400,
+  invalid_api_key: 401,
+  malformed_api_key: 401,
+  key_expired: 401,
+  key_revoked: 401,
+  invalid_monthly_limit: 400,
+  invalid_expiry: 400,
+  expiry_required: 400,
+  invalid_grace_period: 400,
+  invalid_ip_allowlist: 400,
+  invalid_referrer_allowlist: 400,
+  fetch_readme_failed: 400,
+  analyze_failed: 400,
+  authentication_required: 401,
+  insufficient_permission: 403,
+  feature_not_in_plan: 403,
+  plan_limit_exceeded: 403,
+  ip_not_allowed: 403,
+  referrer_not_allowed: 403,
+  not_found: 404,
+  conflict: 409,
+  usage_limit_exceeded: 429,
+  burst_limit_exceeded: 429,
+  database_error: 500,
+  internal_error: 500,
+};
+
+/**
+ * Gets the HTTP status for an error code
+ * @param {string} code - The error code
+ * @param {number} [fallback=500] - Status to use for unknown codes
+ * @returns {number}
+ */
+export function getErrorStatus(code, fallback = 500) {
+  return ERROR_STATUS[code] ?? fallback;
+}
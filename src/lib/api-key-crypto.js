@@ -0,0 +1,178 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * API Key Generation and Hashing Utilities
+ *
+ * Keys look like `prod_sk_<32 random base62 chars><6 char checksum>`. The
+ * `prod_sk_` / `dev_sk_` markers let secret scanners recognise leaked keys and
+ * the CRC-32 checksum lets us reject typos without a database round-trip.
+ *
+ * Keys are never stored in plaintext. Each row keeps a short display prefix
+ * (used to look the key up and to show it in the dashboard), a random salt and
+ * the SHA-256 hash of salt + key.
+ */
+
+const BASE62_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const KEY_BODY_LENGTH = 32;
+const CHECKSUM_LENGTH = 6;
+
+const KEY_MARKERS = {
+  production: 'prod_sk_',
+  development: 'dev_sk_',
+};
+
+const KEY_PATTERN = new RegExp(
+  `^((?:prod|dev)_sk_[0-9A-Za-z]{${KEY_BODY_LENGTH}})([0-9A-Za-z]{${CHECKSUM_LENGTH}})$`
+);
+
+// Keys issued before checksums were added: marker + up to 26 base36 characters
+const LEGACY_KEY_PATTERN = /^(?:prod|dev)_sk_[0-9a-z]{1,26}$/;
+
+// Number of characters after the `prod_sk_` / `dev_sk_` marker kept for display
+const PREFIX_BODY_LENGTH = 4;
+
+// Columns that must never leave the server
+const SECRET_COLUMNS = ['key', 'key_salt', 'key_hash', 'previous_key_salt', 'previous_key_hash'];
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(value) {
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(value, 'utf8')) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toBase62(number, length) {
+  let result = '';
+  let remaining = number;
+  while (remaining > 0) {
+    result = BASE62_ALPHABET[remaining % 62] + result;
+    remaining = Math.floor(remaining / 62);
+  }
+  return result.padStart(length, '0');
+}
+
+function randomBase62(length) {
+  let result = '';
+  while (result.length < length) {
+    for (const byte of randomBytes(length)) {
+      // Reject bytes above the largest multiple of 62 to avoid modulo bias
+      if (byte < 248 && result.length < length) {
+        result += BASE62_ALPHABET[byte % 62];
+      }
+    }
+  }
+  return result;
+}
+
+function computeChecksum(keyWithoutChecksum) {
+  return toBase62(crc32(keyWithoutChecksum), CHECKSUM_LENGTH);
+}
+
+/**
+ * Generates a new API key from a cryptographically secure random source
+ * @param {string} [keyType='development'] - 'production' or 'development'
+ * @returns {string}
+ */
+export function generateApiKey(keyType = 'development') {
+  const marker = KEY_MARKERS[keyType] || KEY_MARKERS.development;
+  const keyWithoutChecksum = marker + randomBase62(KEY_BODY_LENGTH);
+  return keyWithoutChecksum + computeChecksum(keyWithoutChecksum);
+}
+
+/**
+ * Checks the format and checksum of an API key without touching the database
+ * @param {string} apiKey - The API key presented by the caller
+ * @returns {boolean}
+ */
+export function isWellFormedApiKey(apiKey) {
+  if (typeof apiKey !== 'string') {
+    return false;
+  }
+
+  const match = KEY_PATTERN.exec(apiKey);
+  if (match) {
+    return computeChecksum(match[1]) === match[2];
+  }
+
+  return LEGACY_KEY_PATTERN.test(apiKey);
+}
+
+/**
+ * Gets the display prefix of an API key (e.g. `prod_sk_ab12`)
+ * @param {string} apiKey - The full API key
+ * @returns {string}
+ */
+export function getKeyPrefix(apiKey) {
+  const match = /^((?:prod|dev)_sk_)/.exec(apiKey);
+  const markerLength = match ? match[1].length : 0;
+  return apiKey.slice(0, markerLength + PREFIX_BODY_LENGTH);
+}
+
+/**
+ * Hashes an API key with a salt
+ * @param {string} apiKey - The full API key
+ * @param {string} [salt] - Hex salt; a new random one is generated when omitted
+ * @returns {{salt: string, hash: string}}
+ */
+export function hashApiKey(apiKey, salt = randomBytes(16).toString('hex')) {
+  const hash = createHash('sha256')
+    .update(salt + apiKey)
+    .digest('hex');
+  return { salt, hash };
+}
+
+/**
+ * Checks an API key against a stored salt and hash in constant time
+ * @param {string} apiKey - The full API key presented by the caller
+ * @param {string} salt - The stored salt
+ * @param {string} hash - The stored hash
+ * @returns {boolean}
+ */
+export function verifyApiKeyHash(apiKey, salt, hash) {
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const candidate = Buffer.from(hashApiKey(apiKey, salt).hash, 'hex');
+  const expected = Buffer.from(hash, 'hex');
+
+  return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+}
+
+/**
+ * Builds the columns to store for a newly issued key
+ * @param {string} apiKey - The full API key
+ * @returns {{key_prefix: string, key_salt: string, key_hash: string}}
+ */
+export function buildStoredKeyFields(apiKey) {
+  const { salt, hash } = hashApiKey(apiKey);
+  return {
+    key_prefix: getKeyPrefix(apiKey),
+    key_salt: salt,
+    key_hash: hash,
+  };
+}
+
+/**
+ * Removes secret columns from an api_keys row before it is sent to a client
+ * @param {Object} apiKeyRow - The api_keys row
+ * @returns {Object}
+ */
+export function redactApiKey(apiKeyRow) {
+  if (!apiKeyRow) {
+    return apiKeyRow;
+  }
+
+  return Object.fromEntries(
+    Object.entries(apiKeyRow).filter(([column]) => !SECRET_COLUMNS.includes(column))
+  );
+}
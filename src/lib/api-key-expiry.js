@@ -0,0 +1,93 @@
+/**
+ * API Key Expiration
+ *
+ * Keys may carry an optional `expires_at`; validateApiKey rejects them once it
+ * has passed. Set REQUIRE_PRODUCTION_KEY_EXPIRY=true to refuse production keys
+ * that never expire.
+ */
+
+// Offered as one-click choices in the key modal
+export const EXPIRY_PRESET_DAYS = [30, 90, 365];
+
+// Keys closer than this to expiry get a countdown in the key table
+export const EXPIRY_WARNING_DAYS = 14;
+
+/**
+ * Gets the expiry policy from the environment
+ * @returns {{requireForProduction: boolean}}
+ */
+export function getExpiryPolicy() {
+  return {
+    requireForProduction: process.env.REQUIRE_PRODUCTION_KEY_EXPIRY === 'true',
+  };
+}
+
+/**
+ * Checks whether a key has expired
+ * @param {Object} apiKeyData - The api_keys row
+ * @param {Date} [now=new Date()]
+ * @returns {boolean}
+ */
+export function isApiKeyExpired(apiKeyData, now = new Date()) {
+  return !!apiKeyData?.expires_at && new Date(apiKeyData.expires_at) <= now;
+}
+
+/**
+ * Validates a requested expiry for a key
+ * @param {string|null|undefined} expiresAt - ISO date, or empty for a key that never expires
+ * @param {string} keyType - 'development' or 'production'
+ * @param {Object} [options]
+ * @param {{requireForProduction: boolean}} [options.policy=getExpiryPolicy()]
+ * @param {Date} [options.now=new Date()]
+ * @returns {{expiresAt: string|null}|{error: string, code: string}}
+ */
+export function validateExpiry(
+  expiresAt,
+  keyType,
+  { policy = getExpiryPolicy(), now = new Date() } = {}
+) {
+  if (!expiresAt) {
+    if (keyType === 'production' && policy.requireForProduction) {
+      return { error: 'Production keys must have an expiration date', code: 'expiry_required' };
+    }
+    return { expiresAt: null };
+  }
+
+  const date = new Date(expiresAt);
+  if (typeof expiresAt !== 'string' || Number.isNaN(date.getTime())) {
+    return { error: 'expiresAt must be an ISO 8601 date', code: 'invalid_expiry' };
+  }
+
+  if (date <= now) {
+    return { error: 'expiresAt must be in the future', code: 'invalid_expiry' };
+  }
+
+  return { expiresAt: date.toISOString() };
+}
+
+const toTime = (value) => (value ? new Date(value).getTime() : null);
+
+/**
+ * Validates the expiry of a key being updated
+ *
+ * The policy applies to the key's type and expiry after the update, but only a
+ * changed expiry has to be in the future, so an expired key can still be edited.
+ * @param {string|null|undefined} expiresAt - From the request; undefined keeps the current expiry
+ * @param {string|null} currentExpiresAt - The stored expires_at
+ * @param {string} keyType - The key type after the update
+ * @param {Object} [options] - See validateExpiry
+ * @returns {{expiresAt?: string|null}|{error: string, code: string}}
+ *   expiresAt is only set when the expiry changes
+ */
+export function validateExpiryUpdate(expiresAt, currentExpiresAt, keyType, options) {
+  if (expiresAt !== undefined && toTime(expiresAt) !== toTime(currentExpiresAt)) {
+    return validateExpiry(expiresAt, keyType, options);
+  }
+
+  if (currentExpiresAt) {
+    return {};
+  }
+
+  const expiry = validateExpiry(null, keyType, options);
+  return expiry.error ? expiry : {};
+}
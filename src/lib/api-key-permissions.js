@@ -0,0 +1,50 @@
+/**
+ * API Key Permission Scopes
+ *
+ * Every key-authenticated route declares the scope it needs. A key is allowed
+ * through when its stored `permissions` include that scope, or when it holds
+ * the `admin` scope, which implies all others.
+ */
+
+export const PERMISSIONS = {
+  CREATE: 'create',
+  READ: 'read',
+  EDIT: 'edit',
+  DELETE: 'delete',
+  ADMIN: 'admin',
+};
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS);
+
+/**
+ * Checks whether an API key grants the given scope
+ * @param {Object} apiKeyData - The api_keys row
+ * @param {string} permission - The scope required by the route
+ * @returns {boolean}
+ */
+export function hasPermission(apiKeyData, permission) {
+  const granted = Array.isArray(apiKeyData?.permissions) ? apiKeyData.permissions : [];
+
+  if (granted.includes(PERMISSIONS.ADMIN)) {
+    return true;
+  }
+
+  return granted.includes(permission);
+}
+
+/**
+ * Returns a failure result when the key lacks the required scope, or null if it is allowed
+ * @param {Object} apiKeyData - The api_keys row
+ * @param {string} [permission] - The scope required by the route
+ * @returns {{error: string, code: string}|null}
+ */
+export function checkPermission(apiKeyData, permission) {
+  if (!permission || hasPermission(apiKeyData, permission)) {
+    return null;
+  }
+
+  return {
+    error: `API key does not have the '${permission}' permission required for this endpoint`,
+    code: 'insufficient_permission',
+  };
+}
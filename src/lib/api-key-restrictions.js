@@ -0,0 +1,241 @@
+import { getClientIp, ipInCidr, parseCidr } from './ip-address';
+
+/**
+ * API Key Network Restrictions
+ *
+ * Keys may carry an `allowed_ips` list of CIDR ranges and an
+ * `allowed_referrers` list of referrer patterns; an empty list places no
+ * restriction. validateApiKey rejects requests from outside either list, and
+ * requests whose address or referrer is unknown when a list is set.
+ *
+ * Referrer patterns are either a host ('example.com', '*.example.com' for any
+ * subdomain) or a URL prefix ending in '*' ('https://example.com/app/*'), whose
+ * origin must match exactly and whose wildcard only covers the rest of the path.
+ */
+
+export const MAX_ALLOWLIST_ENTRIES = 50;
+
+/**
+ * Validates and normalizes a list of CIDR ranges
+ * @param {unknown} value - The requested list; null/undefined means no restriction
+ * @returns {{values: string[]}|{error: string, code: string}}
+ */
+export function normalizeIpAllowlist(value) {
+  const entries = toEntries(value);
+  if (!entries) {
+    return { error: 'allowedIps must be a list of CIDR ranges', code: 'invalid_ip_allowlist' };
+  }
+
+  if (entries.length > MAX_ALLOWLIST_ENTRIES) {
+    return {
+      error: `allowedIps may hold up to ${MAX_ALLOWLIST_ENTRIES} entries`,
+      code: 'invalid_ip_allowlist',
+    };
+  }
+
+  const invalid = entries.filter((entry) => !parseCidr(entry));
+  if (invalid.length > 0) {
+    return {
+      error: `Invalid IP address or CIDR range: ${invalid.join(', ')}`,
+      code: 'invalid_ip_allowlist',
+    };
+  }
+
+  return { values: entries };
+}
+
+/**
+ * Validates and normalizes a list of referrer patterns
+ * @param {unknown} value - The requested list; null/undefined means no restriction
+ * @returns {{values: string[]}|{error: string, code: string}}
+ */
+export function normalizeReferrerAllowlist(value) {
+  const entries = toEntries(value);
+  if (!entries) {
+    return {
+      error: 'allowedReferrers must be a list of referrer patterns',
+      code: 'invalid_referrer_allowlist',
+    };
+  }
+
+  if (entries.length > MAX_ALLOWLIST_ENTRIES) {
+    return {
+      error: `allowedReferrers may hold up to ${MAX_ALLOWLIST_ENTRIES} entries`,
+      code: 'invalid_referrer_allowlist',
+    };
+  }
+
+  const invalid = entries.filter((entry) => !isValidReferrerPattern(entry));
+  if (invalid.length > 0) {
+    return {
+      error: `Invalid referrer pattern: ${invalid.join(', ')}`,
+      code: 'invalid_referrer_allowlist',
+    };
+  }
+
+  return { values: entries.map((entry) => entry.toLowerCase()) };
+}
+
+/**
+ * Validates the allowlists requested for a key
+ * @param {{allowedIps?: unknown, allowedReferrers?: unknown}} lists - A list left out is
+ *   not changed
+ * @returns {{fields: {allowed_ips?: string[], allowed_referrers?: string[]}}|{error: string, code: string}}
+ *   The api_keys columns to write
+ */
+export function validateKeyRestrictions({ allowedIps, allowedReferrers }) {
+  const fields = {};
+
+  if (allowedIps !== undefined) {
+    const result = normalizeIpAllowlist(allowedIps);
+    if (result.error) {
+      return result;
+    }
+    fields.allowed_ips = result.values;
+  }
+
+  if (allowedReferrers !== undefined) {
+    const result = normalizeReferrerAllowlist(allowedReferrers);
+    if (result.error) {
+      return result;
+    }
+    fields.allowed_referrers = result.values;
+  }
+
+  return { fields };
+}
+
+/**
+ * Checks whether a referrer URL matches a pattern
+ * @param {string} referrer - The Referer (or Origin) header value
+ * @param {string} pattern - A host or URL-prefix pattern
+ * @returns {boolean}
+ */
+export function referrerMatches(referrer, pattern) {
+  let url;
+  try {
+    url = new URL(referrer);
+  } catch {
+    return false;
+  }
+
+  const target = pattern.toLowerCase();
+
+  if (!target.includes('://')) {
+    const host = url.host.toLowerCase();
+    if (target.startsWith('*.')) {
+      return host.endsWith(target.slice(1));
+    }
+    return host === target;
+  }
+
+  // The origin must match exactly; a trailing '*' only extends the path, so
+  // 'https://example.com*' does not match https://example.com.evil.com
+  const isPrefix = target.endsWith('*');
+  let allowed;
+  try {
+    allowed = new URL(isPrefix ? target.slice(0, -1) : target);
+  } catch {
+    return false;
+  }
+
+  if (url.origin !== allowed.origin) {
+    return false;
+  }
+
+  const path = url.pathname.toLowerCase();
+  if (isPrefix) {
+    return path.startsWith(allowed.pathname);
+  }
+  return path === allowed.pathname || path === `${allowed.pathname}/`;
+}
+
+/**
+ * Gets the caller details that key restrictions are checked against
+ * @param {Request} request - The incoming request
+ * @returns {{ip: string|null, referrer: string|null}}
+ */
+export function getRequestClient(request) {
+  return {
+    ip: getClientIp(request),
+    referrer: request.headers.get('referer') || request.headers.get('origin'),
+  };
+}
+
+/**
+ * Returns a failure result when the caller is outside the key's allowlists, or null if allowed
+ * @param {Object} apiKeyData - The api_keys row
+ * @param {{ip?: string|null, referrer?: string|null}} [client] - From getRequestClient
+ * @returns {{error: string, code: string}|null}
+ */
+export function checkKeyRestrictions(apiKeyData, { ip = null, referrer = null } = {}) {
+  const allowedIps = apiKeyData?.allowed_ips || [];
+  if (allowedIps.length > 0 && !(ip && allowedIps.some((cidr) => ipInCidr(ip, cidr)))) {
+    return {
+      error: ip
+        ? `Requests from ${ip} are not allowed for this API key`
+        : 'This API key only accepts requests from allowed IP addresses',
+      code: 'ip_not_allowed',
+    };
+  }
+
+  const allowedReferrers = apiKeyData?.allowed_referrers || [];
+  if (
+    allowedReferrers.length > 0 &&
+    !(referrer && allowedReferrers.some((pattern) => referrerMatches(referrer, pattern)))
+  ) {
+    return {
+      error: 'Requests from this referrer are not allowed for this API key',
+      code: 'referrer_not_allowed',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Turns a requested list into trimmed, de-duplicated entries
+ * @param {unknown} value
+ * @returns {string[]|null} Null when the value is not a list of strings
+ */
+function toEntries(value) {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || !value.every((entry) => typeof entry === 'string')) {
+    return null;
+  }
+
+  return [...new Set(value.map((entry) => entry.trim()).filter(Boolean))];
+}
+
+/**
+ * Checks the shape of a referrer pattern
+ * @param {string} pattern
+ * @returns {boolean}
+ */
+function isValidReferrerPattern(pattern) {
+  if (!pattern.includes('://')) {
+    return /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d{1,5})?$/i.test(pattern);
+  }
+
+  // Only a trailing wildcard is supported in URL patterns
+  const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : pattern;
+  if (prefix.includes('*')) {
+    return false;
+  }
+
+  try {
+    const url = new URL(prefix);
+    return (
+      (url.protocol === 'http:' || url.protocol === 'https:') &&
+      !url.username &&
+      !url.password &&
+      !url.search &&
+      !url.hash
+    );
+  } catch {
+    return false;
+  }
+}
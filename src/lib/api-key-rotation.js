@@ -0,0 +1,79 @@
+import { buildStoredKeyFields, verifyApiKeyHash } from './api-key-crypto';
+
+/**
+ * API Key Rotation
+ *
+ * Rotating a key replaces its secret in place, so the row id, usage counters
+ * and usage history stay with the key. The outgoing secret is moved to the
+ * `previous_key_*` columns and keeps working until `previous_key_expires_at`,
+ * giving callers time to switch. Only one previous secret is kept: rotating
+ * again during the grace period ends the older secret immediately.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_GRACE_PERIOD_HOURS = 24;
+export const MAX_GRACE_PERIOD_HOURS = 30 * 24;
+
+/**
+ * Validates a requested grace period
+ * @param {number|undefined} gracePeriodHours - Hours the old secret keeps working (0 = none)
+ * @returns {{gracePeriodHours: number}|{error: string, code: string}}
+ */
+export function parseGracePeriod(gracePeriodHours) {
+  if (gracePeriodHours === undefined || gracePeriodHours === null) {
+    return { gracePeriodHours: DEFAULT_GRACE_PERIOD_HOURS };
+  }
+
+  if (
+    typeof gracePeriodHours !== 'number' ||
+    !Number.isFinite(gracePeriodHours) ||
+    gracePeriodHours < 0 ||
+    gracePeriodHours > MAX_GRACE_PERIOD_HOURS
+  ) {
+    return {
+      error: `gracePeriodHours must be a number between 0 and ${MAX_GRACE_PERIOD_HOURS}`,
+      code: 'invalid_grace_period',
+    };
+  }
+
+  return { gracePeriodHours };
+}
+
+/**
+ * Builds the column updates that rotate a key to a new secret
+ * @param {Object} apiKeyRow - The current api_keys row
+ * @param {string} newApiKey - The new plaintext key
+ * @param {number} gracePeriodHours - Hours the current secret keeps working
+ * @param {Date} [now=new Date()]
+ * @returns {Object}
+ */
+export function buildRotationUpdate(apiKeyRow, newApiKey, gracePeriodHours, now = new Date()) {
+  return {
+    ...buildStoredKeyFields(newApiKey),
+    previous_key_prefix: gracePeriodHours > 0 ? apiKeyRow.key_prefix : null,
+    previous_key_salt: gracePeriodHours > 0 ? apiKeyRow.key_salt : null,
+    previous_key_hash: gracePeriodHours > 0 ? apiKeyRow.key_hash : null,
+    previous_key_expires_at:
+      gracePeriodHours > 0
+        ? new Date(now.getTime() + gracePeriodHours * HOUR_MS).toISOString()
+        : null,
+    rotated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Checks whether a key matches a row's previous secret that is still in its grace period
+ * @param {Object} apiKeyRow - The api_keys row
+ * @param {string} apiKey - The plaintext key presented by the caller
+ * @param {Date} [now=new Date()]
+ * @returns {boolean}
+ */
+export function matchesPreviousSecret(apiKeyRow, apiKey, now = new Date()) {
+  return (
+    !!apiKeyRow.previous_key_hash &&
+    !!apiKeyRow.previous_key_expires_at &&
+    new Date(apiKeyRow.previous_key_expires_at) > now &&
+    verifyApiKeyHash(apiKey, apiKeyRow.previous_key_salt, apiKeyRow.previous_key_hash)
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * Browser-side calls to the public API
+ *
+ * Shared by the playground and the "try it" panels of /docs, so both send
+ * requests and hand results to the analysis page the same way.
+ */
+
+// sessionStorage keys read by the /protected analysis page
+const ANALYSIS_KEY = 'repoAnalysisResponse';
+const ANALYSIS_URL_KEY = 'repoGithubUrl';
+
+/**
+ * Sends a request to the API
+ * @param {Object} request
+ * @param {string} request.method - HTTP method
+ * @param {string} request.path - Path including /api/v1 and any query string
+ * @param {string} [request.apiKey] - Sent as x-api-key when present
+ * @param {*} [request.body] - Sent as JSON when present
+ * @returns {Promise<{ok: boolean, status: number, body: *, durationMs: number}>}
+ */
+export async function sendApiRequest({ method, path, apiKey, body }) {
+  const startedAt = performance.now();
+  const response = await fetch(path, {
+    method: method.toUpperCase(),
+    headers: {
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...(apiKey && { 'x-api-key': apiKey }),
+    },
+    credentials: 'include', // Session-authenticated endpoints need the session cookie
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+
+  const text = await response.text();
+  let parsed = text;
+  try {
+    parsed = text ? JSON.parse(text) : null;
+  } catch {}
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    body: parsed,
+    durationMs: Math.round(performance.now() - startedAt),
+  };
+}
+
+/**
+ * Parses one Server-Sent Event block
+ * @param {string} block - Lines between two blank lines
+ * @returns {{event: string, data: *}}
+ */
+function parseEventBlock(block) {
+  let event = 'message';
+  const data = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+
+  const text = data.join('\n');
+  try {
+    return { event, data: JSON.parse(text) };
+  } catch {
+    return { event, data: text };
+  }
+}
+
+/**
+ * Sends a request that asks for a Server-Sent Events response
+ *
+ * Each event is handed to onEvent as it arrives. The final `result` or
+ * `error` event becomes the body of the returned object, so callers handle
+ * it like the result of sendApiRequest. Errors the server answers before
+ * streaming (a bad key, an exhausted quota) come back as plain JSON.
+ * @param {Object} request
+ * @param {string} request.path - Path including /api/v1
+ * @param {string} [request.apiKey] - Sent as x-api-key when present
+ * @param {*} request.body - Sent as JSON
+ * @param {(event: string, data: *) => void} [request.onEvent] - Receives every event
+ * @returns {Promise<{ok: boolean, status: number, body: *, durationMs: number}>}
+ */
+export async function streamApiRequest({ path, apiKey, body, onEvent = () => {} }) {
+  const startedAt = performance.now();
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      Accept: 'text/event-stream',
+      'Content-Type': 'application/json',
+      ...(apiKey && { 'x-api-key': apiKey }),
+    },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  });
+
+  const finish = (ok, parsed) => ({
+    ok,
+    status: response.status,
+    body: parsed,
+    durationMs: Math.round(performance.now() - startedAt),
+  });
+
+  if (!response.headers.get('content-type')?.startsWith('text/event-stream')) {
+    const text = await response.text();
+    let parsed = text;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {}
+    return finish(response.ok, parsed);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let final = null;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value.replace(/\r\n/g, '\n');
+    let end;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const { event, data } = parseEventBlock(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      onEvent(event, data);
+      if (event === 'result' || event === 'error') final = { event, data };
+    }
+  }
+
+  if (!final) {
+    return finish(false, {
+      error: { code: 'stream_interrupted', message: 'The stream ended early' },
+    });
+  }
+  return finish(final.event === 'result', final.data);
+}
+
+/**
+ * Keeps a summarizer result for the /protected analysis page
+ * @param {Object} analysis - The `data` of a github-summarizer response
+ * @param {string} githubUrl - The analyzed repository
+ */
+export function storeRepoAnalysis(analysis, githubUrl) {
+  try {
+    sessionStorage.setItem(ANALYSIS_KEY, JSON.stringify(analysis));
+    sessionStorage.setItem(ANALYSIS_URL_KEY, githubUrl);
+  } catch {}
+}
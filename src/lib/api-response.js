@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getErrorStatus } from './api-errors';
+
+/**
+ * API Response Envelope
+ *
+ * Every /api/v1 route answers with one of two shapes:
+ *
+ *   { "data": <payload>, "request_id": "req_..." }
+ *   { "error": { "code": "invalid_api_key", "message": "...", "details": {...} }, "request_id": "req_..." }
+ *
+ * The request ID is also sent as the X-Request-Id header. Callers may supply
+ * their own X-Request-Id to correlate logs.
+ *
+ * Routes that can report progress also answer as a stream of Server-Sent
+ * Events; the stream ends with a `result` or `error` event whose data is one
+ * of the two shapes above.
+ *
+ * The unversioned routes are deprecated aliases of the v1 handlers: they run
+ * the same code, translate the envelope back to the shape each route used to
+ * return, and announce their retirement with Deprecation, Sunset and Link
+ * headers.
+ */
+
+export const API_VERSION = 'v1';
+
+// When the unversioned routes were deprecated and when they will be removed
+export const LEGACY_API_DEPRECATED_AT = new Date('2026-10-19T00:00:00Z');
+export const LEGACY_API_SUNSET = new Date('2027-04-30T00:00:00Z');
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// One ID per request, however many times it is asked for
+const requestIds = new WeakMap();
+
+/**
+ * @typedef {Object} ApiError
+ * @property {string} code - Machine-readable code, see api-errors.js
+ * @property {string} message - Human-readable description
+ * @property {Object} [details] - Extra fields, e.g. usage and limit for quota errors
+ */
+
+/**
+ * Gets the ID of a request, reusing a well-formed X-Request-Id sent by the caller
+ * @param {Request} request - The incoming request
+ * @returns {string}
+ */
+export function getRequestId(request) {
+  if (!requestIds.has(request)) {
+    const supplied = request.headers.get('x-request-id');
+    requestIds.set(
+      request,
+      supplied && REQUEST_ID_PATTERN.test(supplied)
+        ? supplied
+        : `req_${randomUUID().replace(/-/g, '')}`
+    );
+  }
+
+  return requestIds.get(request);
+}
+
+/**
+ * Builds a successful response
+ * @param {Request} request - The incoming request
+ * @param {*} data - The payload
+ * @param {{status?: number, headers?: Object}} [init]
+ * @returns {NextResponse}
+ */
+export function apiSuccess(request, data, { status = 200, headers = {} } = {}) {
+  const requestId = getRequestId(request);
+  return NextResponse.json(
+    { data, request_id: requestId },
+    { status, headers: { ...headers, 'X-Request-Id': requestId } }
+  );
+}
+
+/**
+ * Builds an error response
+ * @param {Request} request - The incoming request
+ * @param {string} code - Machine-readable code; its status comes from api-errors.js
+ * @param {string} message - Human-readable description
+ * @param {{status?: number, details?: Object, headers?: Object}} [init]
+ * @returns {NextResponse}
+ */
+export function apiError(request, code, message, { status, details, headers = {} } = {}) {
+  const requestId = getRequestId(request);
+  return NextResponse.json(
+    { error: { code, message, ...(details && { details }) }, request_id: requestId },
+    { status: status ?? getErrorStatus(code), headers: { ...headers, 'X-Request-Id': requestId } }
+  );
+}
+
+/**
+ * Formats one Server-Sent Event with JSON data
+ * @param {string} event - Event name
+ * @param {*} data
+ * @returns {string}
+ */
+export function formatServerSentEvent(event, data) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Builds a Server-Sent Events response
+ *
+ * The response is returned at once and `produce` writes to it as it runs;
+ * the stream closes when `produce` settles. Events written after the client
+ * went away are dropped.
+ * @param {Request} request - The incoming request
+ * @param {(stream: {
+ *   send: (event: string, data: *) => void,
+ *   success: (data: *) => void,
+ *   error: (code: string, message: string, details?: Object) => void,
+ * }) => Promise<void>} produce - Sends events; `success` and `error` send the final event in the
+ *   envelope of apiSuccess and apiError
+ * @param {{headers?: Object}} [init]
+ * @returns {Response}
+ */
+export function apiEventStream(request, produce, { headers = {} } = {}) {
+  const requestId = getRequestId(request);
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event, data) => {
+        if (!cancelled) controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+      const error = (code, message, details) =>
+        send('error', {
+          error: { code, message, ...(details && { details }) },
+          request_id: requestId,
+        });
+
+      try {
+        await produce({
+          send,
+          success: (data) => send('result', { data, request_id: requestId }),
+          error,
+        });
+      } catch (producerError) {
+        console.error('Error producing event stream:', producerError);
+        error('internal_error', 'Internal server error');
+      }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      // Keeps proxies such as nginx from buffering the events
+      'X-Accel-Buffering': 'no',
+      'X-Request-Id': requestId,
+    },
+  });
+}
+
+/**
+ * Tells whether a request asks for a Server-Sent Events response
+ * @param {Request} request
+ * @returns {boolean}
+ */
+export function acceptsEventStream(request) {
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Default translation of a v1 body to the shape of the unversioned routes
+ * @param {{data?: *, error?: ApiError}} body - The v1 response body
+ * @returns {*}
+ */
+export function toLegacyBody(body) {
+  if (body.error) {
+    return { error: body.error.message, code: body.error.code, ...body.error.details };
+  }
+
+  return body.data;
+}
+
+/**
+ * Wraps a v1 handler as a deprecated unversioned route
+ * @param {(request: Request, context: Object) => Promise<Response>} handler - The v1 handler
+ * @param {Object} [options]
+ * @param {(body: Object, response: Response) => *} [options.toLegacy=toLegacyBody] - Rebuilds
+ *   the body this route returned before v1
+ * @returns {(request: Request, context: Object) => Promise<Response>}
+ */
+export function deprecatedAlias(handler, { toLegacy = toLegacyBody } = {}) {
+  return async function legacyHandler(request, context) {
+    const response = await handler(request, context);
+
+    const headers = new Headers(response.headers);
+    headers.delete('content-length');
+    headers.set('Deprecation', `@${Math.floor(LEGACY_API_DEPRECATED_AT.getTime() / 1000)}`);
+    headers.set('Sunset', LEGACY_API_SUNSET.toUTCString());
+    const successor = new URL(request.url).pathname.replace(/^\/api\//, `/api/${API_VERSION}/`);
+    headers.set('Link', `<${successor}>; rel="successor-version"`);
+
+    // Streams had no legacy shape; their events keep the v1 envelope
+    if (response.headers.get('content-type')?.startsWith('text/event-stream')) {
+      return new Response(response.body, { status: response.status, headers });
+    }
+
+    const body = await response.json();
+    return NextResponse.json(toLegacy(body, response), { status: response.status, headers });
+  };
+}
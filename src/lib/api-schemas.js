@@ -0,0 +1,338 @@
+import { z } from 'zod';
+import { ALL_PERMISSIONS } from './api-key-permissions';
+import { MAX_GRACE_PERIOD_HOURS } from './api-key-rotation';
+
+/**
+ * API Schemas
+ *
+ * Request and response shapes of the public API, defined once. Route handlers
+ * validate their input with parseBody(), analysis-profiles.js uses the
+ * analysis schemas as the LLM's structured output, and openapi.js turns every
+ * schema in `apiSchemas` into a component of the OpenAPI document.
+ *
+ * These schemas check types and required fields only. Rules that depend on the
+ * user's plan, the expiry policy or the allowlist syntax stay in their own
+ * modules, which answer with more specific error codes.
+ */
+
+// Schemas registered here become #/components/schemas/<id> in the OpenAPI document
+export const apiSchemas = z.registry();
+
+export const PermissionSchema = z
+  .enum(ALL_PERMISSIONS)
+  .register(apiSchemas, { id: 'Permission', description: 'Scope granted to an API key' });
+
+export const KeyTypeSchema = z
+  .enum(['development', 'production'])
+  .register(apiSchemas, { id: 'KeyType', description: 'Environment an API key is issued for' });
+
+export const ApiErrorSchema = z
+  .object({
+    code: z.string().describe('Machine-readable error code'),
+    message: z.string().describe('Human-readable description'),
+    details: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe('Extra fields, e.g. usage and limit for quota errors'),
+  })
+  .register(apiSchemas, { id: 'ApiError' });
+
+export const ErrorResponseSchema = z
+  .object({
+    error: ApiErrorSchema,
+    request_id: z.string(),
+  })
+  .register(apiSchemas, { id: 'ErrorResponse', description: 'Body of every error response' });
+
+export const ApiKeyRequestSchema = z
+  .object({
+    name: z
+      .string({ error: 'Name is required' })
+      .trim()
+      .min(1, 'Name is required')
+      .meta({ examples: ['CI pipeline'] }),
+    description: z.string().nullish(),
+    permissions: z
+      .array(PermissionSchema)
+      .optional()
+      .meta({ examples: [['read']] }),
+    keyType: KeyTypeSchema.optional().describe('Defaults to development'),
+    limitUsage: z
+      .boolean()
+      .optional()
+      .describe('Whether the monthly limit applies; defaults to true'),
+    monthlyLimit: z
+      .number()
+      .optional()
+      .describe('Requests per month, capped by the plan; defaults to the plan default'),
+    expiresAt: z
+      .string()
+      .nullish()
+      .describe(
+        'ISO date the key stops working; empty or null for no expiry. Left out on update, the current expiry is kept'
+      ),
+    allowedIps: z
+      .array(z.string())
+      .nullish()
+      .describe('CIDR ranges the key may be used from; empty for any. Left out on update, kept'),
+    allowedReferrers: z
+      .array(z.string())
+      .nullish()
+      .describe(
+        "Referrer patterns ('example.com', '*.example.com' or 'https://example.com/app/*'); empty for any. Left out on update, kept"
+      ),
+  })
+  .register(apiSchemas, {
+    id: 'ApiKeyRequest',
+    description: 'Settings of a key to create, or the new settings of a key to update',
+  });
+
+export const RotateApiKeyRequestSchema = z
+  .object({
+    gracePeriodHours: z
+      .number()
+      .nullish()
+      .meta({
+        description: `Hours the current secret keeps working, 0 to ${MAX_GRACE_PERIOD_HOURS}; defaults to 24`,
+        examples: [24],
+      }),
+  })
+  .register(apiSchemas, { id: 'RotateApiKeyRequest' });
+
+export const RevokeApiKeyRequestSchema = z
+  .object({
+    reason: z
+      .string()
+      .optional()
+      .meta({
+        description: 'Why the key is revoked; up to 500 characters are kept',
+        examples: ['Leaked in a CI log'],
+      }),
+  })
+  .register(apiSchemas, { id: 'RevokeApiKeyRequest' });
+
+export const ApiKeySchema = z
+  .object({
+    id: z.string(),
+    user_id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    key_prefix: z.string().describe('Start of the secret, for display'),
+    permissions: z.array(PermissionSchema),
+    key_type: KeyTypeSchema,
+    limit_usage: z.boolean(),
+    monthly_limit: z.number().int(),
+    current_usage: z.number().int(),
+    last_reset_month: z.string().nullable(),
+    expires_at: z.string().nullable(),
+    previous_key_prefix: z.string().nullable(),
+    previous_key_expires_at: z
+      .string()
+      .nullable()
+      .describe('When the secret replaced by the last rotation stops working'),
+    rotated_at: z.string().nullable(),
+    revoked_at: z.string().nullable(),
+    revoked_by: z.string().nullable(),
+    revoked_reason: z.string().nullable(),
+    allowed_ips: z.array(z.string()),
+    allowed_referrers: z.array(z.string()),
+    created_at: z.string(),
+    updated_at: z.string(),
+  })
+  .register(apiSchemas, { id: 'ApiKey', description: 'An API key without its secret' });
+
+export const CreatedApiKeySchema = ApiKeySchema.extend({
+  key: z.string().describe('The full secret; returned only once'),
+}).register(apiSchemas, { id: 'CreatedApiKey' });
+
+export const ValidateKeyRequestSchema = z
+  .object({
+    apiKey: z
+      .string({ error: 'API key is required' })
+      .min(1, 'API key is required')
+      .meta({ examples: ['YOUR_API_KEY'] }),
+  })
+  .register(apiSchemas, { id: 'ValidateKeyRequest' });
+
+export const AnalysisProfileSchema = z
+  .enum(['basic', 'detailed', 'security'])
+  .register(apiSchemas, {
+    id: 'AnalysisProfile',
+    description:
+      'What the analysis covers: basic (summary and facts), detailed (stack, use cases, setup, maturity) or security',
+  });
+
+export const SummarizeRequestSchema = z
+  .object({
+    githubUrl: z
+      .string({ error: 'GitHub URL is required' })
+      .min(1, { error: 'GitHub URL is required', abort: true })
+      .startsWith('https://github.com/', 'Invalid GitHub URL format')
+      .meta({ examples: ['https://github.com/langchain-ai/langchain'] }),
+    analysisProfile: AnalysisProfileSchema.optional().describe('Defaults to basic'),
+    forceRefresh: z
+      .boolean()
+      .optional()
+      .describe('Analyze again even when a cached analysis of the same content exists'),
+  })
+  .register(apiSchemas, { id: 'SummarizeRequest' });
+
+// The analysis schemas are also the LLM's structured output, where every field is
+// required; a missing value is null rather than an absent field
+
+export const RepositoryAnalysisSchema = z
+  .object({
+    summary: z.string().describe('A concise summary of what the repository is about'),
+    cool_facts: z.array(z.string()).describe('List of interesting facts about the repository'),
+  })
+  .register(apiSchemas, { id: 'RepositoryAnalysis' });
+
+export const DetailedRepositoryAnalysisSchema = RepositoryAnalysisSchema.extend({
+  tech_stack: z
+    .array(z.string())
+    .describe('Languages, frameworks and notable libraries the project uses'),
+  use_cases: z.array(z.string()).describe('Primary things people use the project for'),
+  target_audience: z.string().describe('Who the project is for'),
+  installation_steps: z.array(z.string()).describe('Steps to install the project, in order'),
+  maturity_signals: z
+    .array(z.string())
+    .describe('Signs of how mature the project is: versioning, tests, CI, docs, adoption'),
+  quick_start: z
+    .object({
+      language: z.string().describe('Language of the snippet, e.g. bash or python'),
+      code: z.string().describe('The snippet, copied from the content as is'),
+    })
+    .nullable()
+    .describe('A quick-start code snippet from the README; null when it has none'),
+}).register(apiSchemas, { id: 'DetailedRepositoryAnalysis' });
+
+export const SecurityRepositoryAnalysisSchema = RepositoryAnalysisSchema.extend({
+  tech_stack: z
+    .array(z.string())
+    .describe('Languages, frameworks and notable libraries the project uses'),
+  security_features: z
+    .array(z.string())
+    .describe('Security measures the project documents, e.g. authentication or sandboxing'),
+  security_concerns: z
+    .array(z.string())
+    .describe('Risks a user should weigh, e.g. elevated permissions or unmaintained dependencies'),
+  vulnerability_reporting: z
+    .string()
+    .nullable()
+    .describe('How to report vulnerabilities, per the docs; null when not documented'),
+  maturity_signals: z
+    .array(z.string())
+    .describe('Signs of how mature the project is: versioning, tests, CI, docs, adoption'),
+}).register(apiSchemas, { id: 'SecurityRepositoryAnalysis' });
+
+export const AnalysisSourceSchema = z
+  .object({
+    type: z.enum(['readme', 'manifest', 'docs']),
+    path: z.string().describe('Path of the file in the repository'),
+  })
+  .register(apiSchemas, { id: 'AnalysisSource' });
+
+export const SummarizeResponseSchema = z
+  .object({
+    analysisProfile: AnalysisProfileSchema,
+    analysis: z
+      .union([
+        RepositoryAnalysisSchema,
+        DetailedRepositoryAnalysisSchema,
+        SecurityRepositoryAnalysisSchema,
+      ])
+      .describe('Shaped by analysisProfile'),
+    githubUrl: z.string(),
+    repositoryInfo: z.object({
+      stars: z.number().int(),
+      version: z.string(),
+      website: z.string(),
+      license: z.string(),
+    }),
+    defaultBranch: z.string().describe('Branch the content was read from'),
+    sources: z
+      .array(AnalysisSourceSchema)
+      .describe(
+        'Files that fed the analysis: the README, or package manifests and docs when there is none'
+      ),
+    chunks: z
+      .number()
+      .int()
+      .describe('Parts the content was summarized in; 1 when it fit in a single prompt'),
+    truncated: z
+      .boolean()
+      .describe('Whether content past the chunk limit was left out of the analysis'),
+    cached: z
+      .boolean()
+      .describe('Whether the analysis was served from the cache instead of a new model run'),
+    cachedAt: z
+      .string()
+      .nullable()
+      .describe('When the cached analysis was produced; null when it was produced by this call'),
+    usage: z.number().int().optional().describe('Requests made with the key this month'),
+    limit: z.number().int().optional().describe('Monthly limit of the key; 0 is unlimited'),
+  })
+  .register(apiSchemas, { id: 'SummarizeResponse' });
+
+// Query string of GET /api/v1/usage; the date range is checked by parseUsageRange
+export const UsageQuerySchema = z.object({
+  from: z.string().optional().describe('First day, YYYY-MM-DD; defaults to 30 days before to'),
+  to: z.string().optional().describe('Last day, YYYY-MM-DD; defaults to today'),
+  keyId: z.uuid().optional().describe('Only count the events of this key'),
+});
+
+/**
+ * Validates a request body against a schema
+ * @param {import('zod').ZodType} schema - One of the request schemas above
+ * @param {unknown} body - The parsed JSON body
+ * @returns {{data: Object}|{error: string, code: string, issues: {path: string, message: string}[]}}
+ */
+export function parseBody(schema, body) {
+  const result = schema.safeParse(body ?? {});
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+
+  return {
+    error: issues.map(({ path, message }) => (path ? `${path}: ${message}` : message)).join('; '),
+    code: 'invalid_request',
+    issues,
+  };
+}
+
+/**
+ * Reads the JSON body of a request
+ *
+ * An empty body reads as undefined, which parseBody treats as `{}`; a body
+ * that is not valid JSON is an invalid_request error rather than a server error.
+ * @param {Request} request - The incoming request
+ * @returns {Promise<{body: unknown}|{error: string, code: string, issues: []}>}
+ */
+export async function readJsonBody(request) {
+  const text = await request.text();
+  if (!text.trim()) {
+    return { body: undefined };
+  }
+
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { error: 'Request body must be valid JSON', code: 'invalid_request', issues: [] };
+  }
+}
+
+/**
+ * Reads the JSON body of a request and validates it against a schema
+ * @param {import('zod').ZodType} schema - One of the request schemas above
+ * @param {Request} request - The incoming request
+ * @returns {Promise<ReturnType<typeof parseBody>>}
+ */
+export async function parseJsonBody(schema, request) {
+  const json = await readJsonBody(request);
+  return json.error ? json : parseBody(schema, json.body);
+}
@@ -0,0 +1,148 @@
+import { supabaseAdmin } from './supabase';
+import { getClientIp } from './ip-address';
+
+/**
+ * Audit Log
+ *
+ * Append-only record of account and key activity in the `audit_events` table:
+ * who did what to which key, from where, and which fields changed. Plan
+ * changes are recorded by a trigger on users.plan, so they are captured however
+ * the plan is updated, and purge_revoked_api_keys() records the keys it deletes.
+ */
+
+export const AUDIT_ACTIONS = {
+  KEY_CREATED: 'api_key.created',
+  KEY_UPDATED: 'api_key.updated',
+  KEY_ROTATED: 'api_key.rotated',
+  KEY_REVOKED: 'api_key.revoked',
+  KEY_RESTORED: 'api_key.restored',
+  // Written by the purge_revoked_api_keys() database function
+  KEY_PURGED: 'api_key.purged',
+  SIGNED_IN: 'user.signed_in',
+  PLAN_CHANGED: 'plan.changed',
+};
+
+// api_keys columns worth showing in a diff; secrets and counters are left out
+export const AUDITED_KEY_FIELDS = [
+  'name',
+  'description',
+  'permissions',
+  'key_type',
+  'limit_usage',
+  'monthly_limit',
+  'expires_at',
+  'allowed_ips',
+  'allowed_referrers',
+  'key_prefix',
+  'previous_key_expires_at',
+  'revoked_at',
+  'revoked_reason',
+];
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 25;
+export const MAX_AUDIT_PAGE_SIZE = 100;
+
+/**
+ * Lists the fields that differ between two versions of a record
+ * @param {Object|null} before - The record before the change, or null if it was created
+ * @param {Object|null} after - The record after the change
+ * @param {string[]} [fields=AUDITED_KEY_FIELDS] - Fields to compare
+ * @returns {Object<string, {from: *, to: *}>}
+ */
+export function diffRecords(before, after, fields = AUDITED_KEY_FIELDS) {
+  const changes = {};
+
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Gets the caller details stored with an audit event
+ * @param {{headers: Headers}} request - The incoming request, or anything with its headers
+ * @returns {{ip: string|null, userAgent: string|null}}
+ */
+export function getAuditContext(request) {
+  return {
+    ip: getClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Parses the paging parameters of GET /api/audit
+ * @param {{page?: string|null, pageSize?: string|null}} params - Raw query parameters
+ * @returns {{page: number, pageSize: number, from: number, to: number}|{error: string}}
+ *   from/to are the inclusive row offsets for the query
+ */
+export function parseAuditPage({ page, pageSize }) {
+  const pageNumber = page ? Number(page) : 1;
+  const size = pageSize ? Number(pageSize) : DEFAULT_AUDIT_PAGE_SIZE;
+
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    return { error: 'page must be a positive integer' };
+  }
+
+  if (!Number.isInteger(size) || size < 1 || size > MAX_AUDIT_PAGE_SIZE) {
+    return { error: `pageSize must be between 1 and ${MAX_AUDIT_PAGE_SIZE}` };
+  }
+
+  const from = (pageNumber - 1) * size;
+  return { page: pageNumber, pageSize: size, from, to: from + size - 1 };
+}
+
+/**
+ * Records one audit event
+ *
+ * Auditing must never break the action it describes, so errors are logged and
+ * swallowed.
+ * @param {Object} event
+ * @param {string} event.userId - Account the event belongs to
+ * @param {string|null} event.actorId - User who performed the action
+ * @param {string} event.action - One of AUDIT_ACTIONS
+ * @param {string} [event.targetType] - e.g. 'api_key'
+ * @param {string} [event.targetId] - ID of the affected record
+ * @param {Object} [event.changes] - From diffRecords()
+ * @param {{ip: string|null, userAgent: string|null}} [event.context] - From getAuditContext()
+ * @returns {Promise<boolean>} Whether the event was stored
+ */
+export async function recordAuditEvent({
+  userId,
+  actorId,
+  action,
+  targetType,
+  targetId,
+  changes,
+  context,
+}) {
+  try {
+    const { error } = await supabaseAdmin.from('audit_events').insert([
+      {
+        user_id: userId,
+        actor_id: actorId,
+        action,
+        target_type: targetType || null,
+        target_id: targetId || null,
+        ip_address: context?.ip || null,
+        user_agent: context?.userAgent || null,
+        changes: changes || {},
+      },
+    ]);
+
+    if (error) {
+      console.error('Error recording audit event:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+    return false;
+  }
+}
@@ -1,6 +1,7 @@
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from './auth';
 import { getUserByEmail } from './user-management';
+import { apiError } from './api-response';
 
 /**
  * Get the authenticated user's ID from the session
@@ -33,10 +34,7 @@ export async function requireAuth(request) {
   if (!userId) {
     return {
       userId: null,
-      error: new Response(JSON.stringify({ error: 'Authentication required' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      }),
+      error: apiError(request, 'authentication_required', 'Authentication required'),
     };
   }
 
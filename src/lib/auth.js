@@ -1,6 +1,23 @@
 import NextAuth from 'next-auth';
 import GoogleProvider from 'next-auth/providers/google';
-import { checkUserExists, saveNewUser, getUserByEmail } from './user-management';
+import { headers } from 'next/headers';
+import { saveNewUser, getUserByEmail } from './user-management';
+import { AUDIT_ACTIONS, getAuditContext, recordAuditEvent } from './audit-log';
+
+/**
+ * Gets the audit context of the sign-in request
+ *
+ * NextAuth callbacks are not given the request, so its headers are read from
+ * the route handler's context.
+ * @returns {Promise<{ip: string|null, userAgent: string|null}|undefined>}
+ */
+async function getSignInContext() {
+  try {
+    return getAuditContext({ headers: await headers() });
+  } catch {
+    return undefined;
+  }
+}
 
 export const authOptions = {
   secret: process.env.NEXTAUTH_SECRET,
@@ -20,23 +37,31 @@ export const authOptions = {
     async signIn({ user, account, profile }) {
       try {
         // Check if user exists in our database
-        const userExists = await checkUserExists(user.email);
+        let dbUser = await getUserByEmail(user.email);
 
-        if (!userExists) {
+        if (!dbUser) {
           // Save new user to database
-          const savedUser = await saveNewUser({
+          dbUser = await saveNewUser({
             name: user.name,
             email: user.email,
             emailVerified: profile?.email_verified || false,
             image: user.image,
           });
 
-          if (!savedUser) {
+          if (!dbUser) {
             console.error('Failed to save new user to database');
             return false; // Prevent sign in if we can't save user
           }
         }
 
+        await recordAuditEvent({
+          userId: dbUser.id,
+          actorId: dbUser.id,
+          action: AUDIT_ACTIONS.SIGNED_IN,
+          changes: {},
+          context: await getSignInContext(),
+        });
+
         return true;
       } catch (error) {
         console.error('Error in signIn callback:', error);
@@ -0,0 +1,253 @@
+import { supabaseAdmin } from './supabase';
+
+/**
+ * Burst Throttling
+ *
+ * Short-window limiter that runs alongside the monthly quota in
+ * rate-limiting.js. It uses a sliding window counter: the count for the
+ * current window plus the previous window's count weighted by how much of it
+ * still overlaps the sliding window. Rejected hits are given back, so a client
+ * that keeps retrying does not push its own retry further out.
+ *
+ * Counters live in a pluggable store:
+ * - memory: per-process Map, used in tests and local development
+ * - postgres: `rate_limit_buckets` table shared by every server instance
+ *
+ * Set RATE_LIMIT_STORE to 'memory' or 'postgres'; production defaults to postgres.
+ */
+
+const WINDOW_MS = 60 * 1000;
+
+// Requests per minute
+export const BURST_LIMITS = {
+  development: 100,
+  production: 1000,
+  ip: Number(process.env.BURST_LIMIT_PER_IP) || 60,
+};
+
+/**
+ * @typedef {Object} BurstStore
+ * @property {(bucket: string, windowStart: number, ttlMs: number) => Promise<number>} increment
+ *   Adds one hit to a window and returns the new count
+ * @property {(bucket: string, windowStart: number) => Promise<void>} decrement
+ *   Removes one hit from a window
+ * @property {(bucket: string, windowStart: number) => Promise<number>} get
+ *   Returns the count for a window (0 if unknown)
+ */
+
+/**
+ * Creates an in-memory burst store
+ * @returns {BurstStore}
+ */
+export function createMemoryStore() {
+  const windows = new Map();
+
+  const prune = (now) => {
+    for (const [id, entry] of windows) {
+      if (entry.expiresAt <= now) {
+        windows.delete(id);
+      }
+    }
+  };
+
+  return {
+    async increment(bucket, windowStart, ttlMs) {
+      const now = Date.now();
+      prune(now);
+
+      const id = `${bucket}:${windowStart}`;
+      const entry = windows.get(id) || { count: 0, expiresAt: now + ttlMs };
+      entry.count += 1;
+      windows.set(id, entry);
+      return entry.count;
+    },
+    async decrement(bucket, windowStart) {
+      const entry = windows.get(`${bucket}:${windowStart}`);
+      if (entry && entry.count > 0) {
+        entry.count -= 1;
+      }
+    },
+    async get(bucket, windowStart) {
+      return windows.get(`${bucket}:${windowStart}`)?.count || 0;
+    },
+  };
+}
+
+/**
+ * Creates a burst store backed by the rate_limit_buckets table
+ * @param {Object} [client=supabaseAdmin] - Supabase client
+ * @returns {BurstStore}
+ */
+export function createPostgresStore(client = supabaseAdmin) {
+  return {
+    async increment(bucket, windowStart, ttlMs) {
+      const { data, error } = await client.rpc('increment_rate_limit_bucket', {
+        p_bucket: bucket,
+        p_window_start: windowStart,
+        p_expires_at: new Date(Date.now() + ttlMs).toISOString(),
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    },
+    async decrement(bucket, windowStart) {
+      const { error } = await client.rpc('refund_rate_limit_bucket', {
+        p_bucket: bucket,
+        p_window_start: windowStart,
+      });
+
+      if (error) {
+        throw error;
+      }
+    },
+    async get(bucket, windowStart) {
+      const { data, error } = await client
+        .from('rate_limit_buckets')
+        .select('count')
+        .eq('bucket', bucket)
+        .eq('window_start', windowStart);
+
+      if (error) {
+        throw error;
+      }
+
+      return data?.[0]?.count || 0;
+    },
+  };
+}
+
+/**
+ * Seconds until one more hit fits under the limit
+ * @param {Object} state
+ * @param {number} state.currentCount - Allowed hits in the current window
+ * @param {number} state.previousCount - Hits in the previous window
+ * @param {number} state.limit
+ * @param {number} state.elapsedFraction - How far into the current window we are (0-1)
+ * @param {number} state.windowMs
+ * @returns {number}
+ */
+function secondsUntilAllowed({ currentCount, previousCount, limit, elapsedFraction, windowMs }) {
+  // Rounded to the millisecond first, so float error cannot add a second
+  const secondsUntil = (fraction) =>
+    Math.ceil(Math.round((fraction - elapsedFraction) * windowMs) / 1000);
+
+  // Measured in windows from the start of the current one. The previous window's
+  // weight falls linearly to 0 over the current window, so while the current
+  // count leaves room, wait until previousCount * (1 - f) <= limit - currentCount - 1
+  if (currentCount < limit) {
+    const fraction = 1 - (limit - currentCount - 1) / previousCount;
+    return Math.max(1, secondsUntil(fraction));
+  }
+
+  // The current window is full on its own: wait until its hits have slid far
+  // enough out of the next one, currentCount * (1 - f) <= limit - 1
+  const fraction = 1 + (1 - (limit - 1) / currentCount);
+  return secondsUntil(fraction);
+}
+
+/**
+ * Creates a sliding window limiter
+ * @param {Object} options
+ * @param {BurstStore} options.store - Counter storage
+ * @param {number} options.limit - Requests allowed per window
+ * @param {number} [options.windowMs=60000] - Window length
+ * @param {() => number} [options.now=Date.now] - Clock, overridable in tests
+ */
+export function createBurstLimiter({ store, limit, windowMs = WINDOW_MS, now = Date.now }) {
+  return {
+    /**
+     * Records a hit for an identifier and reports whether it is within the limit
+     * @param {string} id - Bucket identifier (e.g. `key:<uuid>` or `ip:<address>`)
+     * @returns {Promise<{allowed: boolean, limit: number, remaining: number, retryAfter: number}>}
+     */
+    async check(id) {
+      const timestamp = now();
+      const windowStart = Math.floor(timestamp / windowMs) * windowMs;
+      const elapsedFraction = (timestamp - windowStart) / windowMs;
+
+      const [currentCount, previousCount] = await Promise.all([
+        store.increment(id, windowStart, windowMs * 2),
+        store.get(id, windowStart - windowMs),
+      ]);
+
+      const weightedCount = currentCount + previousCount * (1 - elapsedFraction);
+
+      if (weightedCount <= limit) {
+        return {
+          allowed: true,
+          limit,
+          remaining: Math.max(0, Math.floor(limit - weightedCount)),
+          retryAfter: 0,
+        };
+      }
+
+      await store.decrement(id, windowStart);
+
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        retryAfter: secondsUntilAllowed({
+          currentCount: currentCount - 1,
+          previousCount,
+          limit,
+          elapsedFraction,
+          windowMs,
+        }),
+      };
+    },
+  };
+}
+
+let burstStore = null;
+
+/**
+ * Gets the configured burst store (created once per process)
+ * @returns {BurstStore}
+ */
+export function getBurstStore() {
+  if (!burstStore) {
+    const storeType =
+      process.env.RATE_LIMIT_STORE ||
+      (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+    burstStore = storeType === 'postgres' ? createPostgresStore() : createMemoryStore();
+  }
+
+  return burstStore;
+}
+
+async function checkBurst(id, limit) {
+  try {
+    return await createBurstLimiter({ store: getBurstStore(), limit }).check(id);
+  } catch (error) {
+    // Fail open: a throttling outage should not take the API down with it
+    console.error('Error checking burst limit:', error);
+    return { allowed: true, limit, remaining: limit, retryAfter: 0 };
+  }
+}
+
+/**
+ * Checks the per-minute limit for an API key, based on its key type
+ * @param {Object} apiKeyData - The validated api_keys row
+ * @returns {Promise<{allowed: boolean, limit: number, remaining: number, retryAfter: number}>}
+ */
+export async function checkKeyBurstLimit(apiKeyData) {
+  const limit = BURST_LIMITS[apiKeyData.key_type] || BURST_LIMITS.development;
+  return checkBurst(`key:${apiKeyData.id}`, limit);
+}
+
+/**
+ * Checks the per-minute limit for a client IP address
+ * @param {string|null} ip - The client IP address
+ * @returns {Promise<{allowed: boolean, limit: number, remaining: number, retryAfter: number}>}
+ */
+export async function checkIpBurstLimit(ip) {
+  if (!ip) {
+    return { allowed: true, limit: BURST_LIMITS.ip, remaining: BURST_LIMITS.ip, retryAfter: 0 };
+  }
+
+  return checkBurst(`ip:${ip}`, BURST_LIMITS.ip);
+}
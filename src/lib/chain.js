@@ -1,40 +1,290 @@
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { ChatOpenAI } from '@langchain/openai';
-import { z } from 'zod';
+import { StringOutputParser, parsePartialJson } from '@langchain/core/output_parsers';
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import { getAnalysisProfile } from './analysis-profiles';
+import { createChatModel } from './llm-provider';
+
+/**
+ * Repository Analysis Chain
+ *
+ * Content that fits one prompt is analyzed in a single call. Larger content
+ * is split at markdown headings into chunks, each chunk is summarized on its
+ * own (map), and a final call merges the chunk summaries into the analysis
+ * (reduce). Chunks past the configured maximum are left out and the result
+ * is marked as truncated. The analysis profile (see analysis-profiles.js) sets
+ * the instructions and the output schema. Limits are in tokens of the o200k encoding used by
+ * the gpt-4.1 models, a close enough estimate for the other providers:
+ *
+ *   ANALYSIS_MAX_INPUT_TOKENS  content up to this size is analyzed in one call (default 12000)
+ *   ANALYSIS_CHUNK_TOKENS      target size of each chunk (default 4000)
+ *   ANALYSIS_MAX_CHUNKS        chunks summarized at most (default 8)
+ */
 
 const TEMPLATE = `You are a helpful assistant that analyzes GitHub repositories.
-Please analyze the following README content and provide a summary and interesting facts about the repository.
+Please analyze the following repository content and provide a summary and interesting facts about the repository.
+The content is the repository's README or, when it has none, its package manifests and documentation, each under a header naming the file.
 
-README Content:
+Repository Content:
 {readme_content}
 
-Provide a concise summary of the repository and list two cool/interesting facts about it.`;
+{instructions}`;
+
+const MAP_TEMPLATE = `You are a helpful assistant that analyzes GitHub repositories.
+The following is part {part} of {parts} of a repository's documentation.
+Summarize what this part says about the project in a few sentences, keeping {focus}.
+
+Content:
+{chunk}`;
+
+const REDUCE_TEMPLATE = `You are a helpful assistant that analyzes GitHub repositories.
+The repository's documentation was too long to read at once, so it was summarized in parts:
+
+{summaries}
+
+Based on these summaries:
+{instructions}`;
 
 const prompt = ChatPromptTemplate.fromTemplate(TEMPLATE);
+const mapPrompt = ChatPromptTemplate.fromTemplate(MAP_TEMPLATE);
+const reducePrompt = ChatPromptTemplate.fromTemplate(REDUCE_TEMPLATE);
+
+export const DEFAULT_CHUNKING_LIMITS = {
+  maxInputTokens: 12_000,
+  chunkTokens: 4_000,
+  maxChunks: 8,
+};
+
+// Chunk summaries requested at once
+const MAP_CONCURRENCY = 4;
+
+let encoder;
+
+/**
+ * Counts the tokens of a text
+ * @param {string} text
+ * @returns {number}
+ */
+export function countTokens(text) {
+  // The rank table is large; build the encoder on first use
+  encoder ??= new Tiktoken(o200kBase);
+  return encoder.encode(text).length;
+}
+
+/**
+ * Gets the chunking limits from the environment
+ * @returns {{maxInputTokens: number, chunkTokens: number, maxChunks: number}}
+ */
+export function getChunkingLimits() {
+  const positive = (value, fallback) => {
+    const number = parseInt(value, 10);
+    return number > 0 ? number : fallback;
+  };
+  return {
+    maxInputTokens: positive(
+      process.env.ANALYSIS_MAX_INPUT_TOKENS,
+      DEFAULT_CHUNKING_LIMITS.maxInputTokens
+    ),
+    chunkTokens: positive(process.env.ANALYSIS_CHUNK_TOKENS, DEFAULT_CHUNKING_LIMITS.chunkTokens),
+    maxChunks: positive(process.env.ANALYSIS_MAX_CHUNKS, DEFAULT_CHUNKING_LIMITS.maxChunks),
+  };
+}
+
+/**
+ * Splits markdown into sections, each starting at a heading
+ *
+ * Headings inside fenced code blocks are ignored. Text before the first
+ * heading is a section of its own.
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function splitByHeading(text) {
+  const sections = [];
+  let current = [];
+  let fence = null;
+
+  for (const line of text.split('\n')) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+    }
+
+    if (!fence && /^#{1,6}\s/.test(line) && current.some((l) => l.trim())) {
+      sections.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+
+  if (current.some((l) => l.trim())) sections.push(current.join('\n'));
+  return sections;
+}
 
-// Define schema using Zod
-const repoAnalysisSchema = z.object({
-  summary: z.string().describe('A concise summary of what the repository is about'),
-  cool_facts: z.array(z.string()).describe('List of interesting facts about the repository'),
-});
+/**
+ * Cuts a text that is too large for one chunk: at blank lines, then by tokens
+ * @param {string} text
+ * @param {number} chunkTokens
+ * @returns {string[]}
+ */
+function splitOversized(text, chunkTokens) {
+  if (countTokens(text) <= chunkTokens) return [text];
 
-export async function analyzeReadme(readmeContent) {
+  const paragraphs = text.split(/\n\s*\n/);
+  if (paragraphs.length > 1) {
+    return packSections(paragraphs, chunkTokens, '\n\n');
+  }
+
+  // A single huge paragraph; cut it at token boundaries
+  const tokens = encoder.encode(text);
+  const pieces = [];
+  for (let start = 0; start < tokens.length; start += chunkTokens) {
+    pieces.push(encoder.decode(tokens.slice(start, start + chunkTokens)));
+  }
+  return pieces;
+}
+
+/**
+ * Packs consecutive sections into chunks of at most chunkTokens each
+ * @param {string[]} sections
+ * @param {number} chunkTokens
+ * @param {string} separator - Joins sections within a chunk
+ * @returns {string[]}
+ */
+function packSections(sections, chunkTokens, separator) {
+  const chunks = [];
+  let current = '';
+
+  for (const section of sections.flatMap((s) => splitOversized(s, chunkTokens))) {
+    const candidate = current ? `${current}${separator}${section}` : section;
+    if (current && countTokens(candidate) > chunkTokens) {
+      chunks.push(current);
+      current = section;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits content into chunks of about chunkTokens, breaking at headings
+ * @param {string} text
+ * @param {number} chunkTokens
+ * @returns {string[]}
+ */
+export function chunkContent(text, chunkTokens) {
+  return packSections(splitByHeading(text), chunkTokens, '\n');
+}
+
+/**
+ * Follows the `summary` field of a structured output call as the model writes it
+ *
+ * The handler makes the model stream even when invoked, and parses its output
+ * so far as partial JSON; each time the summary grows, the new text is passed
+ * on. Providers that answer through tool calls stream the arguments instead
+ * of text, so those are read too.
+ * @param {(text: string) => void} onSummaryToken - Receives each new piece of the summary
+ * @returns {{handler: Object, flush: (analysis: Object) => void}}
+ */
+function createSummaryStreamer(onSummaryToken) {
+  let output = '';
+  let sent = '';
+
+  const send = (summary) => {
+    if (typeof summary !== 'string' || summary.length <= sent.length || !summary.startsWith(sent)) {
+      return;
+    }
+    onSummaryToken(summary.slice(sent.length));
+    sent = summary;
+  };
+
+  return {
+    handler: {
+      lc_prefer_streaming: true,
+      // Run inline so no token arrives after the call has returned
+      awaitHandlers: true,
+      handleLLMNewToken(token, _indices, _runId, _parentRunId, _tags, fields) {
+        const toolArgs = fields?.chunk?.message?.tool_call_chunks
+          ?.map((chunk) => chunk.args ?? '')
+          .join('');
+        output += toolArgs || token;
+        send(parsePartialJson(output)?.summary);
+      },
+    },
+    // Sends what was not streamed, e.g. when the model answered in one piece
+    flush: (analysis) => send(analysis?.summary),
+  };
+}
+
+/**
+ * Summarizes a repository
+ * @param {string} readmeContent - Raw README markdown, or the fallback sources from getRepositoryContent
+ * @param {Object} [options]
+ * @param {Array} [options.callbacks] - LangChain callback handlers (e.g. token usage collection)
+ * @param {import('@langchain/core/language_models/chat_models').BaseChatModel} [options.model] -
+ *   Chat model to use instead of the configured provider's
+ * @param {{maxInputTokens: number, chunkTokens: number, maxChunks: number}} [options.limits=getChunkingLimits()]
+ * @param {string} [options.profile='basic'] - Analysis profile name
+ * @param {(text: string) => void} [options.onSummaryToken] - Receives the summary piece by
+ *   piece as the final call generates it; the pieces add up to `analysis.summary`
+ * @returns {Promise<{analysis: Object, chunks: number, truncated: boolean}>}
+ *   `analysis` follows the profile's schema; always has `summary` and `cool_facts`
+ *   `chunks` is 1 when the content fit one prompt; `truncated` tells whether chunks were left out
+ */
+export async function analyzeReadme(
+  readmeContent,
+  { callbacks = [], model, limits = getChunkingLimits(), profile, onSummaryToken } = {}
+) {
   try {
-    const model = new ChatOpenAI({
-      modelName: 'gpt-4.1-nano',
-      temperature: 0.0,
-    });
+    const { schema, instructions, chunkFocus } = getAnalysisProfile(profile);
+    const chatModel = model || createChatModel();
 
     // Use withStructuredOutput for strict schema enforcement
-    const structuredModel = model.withStructuredOutput(repoAnalysisSchema);
+    const structuredModel = chatModel.withStructuredOutput(schema);
+
+    // Only the call that produces the analysis is streamed
+    const streamer = onSummaryToken && createSummaryStreamer(onSummaryToken);
+    const finalCallbacks = streamer ? [...callbacks, streamer.handler] : callbacks;
+
+    if (countTokens(readmeContent) <= limits.maxInputTokens) {
+      const analysis = await prompt
+        .pipe(structuredModel)
+        .invoke({ readme_content: readmeContent, instructions }, { callbacks: finalCallbacks });
+      streamer?.flush(analysis);
+      return { analysis, chunks: 1, truncated: false };
+    }
+
+    const allChunks = chunkContent(readmeContent, limits.chunkTokens);
+    const chunks = allChunks.slice(0, limits.maxChunks);
 
-    const chain = prompt.pipe(structuredModel);
+    const summaries = await mapPrompt
+      .pipe(chatModel)
+      .pipe(new StringOutputParser())
+      .batch(
+        chunks.map((chunk, index) => ({
+          chunk,
+          part: index + 1,
+          parts: chunks.length,
+          focus: chunkFocus,
+        })),
+        { callbacks, maxConcurrency: MAP_CONCURRENCY }
+      );
 
-    const response = await chain.invoke({
-      readme_content: readmeContent,
-    });
+    const analysis = await reducePrompt.pipe(structuredModel).invoke(
+      {
+        summaries: summaries
+          .map((summary, index) => `Part ${index + 1}:\n${summary.trim()}`)
+          .join('\n\n'),
+        instructions,
+      },
+      { callbacks: finalCallbacks }
+    );
+    streamer?.flush(analysis);
 
-    return response;
+    return { analysis, chunks: chunks.length, truncated: allChunks.length > chunks.length };
   } catch (error) {
     console.error('Error analyzing README:', error);
     throw new Error('Failed to analyze repository');
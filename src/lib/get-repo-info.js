@@ -1,35 +1,22 @@
+import { getGithubHeaders, getRepository, parseGithubUrl } from './github-content';
+
 /**
  * Fetches additional repository information from GitHub API
  * @param {string} githubUrl - The GitHub repository URL
+ * @param {Object} [options]
+ * @param {Object} [options.repository] - From getRepository in github-content.js, to skip fetching it again
  * @returns {Object} Repository information including stars, version, website, and license
  */
-export async function getRepoInfo(githubUrl) {
+export async function getRepoInfo(githubUrl, { repository } = {}) {
   try {
-    // Parse the GitHub URL to extract owner and repo
-    const urlParts = githubUrl.replace('https://github.com/', '').split('/');
-    const owner = urlParts[0];
-    const repo = urlParts[1];
-
-    if (!owner || !repo) {
-      throw new Error('Invalid GitHub URL format');
-    }
+    // Parse the GitHub URL the same way as the content fetch, so .git suffixes
+    // and query strings never reach the releases and tags requests
+    const { owner, repo } = parseGithubUrl(githubUrl);
 
-    // Fetch repository information from GitHub API
-    const repoResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
-      headers: {
-        Accept: 'application/vnd.github.v3+json',
-        'User-Agent': 'GitHub-Repo-Info-Fetcher',
-      },
-    });
-
-    if (!repoResponse.ok) {
-      if (repoResponse.status === 404) {
-        throw new Error('Repository not found');
-      }
-      throw new Error(`GitHub API error: ${repoResponse.status}`);
-    }
+    const headers = getGithubHeaders();
 
-    const repoData = await repoResponse.json();
+    // Fetch repository information from GitHub API unless the caller already has it
+    const repoData = repository || (await getRepository(githubUrl));
 
     // Fetch latest release information
     let latestVersion = null;
@@ -37,10 +24,7 @@ export async function getRepoInfo(githubUrl) {
       const releaseResponse = await fetch(
         `https://api.github.com/repos/${owner}/${repo}/releases/latest`,
         {
-          headers: {
-            Accept: 'application/vnd.github.v3+json',
-            'User-Agent': 'GitHub-Repo-Info-Fetcher',
-          },
+          headers,
         }
       );
 
@@ -56,10 +40,7 @@ export async function getRepoInfo(githubUrl) {
     if (!latestVersion) {
       try {
         const tagsResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/tags`, {
-          headers: {
-            Accept: 'application/vnd.github.v3+json',
-            'User-Agent': 'GitHub-Repo-Info-Fetcher',
-          },
+          headers,
         });
 
         if (tagsResponse.ok) {
@@ -94,11 +75,12 @@ export async function getRepoInfo(githubUrl) {
 /**
  * Fetches only basic repository information (stars, version, website, license)
  * @param {string} githubUrl - The GitHub repository URL
+ * @param {Object} [options] - See getRepoInfo
  * @returns {Object} Basic repository information
  */
-export async function getBasicRepoInfo(githubUrl) {
+export async function getBasicRepoInfo(githubUrl, options) {
   try {
-    const repoInfo = await getRepoInfo(githubUrl);
+    const repoInfo = await getRepoInfo(githubUrl, options);
 
     return {
       stars: repoInfo.stars,
@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+
+/**
+ * Repository Content
+ *
+ * Collects the text the analyzer reads from a GitHub repository. The default
+ * branch and the README (any name GitHub recognizes, such as readme.rst or
+ * Readme.md) are discovered through the GitHub API. Repositories without a
+ * README fall back to their package manifests and top-level documentation.
+ * `contentSha` identifies the exact content read, so analyses can be cached
+ * until it changes.
+ *
+ * Requests are anonymous unless GITHUB_TOKEN is set, which only raises GitHub's
+ * rate limit from 60 to 5,000 requests an hour. The token must have public-repo
+ * scope only; private repositories are refused either way, since any API key
+ * could read them and their analyses are cached for every key.
+ */
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+const GITHUB_HEADERS = {
+  Accept: 'application/vnd.github.v3+json',
+  'User-Agent': 'GitHub-Repo-Info-Fetcher',
+};
+
+// Read, in this order, when the repository has no README
+export const MANIFEST_FILES = ['package.json', 'pyproject.toml', 'Cargo.toml', 'go.mod'];
+
+const DOCS_DIRECTORY = 'docs';
+const DOC_FILE_PATTERN = /\.(md|markdown|mdx|rst|txt|adoc)$/i;
+const MAX_DOC_FILES = 3;
+
+// Fallback sources are capped so one large file cannot crowd out the others
+export const MAX_FALLBACK_SOURCE_CHARS = 10_000;
+
+/**
+ * Splits a repository URL into owner and name
+ * @param {string} githubUrl - e.g. https://github.com/owner/repo or https://github.com/owner/repo.git
+ * @returns {{owner: string, repo: string}}
+ */
+export function parseGithubUrl(githubUrl) {
+  const [owner, repo] = githubUrl.replace('https://github.com/', '').split(/[/?#]/);
+  if (!owner || !repo) {
+    throw new Error('Invalid GitHub URL format');
+  }
+  return { owner, repo: repo.replace(/\.git$/, '') };
+}
+
+/**
+ * Gets the headers for GitHub API requests, authenticated when GITHUB_TOKEN is set
+ * @returns {Record<string, string>}
+ */
+export function getGithubHeaders() {
+  const token = process.env.GITHUB_TOKEN;
+  return token ? { ...GITHUB_HEADERS, Authorization: `Bearer ${token}` } : GITHUB_HEADERS;
+}
+
+const getRepoPath = ({ owner, repo }) =>
+  `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+async function githubRequest(path) {
+  const response = await fetch(`${GITHUB_API_URL}${path}`, { headers: getGithubHeaders() });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status}`);
+  }
+  return response.json();
+}
+
+async function fetchText(url) {
+  const response = await fetch(url, { headers: { 'User-Agent': GITHUB_HEADERS['User-Agent'] } });
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Picks the fallback files from a directory listing
+ * @param {{name: string, type: string}[]} entries - Contents API listing of the root
+ * @returns {{manifests: Object[], docs: Object[], docsDirectory: Object|undefined}}
+ */
+export function selectFallbackFiles(entries) {
+  const files = entries.filter((entry) => entry.type === 'file');
+  const manifests = MANIFEST_FILES.map((name) => files.find((file) => file.name === name)).filter(
+    Boolean
+  );
+  const docs = files.filter((file) => DOC_FILE_PATTERN.test(file.name));
+  const docsDirectory = entries.find(
+    (entry) => entry.type === 'dir' && entry.name.toLowerCase() === DOCS_DIRECTORY
+  );
+  return { manifests, docs, docsDirectory };
+}
+
+/**
+ * Formats the sources as one text, each under a header naming its file
+ * @param {{path: string, text: string}[]} sources
+ * @returns {string}
+ */
+export function combineSources(sources) {
+  return sources.map(({ path, text }) => `--- ${path} ---\n${text.trim()}`).join('\n\n');
+}
+
+/**
+ * Fetches a repository's metadata from the GitHub API
+ * @param {string} githubUrl - The GitHub repository URL
+ * @returns {Promise<Object>} The GitHub repository object (default_branch, stargazers_count, ...)
+ * @throws {Error} 'Repository not found' for a missing or private repository
+ */
+export async function getRepository(githubUrl) {
+  const repository = await githubRequest(getRepoPath(parseGithubUrl(githubUrl)));
+  // A private repository is reported like a missing one, so its existence is not revealed
+  if (!repository || repository.private) {
+    throw new Error('Repository not found');
+  }
+  return repository;
+}
+
+/**
+ * Fetches the text to analyze for a repository
+ * @param {string} githubUrl - The GitHub repository URL
+ * @param {Object} [options]
+ * @param {Object} [options.repository] - From getRepository, to skip fetching it again
+ * @returns {Promise<{content: string, contentSha: string, defaultBranch: string, sources: {type: 'readme'|'manifest'|'docs', path: string}[]}>}
+ *   `content` is the README as is, or the fallback files combined under headers;
+ *   `contentSha` is the README's blob SHA, or a digest of the fallback files' blob SHAs
+ */
+export async function getRepositoryContent(githubUrl, { repository } = {}) {
+  const repoPath = getRepoPath(parseGithubUrl(githubUrl));
+  const { default_branch: defaultBranch } = repository || (await getRepository(githubUrl));
+  const ref = `ref=${encodeURIComponent(defaultBranch)}`;
+
+  const readme = await githubRequest(`${repoPath}/readme?${ref}`);
+  if (readme) {
+    return {
+      content: Buffer.from(readme.content, readme.encoding || 'base64').toString('utf8'),
+      contentSha: readme.sha,
+      defaultBranch,
+      sources: [{ type: 'readme', path: readme.path }],
+    };
+  }
+
+  const rootEntries = (await githubRequest(`${repoPath}/contents?${ref}`)) || [];
+  const { manifests, docs, docsDirectory } = selectFallbackFiles(rootEntries);
+
+  let docFiles = docs;
+  if (docsDirectory && docFiles.length < MAX_DOC_FILES) {
+    const docsPath = encodeURIComponent(docsDirectory.name);
+    const docsEntries = (await githubRequest(`${repoPath}/contents/${docsPath}?${ref}`)) || [];
+    docFiles = [...docFiles, ...selectFallbackFiles(docsEntries).docs];
+  }
+
+  const files = [
+    ...manifests.map((file) => ({ ...file, type: 'manifest' })),
+    ...docFiles.slice(0, MAX_DOC_FILES).map((file) => ({ ...file, type: 'docs' })),
+  ];
+  if (files.length === 0) {
+    throw new Error('No README, package manifest or documentation found in the repository');
+  }
+
+  const sources = await Promise.all(
+    files.map(async (file) => ({
+      type: file.type,
+      path: file.path,
+      text: (await fetchText(file.download_url)).slice(0, MAX_FALLBACK_SOURCE_CHARS),
+    }))
+  );
+
+  const contentSha = createHash('sha1')
+    .update(files.map((file) => `${file.path}:${file.sha}`).join('\n'))
+    .digest('hex');
+
+  return {
+    content: combineSources(sources),
+    contentSha,
+    defaultBranch,
+    sources: sources.map(({ type, path }) => ({ type, path })),
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * IP Addresses
+ *
+ * Parses IPv4/IPv6 addresses and CIDR ranges, and resolves the client address
+ * of a request. X-Forwarded-For is only honoured behind trusted proxies: set
+ * TRUSTED_PROXY_HOPS to the number of proxies in front of the app that append
+ * to it (defaults to 1 on Vercel, 0 elsewhere, where forwarding headers are
+ * ignored and the client address is unknown; the server warns about that when
+ * it starts).
+ */
+
+/**
+ * Parses an IPv4 address into its bytes
+ * @param {string} value
+ * @returns {number[]|null}
+ */
+function parseIpv4(value) {
+  const parts = value.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+
+  const bytes = parts.map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+/**
+ * Parses an IPv6 address into its 16 bytes
+ * @param {string} value
+ * @returns {number[]|null}
+ */
+function parseIpv6(value) {
+  const halves = value.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (part) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = toGroups(halves[1]);
+
+  // A trailing dotted quad (e.g. ::ffff:192.0.2.1) stands for the last two groups
+  const last = halves.length === 2 ? tail : head;
+  if (last.length > 0 && last[last.length - 1].includes('.')) {
+    const ipv4 = parseIpv4(last.pop());
+    if (!ipv4) {
+      return null;
+    }
+    last.push(((ipv4[0] << 8) | ipv4[1]).toString(16), ((ipv4[2] << 8) | ipv4[3]).toString(16));
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return null;
+  }
+
+  return groups.flatMap((group) => {
+    const number = parseInt(group, 16);
+    return [number >> 8, number & 0xff];
+  });
+}
+
+/**
+ * Parses an IP address; IPv4-mapped IPv6 addresses are returned as IPv4
+ * @param {string} value - e.g. '203.0.113.7', '2001:db8::1' or '[2001:db8::1]'
+ * @returns {{version: 4|6, bytes: number[]}|null}
+ */
+export function parseIp(value) {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const address = value.trim().replace(/^\[(.*)\]$/, '$1');
+
+  if (!address.includes(':')) {
+    const bytes = parseIpv4(address);
+    return bytes ? { version: 4, bytes } : null;
+  }
+
+  const bytes = parseIpv6(address.replace(/%.*$/, ''));
+  if (!bytes) {
+    return null;
+  }
+
+  const isIpv4Mapped =
+    bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return isIpv4Mapped ? { version: 4, bytes: bytes.slice(12) } : { version: 6, bytes };
+}
+
+/**
+ * Parses a CIDR range; a bare address is a range of one
+ * @param {string} value - e.g. '203.0.113.0/24' or '2001:db8::/32'
+ * @returns {{version: 4|6, bytes: number[], prefix: number}|null}
+ */
+export function parseCidr(value) {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const [address, prefixText, ...rest] = value.trim().split('/');
+  const ip = rest.length === 0 ? parseIp(address) : null;
+  if (!ip) {
+    return null;
+  }
+
+  const maxPrefix = ip.bytes.length * 8;
+  if (prefixText === undefined) {
+    return { ...ip, prefix: maxPrefix };
+  }
+
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > maxPrefix) {
+    return null;
+  }
+
+  return { ...ip, prefix: Number(prefixText) };
+}
+
+/**
+ * Checks whether an address falls inside a CIDR range
+ * @param {string} ip - The address
+ * @param {string} cidr - The range
+ * @returns {boolean}
+ */
+export function ipInCidr(ip, cidr) {
+  const address = parseIp(ip);
+  const range = parseCidr(cidr);
+  if (!address || !range || address.version !== range.version) {
+    return false;
+  }
+
+  for (let bit = 0; bit < range.prefix; bit++) {
+    const byte = bit >> 3;
+    const mask = 0x80 >> (bit & 7);
+    if ((address.bytes[byte] & mask) !== (range.bytes[byte] & mask)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Gets the number of trusted proxies in front of the app
+ *
+ * Read from TRUSTED_PROXY_HOPS; when it is unset or not a whole number, 1 on
+ * Vercel (whose edge appends the client address) and 0 elsewhere.
+ * @returns {number}
+ */
+export function getTrustedProxyHops() {
+  const configured = process.env.TRUSTED_PROXY_HOPS?.trim();
+  if (configured && /^\d+$/.test(configured)) {
+    return Number(configured);
+  }
+
+  return process.env.VERCEL ? 1 : 0;
+}
+
+/**
+ * Warns when the proxy setup leaves client addresses unknown
+ *
+ * Called once at server start (see src/instrumentation.js). With no trusted
+ * proxy hops no request has an address, so IP burst limits are skipped and
+ * keys with an IP allowlist reject every request.
+ * @returns {boolean} Whether a warning was logged
+ */
+export function warnIfClientIpUnknown() {
+  const configured = process.env.TRUSTED_PROXY_HOPS?.trim();
+  const hops = getTrustedProxyHops();
+  const warnings = [];
+
+  if (configured && !/^\d+$/.test(configured)) {
+    warnings.push(`TRUSTED_PROXY_HOPS must be a whole number, got "${configured}"; using ${hops}`);
+  }
+
+  if (hops === 0) {
+    warnings.push(
+      'TRUSTED_PROXY_HOPS is 0, so client IP addresses are unknown: IP burst limits are off ' +
+        'and keys with an IP allowlist reject every request. Set it to the number of proxies ' +
+        'in front of the app that append to X-Forwarded-For.'
+    );
+  }
+
+  warnings.forEach((warning) => console.warn(warning));
+  return warnings.length > 0;
+}
+
+/**
+ * Gets the client IP address of a request
+ *
+ * Each trusted proxy appends the address it received the request from, so the
+ * client is the entry `hops` places from the end of X-Forwarded-For. Entries
+ * before it were supplied by the client and are never trusted.
+ * @param {{headers: Headers}} request - The incoming request, or anything with its headers
+ * @param {Object} [options]
+ * @param {number} [options.trustedProxyHops=getTrustedProxyHops()]
+ * @returns {string|null}
+ */
+export function getClientIp(request, { trustedProxyHops = getTrustedProxyHops() } = {}) {
+  if (trustedProxyHops === 0) {
+    return null;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const entries = forwardedFor.split(',').map((entry) => entry.trim());
+    const client = entries[Math.max(entries.length - trustedProxyHops, 0)];
+    return parseIp(client) ? client : null;
+  }
+
+  const realIp = request.headers.get('x-real-ip');
+  return parseIp(realIp) ? realIp.trim() : null;
+}
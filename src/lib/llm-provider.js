@@ -0,0 +1,102 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatOpenAI } from '@langchain/openai';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+
+/**
+ * Language Model Providers
+ *
+ * The analyzer's chat model is chosen by configuration, so it can run on
+ * OpenAI, Anthropic, a local OpenAI-compatible server (Ollama, llama.cpp) or
+ * a scripted fake that needs no network:
+ *
+ *   LLM_PROVIDER        openai | anthropic | openai-compatible | fake (default openai)
+ *   LLM_MODEL           model name (defaults below; required for openai-compatible)
+ *   LLM_BASE_URL        endpoint of the OpenAI-compatible server (default Ollama's)
+ *   LLM_API_KEY         overrides OPENAI_API_KEY / ANTHROPIC_API_KEY; optional for local servers
+ *   LLM_FAKE_RESPONSES  JSON array of replies the fake returns in turn
+ *
+ * Every provider supports withStructuredOutput: OpenAI and Anthropic through
+ * tool calling or JSON schema, local servers through the JSON schema
+ * response format, and the fake by parsing its scripted reply as JSON.
+ */
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'openai-compatible', 'fake'];
+
+export const DEFAULT_MODELS = {
+  openai: 'gpt-4.1-nano',
+  anthropic: 'claude-3-5-haiku-latest',
+  fake: 'fake',
+};
+
+// Ollama's OpenAI-compatible endpoint
+export const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+// Returned by the fake when no responses are scripted; valid as an analysis
+export const DEFAULT_FAKE_RESPONSE = JSON.stringify({
+  summary: 'A repository analyzed by the fake language model.',
+  cool_facts: ['No model was called to produce this analysis.', 'The output is deterministic.'],
+});
+
+/**
+ * Gets the provider configuration from the environment
+ * @param {Object<string, string|undefined>} [env=process.env]
+ * @returns {{provider: string, model: string, baseUrl?: string, apiKey?: string, fakeResponses: string[]}}
+ */
+export function getLlmConfig(env = process.env) {
+  const provider = env.LLM_PROVIDER || 'openai';
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"; use one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  const model = env.LLM_MODEL || DEFAULT_MODELS[provider];
+  if (!model) {
+    throw new Error(`LLM_MODEL is required for the ${provider} provider`);
+  }
+
+  let fakeResponses = [DEFAULT_FAKE_RESPONSE];
+  if (env.LLM_FAKE_RESPONSES) {
+    fakeResponses = JSON.parse(env.LLM_FAKE_RESPONSES);
+    if (!Array.isArray(fakeResponses) || fakeResponses.length === 0) {
+      throw new Error('LLM_FAKE_RESPONSES must be a non-empty JSON array of strings');
+    }
+  }
+
+  return {
+    provider,
+    model,
+    baseUrl:
+      env.LLM_BASE_URL ||
+      (provider === 'openai-compatible' ? DEFAULT_COMPATIBLE_BASE_URL : undefined),
+    apiKey: env.LLM_API_KEY || undefined,
+    fakeResponses,
+  };
+}
+
+/**
+ * Creates the chat model for a configuration
+ * @param {ReturnType<typeof getLlmConfig>} [config=getLlmConfig()]
+ * @returns {import('@langchain/core/language_models/chat_models').BaseChatModel}
+ */
+export function createChatModel(config = getLlmConfig()) {
+  switch (config.provider) {
+    case 'anthropic':
+      return new ChatAnthropic({ model: config.model, temperature: 0, apiKey: config.apiKey });
+    case 'openai-compatible':
+      return new ChatOpenAI({
+        model: config.model,
+        temperature: 0,
+        // Local servers usually ignore the key, but the client insists on one
+        apiKey: config.apiKey || 'not-needed',
+        configuration: { baseURL: config.baseUrl },
+      });
+    case 'fake':
+      return new FakeListChatModel({ responses: config.fakeResponses });
+    default:
+      return new ChatOpenAI({
+        model: config.model,
+        temperature: 0,
+        apiKey: config.apiKey,
+        configuration: config.baseUrl ? { baseURL: config.baseUrl } : undefined,
+      });
+  }
+}
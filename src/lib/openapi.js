@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import { API_VERSION } from './api-response';
+import { apiSchemas } from './api-schemas';
+
+/**
+ * OpenAPI Document
+ *
+ * Builds the OpenAPI 3.1 description of the public API served at
+ * /api/openapi.json. Components are generated from the zod schemas in
+ * api-schemas.js, so the document changes whenever the schemas do; only the
+ * list of operations is written out here.
+ */
+
+const BASE_PATH = `/api/${API_VERSION}`;
+
+const ref = (id) => ({ $ref: `#/components/schemas/${id}` });
+
+/**
+ * Wraps a payload schema in the success envelope
+ * @param {Object} schema - JSON Schema of the payload
+ * @returns {Object}
+ */
+const envelope = (schema) => ({
+  type: 'object',
+  properties: { data: schema, request_id: { type: 'string' } },
+  required: ['data', 'request_id'],
+});
+
+const jsonContent = (schema) => ({ 'application/json': { schema } });
+
+const success = (description, schema, status = '200') => ({
+  [status]: { description, content: jsonContent(envelope(schema)) },
+});
+
+// Error responses list the codes each operation can answer with
+const errors = (codesByStatus) =>
+  Object.fromEntries(
+    Object.entries(codesByStatus).map(([status, codes]) => [
+      status,
+      {
+        description: `Error code: ${codes.map((code) => `\`${code}\``).join(', ')}`,
+        content: jsonContent(ref('ErrorResponse')),
+      },
+    ])
+  );
+
+const keyIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+};
+
+const sessionAuth = [{ session: [] }];
+
+const SESSION_ERRORS = {
+  401: ['authentication_required'],
+  500: ['internal_error'],
+};
+
+const KEY_SETTINGS_ERRORS = {
+  400: [
+    'invalid_request',
+    'invalid_monthly_limit',
+    'invalid_expiry',
+    'expiry_required',
+    'invalid_ip_allowlist',
+    'invalid_referrer_allowlist',
+  ],
+  403: ['plan_limit_exceeded', 'feature_not_in_plan'],
+};
+
+const PATHS = {
+  '/github-summarizer': {
+    post: {
+      operationId: 'summarizeRepository',
+      summary: 'Summarize a GitHub repository from its README, manifests or docs',
+      tags: ['Analysis'],
+      security: [{ apiKey: [] }],
+      requestBody: { required: true, content: jsonContent(ref('SummarizeRequest')) },
+      responses: {
+        200: {
+          description: 'The analysis',
+          content: {
+            ...jsonContent(envelope(ref('SummarizeResponse'))),
+            // Sent when the request has Accept: text/event-stream
+            'text/event-stream': {
+              schema: {
+                type: 'string',
+                description:
+                  '`progress` events ({"stage": "fetching_readme" | "fetching_repo_info" | "analyzing"}), `token` events ({"text": ...}) with the summary as it is generated, then one `result` event with the JSON body above or one `error` event with an ErrorResponse body',
+              },
+            },
+          },
+        },
+        ...errors({
+          400: ['missing_api_key', 'invalid_request', 'fetch_readme_failed', 'analyze_failed'],
+          401: ['invalid_api_key', 'malformed_api_key', 'key_expired', 'key_revoked'],
+          403: ['insufficient_permission', 'ip_not_allowed', 'referrer_not_allowed'],
+          429: ['usage_limit_exceeded', 'burst_limit_exceeded'],
+          500: ['internal_error', 'database_error'],
+        }),
+      },
+    },
+  },
+  '/validate-key': {
+    post: {
+      operationId: 'validateKey',
+      summary: 'Check an API key and return its details',
+      tags: ['API Keys'],
+      requestBody: { required: true, content: jsonContent(ref('ValidateKeyRequest')) },
+      responses: {
+        ...success('The key is valid', ref('ApiKey')),
+        ...errors({
+          400: ['missing_api_key'],
+          401: ['invalid_api_key', 'malformed_api_key', 'key_expired', 'key_revoked'],
+          403: ['insufficient_permission', 'ip_not_allowed', 'referrer_not_allowed'],
+          429: ['burst_limit_exceeded'],
+          500: ['internal_error', 'database_error'],
+        }),
+      },
+    },
+  },
+  '/api-keys': {
+    get: {
+      operationId: 'listApiKeys',
+      summary: "List the signed-in user's API keys",
+      tags: ['API Keys'],
+      security: sessionAuth,
+      responses: {
+        ...success('The keys, newest first', { type: 'array', items: ref('ApiKey') }),
+        ...errors(SESSION_ERRORS),
+      },
+    },
+    post: {
+      operationId: 'createApiKey',
+      summary: 'Create an API key',
+      tags: ['API Keys'],
+      security: sessionAuth,
+      requestBody: { required: true, content: jsonContent(ref('ApiKeyRequest')) },
+      responses: {
+        ...success('The new key, including its secret', ref('CreatedApiKey'), '201'),
+        ...errors({ ...KEY_SETTINGS_ERRORS, ...SESSION_ERRORS }),
+      },
+    },
+  },
+  '/api-keys/{id}': {
+    parameters: [keyIdParameter],
+    get: {
+      operationId: 'getApiKey',
+      summary: 'Get an API key',
+      tags: ['API Keys'],
+      security: sessionAuth,
+      responses: {
+        ...success('The key', ref('ApiKey')),
+        ...errors({ ...SESSION_ERRORS, 404: ['not_found'] }),
+      },
+    },
+    put: {
+      operationId: 'updateApiKey',
+      summary: 'Update the settings of an API key',
+      tags: ['API Keys'],
+      security: sessionAuth,
+      requestBody: { required: true, content: jsonContent(ref('ApiKeyRequest')) },
+      responses: {
+        ...success('The updated key', ref('ApiKey')),
+        ...errors({ ...KEY_SETTINGS_ERRORS, ...SESSION_ERRORS, 404: ['not_found'] }),
+      },
+    },
+    delete: {
+      operationId: 'revokeApiKey',
+      summary: 'Revoke an API key',
+      tags: ['API Keys'],
+      security: sessionAuth,
+      requestBody: { content: jsonContent(ref('RevokeApiKeyRequest')) },
+      responses: {
+        ...success('The revoked key', ref('ApiKey')),
+        ...errors({ 400: ['invalid_request'], ...SESSION_ERRORS, 404: ['not_found'] }),
+      },
+    },
+  },
+  '/api-keys/{id}/rotate': {
+    parameters: [keyIdParameter],
+    post: {
+      operationId: 'rotateApiKey',
+      summary: 'Issue a new secret; the old one keeps working for a grace period',
+      tags: ['API Keys'],
+      security: sessionAuth,
+      requestBody: { content: jsonContent(ref('RotateApiKeyRequest')) },
+      responses: {
+        ...success('The key, including its new secret', ref('CreatedApiKey')),
+        ...errors({
+          400: ['invalid_request', 'invalid_grace_period'],
+          ...SESSION_ERRORS,
+          404: ['not_found'],
+          409: ['conflict'],
+        }),
+      },
+    },
+  },
+  '/api-keys/{id}/restore': {
+    parameters: [keyIdParameter],
+    post: {
+      operationId: 'restoreApiKey',
+      summary: 'Restore a revoked API key',
+      tags: ['API Keys'],
+      security: sessionAuth,
+      responses: {
+        ...success('The restored key', ref('ApiKey')),
+        ...errors({ ...SESSION_ERRORS, 404: ['not_found'] }),
+      },
+    },
+  },
+};
+
+/**
+ * Builds the OpenAPI document
+ * @returns {Object}
+ */
+export function buildOpenApiDocument() {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    io: 'input',
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Xpto GitHub Analyzer API',
+      version: API_VERSION,
+      description:
+        'Successful responses are wrapped as `{ "data": ..., "request_id": "..." }` and errors as ' +
+        '`{ "error": { "code", "message", "details" }, "request_id": "..." }`.',
+    },
+    servers: [{ url: BASE_PATH }],
+    tags: [{ name: 'Analysis' }, { name: 'API Keys' }],
+    paths: PATHS,
+    components: {
+      // Each generated schema carries its own $schema and $id, which OpenAPI does not need
+      schemas: Object.fromEntries(
+        Object.entries(schemas).map(([id, { $schema, $id, ...schema }]) => [id, schema])
+      ),
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'next-auth.session-token',
+          description: 'NextAuth session of a signed-in user',
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import { supabaseAdmin } from './supabase';
+
+/**
+ * Subscription Plans
+ *
+ * Each user is on one row of the `plans` table, which caps what their API
+ * keys may be configured with. The tiers mirror the plugin's TIER_LIMITS
+ * (free/basic/pro/enterprise), with 0 meaning "no limit" as it does there.
+ */
+
+export const DEFAULT_PLAN = 'free';
+
+export const UNLIMITED = 0;
+
+export const PLAN_FEATURES = {
+  PRODUCTION_KEYS: 'production_keys',
+  UNLIMITED_USAGE: 'unlimited_usage',
+};
+
+// Monthly limit given to keys created without one on plans with no quota cap
+export const DEFAULT_UNCAPPED_MONTHLY_LIMIT = 1000;
+
+/**
+ * Gets the plan of a user
+ * @param {string} userId - The user ID
+ * @returns {Promise<Object|null>} The plans row, or null on error
+ */
+export async function getUserPlan(userId) {
+  try {
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('plan')
+      .eq('id', userId)
+      .single();
+
+    if (userError) {
+      console.error('Error fetching user plan:', userError);
+      return null;
+    }
+
+    const { data: plan, error: planError } = await supabaseAdmin
+      .from('plans')
+      .select('*')
+      .eq('slug', user?.plan || DEFAULT_PLAN)
+      .single();
+
+    if (planError) {
+      console.error('Error fetching plan:', planError);
+      return null;
+    }
+
+    return plan;
+  } catch (error) {
+    console.error('Error fetching user plan:', error);
+    return null;
+  }
+}
+
+/**
+ * Counts the API keys a user owns, not counting revoked keys
+ * @param {string} userId - The user ID
+ * @returns {Promise<number|null>} The key count, or null on error
+ */
+export async function countUserApiKeys(userId) {
+  const { count, error } = await supabaseAdmin
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Error counting API keys:', error);
+    return null;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Checks whether a plan includes a feature
+ * @param {Object} plan - The plans row
+ * @param {string} feature - One of PLAN_FEATURES
+ * @returns {boolean}
+ */
+export function planHasFeature(plan, feature) {
+  return Array.isArray(plan?.features) && plan.features.includes(feature);
+}
+
+/**
+ * Checks whether a plan allows one more API key
+ * @param {Object} plan - The plans row
+ * @param {number} keyCount - Keys the user already owns
+ * @returns {{error: string, code: string}|null} Null when allowed
+ */
+export function checkKeyAllowance(plan, keyCount) {
+  if (plan.max_api_keys !== UNLIMITED && keyCount >= plan.max_api_keys) {
+    return {
+      error: `The ${plan.name} plan allows up to ${plan.max_api_keys} API keys`,
+      code: 'plan_limit_exceeded',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Gets the monthly limit used when a key is saved without one
+ * @param {Object} plan - The plans row
+ * @returns {number}
+ */
+export function getDefaultMonthlyLimit(plan) {
+  return plan.max_monthly_limit === UNLIMITED
+    ? DEFAULT_UNCAPPED_MONTHLY_LIMIT
+    : plan.max_monthly_limit;
+}
+
+/**
+ * Validates key settings against a plan
+ * @param {Object} plan - The plans row
+ * @param {{keyType: string, limitUsage: boolean, monthlyLimit: number}} settings
+ * @returns {{error: string, code: string}|null} Null when the settings fit the plan
+ */
+export function validateKeySettings(plan, { keyType, limitUsage, monthlyLimit }) {
+  if (keyType === 'production' && !planHasFeature(plan, PLAN_FEATURES.PRODUCTION_KEYS)) {
+    return {
+      error: `Production keys are not available on the ${plan.name} plan`,
+      code: 'feature_not_in_plan',
+    };
+  }
+
+  if (!limitUsage) {
+    if (!planHasFeature(plan, PLAN_FEATURES.UNLIMITED_USAGE)) {
+      return {
+        error: `Keys without a monthly limit are not available on the ${plan.name} plan`,
+        code: 'feature_not_in_plan',
+      };
+    }
+    return null;
+  }
+
+  if (!Number.isInteger(monthlyLimit) || monthlyLimit < 1) {
+    return { error: 'monthlyLimit must be a positive integer', code: 'invalid_monthly_limit' };
+  }
+
+  if (plan.max_monthly_limit !== UNLIMITED && monthlyLimit > plan.max_monthly_limit) {
+    return {
+      error: `The ${plan.name} plan allows up to ${plan.max_monthly_limit} requests per month`,
+      code: 'plan_limit_exceeded',
+    };
+  }
+
+  return null;
+}
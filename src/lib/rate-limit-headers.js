@@ -0,0 +1,42 @@
+/**
+ * Rate Limit Response Headers
+ *
+ * Turns the quota data returned by checkAndIncrementUsage into headers so
+ * clients can back off before they hit the limit. Both the de-facto
+ * `X-RateLimit-*` headers and the IETF draft `RateLimit-*` headers are sent:
+ * - X-RateLimit-Reset is a Unix timestamp (seconds)
+ * - RateLimit-Reset is the number of seconds until the quota resets
+ */
+
+/**
+ * Builds rate limit headers from a usage result
+ * @param {{usage?: number, limit?: number, resetAt?: string}} usageResult - Result of checkAndIncrementUsage
+ * @param {Date} [now=new Date()]
+ * @returns {Record<string, string>} Empty when the key has no monthly limit
+ */
+export function buildRateLimitHeaders(usageResult, now = new Date()) {
+  const { usage = 0, limit, resetAt } = usageResult || {};
+
+  if (!limit || !resetAt) {
+    return {};
+  }
+
+  const resetDate = new Date(resetAt);
+  const remaining = Math.max(0, limit - usage);
+  const resetEpochSeconds = Math.ceil(resetDate.getTime() / 1000);
+  const secondsUntilReset = Math.max(0, resetEpochSeconds - Math.floor(now.getTime() / 1000));
+
+  // The quota window is the calendar month that ends at resetAt
+  const windowStart = Date.UTC(resetDate.getUTCFullYear(), resetDate.getUTCMonth() - 1, 1);
+  const windowSeconds = Math.round((resetDate.getTime() - windowStart) / 1000);
+
+  return {
+    'X-RateLimit-Limit': String(limit),
+    'X-RateLimit-Remaining': String(remaining),
+    'X-RateLimit-Reset': String(resetEpochSeconds),
+    'RateLimit-Limit': String(limit),
+    'RateLimit-Remaining': String(remaining),
+    'RateLimit-Reset': String(secondsUntilReset),
+    'RateLimit-Policy': `${limit};w=${windowSeconds}`,
+  };
+}
@@ -1,5 +1,11 @@
 import { createClient } from '@supabase/supabase-js';
 import { validateSupabaseEnv } from './env-validation';
+import { checkPermission } from './api-key-permissions';
+import { getKeyPrefix, isWellFormedApiKey, verifyApiKeyHash } from './api-key-crypto';
+import { checkKeyBurstLimit } from './burst-limiting';
+import { isApiKeyExpired } from './api-key-expiry';
+import { matchesPreviousSecret } from './api-key-rotation';
+import { checkKeyRestrictions } from './api-key-restrictions';
 
 // Use placeholders during build time, but validate at runtime
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
@@ -10,9 +16,12 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 /**
  * Validates an API key and returns the key data if valid
  * @param {string} apiKey - The API key to validate
- * @returns {Promise<{valid: boolean, data?: object, error?: string}>}
+ * @param {Object} [options]
+ * @param {{ip: string|null, referrer: string|null}} [options.client] - The caller, from
+ *   getRequestClient(); keys with IP or referrer allowlists are rejected without it
+ * @returns {Promise<{valid: boolean, data?: object, error?: string, code?: string}>}
  */
-export async function validateApiKey(apiKey) {
+export async function validateApiKey(apiKey, { client } = {}) {
   // Validate environment variables at runtime before use
   validateSupabaseEnv();
 
@@ -21,61 +30,179 @@ export async function validateApiKey(apiKey) {
       return {
         valid: false,
         error: 'API key is required',
+        code: 'missing_api_key',
       };
     }
 
-    // Query the database to find the API key
-    const { data, error } = await supabase.from('api_keys').select('*').eq('key', apiKey);
+    // Reject typos and scanned junk before querying the database
+    if (!isWellFormedApiKey(apiKey)) {
+      return {
+        valid: false,
+        error: 'Malformed API key',
+        code: 'malformed_api_key',
+      };
+    }
+
+    // Look up candidate keys by their display prefix; only the hash identifies the key.
+    // Recently rotated keys also match on the secret they replaced.
+    const keyPrefix = getKeyPrefix(apiKey);
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('*')
+      .or(`key_prefix.eq.${keyPrefix},previous_key_prefix.eq.${keyPrefix}`);
 
     if (error) {
       console.error('Database error during API key validation:', error);
       return {
         valid: false,
         error: 'Database error',
+        code: 'database_error',
       };
     }
 
+    const apiKeyData = (data || []).find(
+      (row) =>
+        verifyApiKeyHash(apiKey, row.key_salt, row.key_hash) || matchesPreviousSecret(row, apiKey)
+    );
+
     // Check if no API key was found
-    if (!data || data.length === 0) {
+    if (!apiKeyData) {
       return {
         valid: false,
         error: 'Invalid API key',
+        code: 'invalid_api_key',
+      };
+    }
+
+    if (apiKeyData.revoked_at) {
+      return {
+        valid: false,
+        error: 'API key has been revoked',
+        code: 'key_revoked',
+      };
+    }
+
+    if (isApiKeyExpired(apiKeyData)) {
+      return {
+        valid: false,
+        error: `API key expired on ${new Date(apiKeyData.expires_at).toISOString()}`,
+        code: 'key_expired',
+      };
+    }
+
+    const restrictionError = checkKeyRestrictions(apiKeyData, client);
+    if (restrictionError) {
+      return {
+        valid: false,
+        ...restrictionError,
       };
     }
 
     // Return the API key data
     return {
       valid: true,
-      data: data[0],
+      data: apiKeyData,
     };
   } catch (error) {
     console.error('Error validating API key:', error);
     return {
       valid: false,
       error: 'Internal server error',
+      code: 'internal_error',
     };
   }
 }
 
+/**
+ * Gets the moment monthly usage resets (start of next month, UTC)
+ * @param {Date} [now=new Date()]
+ * @returns {Date}
+ */
+export function getNextMonthlyReset(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Builds the failure fields for a request rejected by the burst limiter
+ * @param {{limit: number, retryAfter: number}} burstResult - Result from burst-limiting.js
+ * @returns {{error: string, code: string, retryAfter: number}}
+ */
+export function burstLimitError(burstResult) {
+  return {
+    error: `Too many requests. Limit is ${burstResult.limit} requests per minute, retry in ${burstResult.retryAfter}s`,
+    code: 'burst_limit_exceeded',
+    retryAfter: burstResult.retryAfter,
+  };
+}
+
 /**
  * Checks if the API key has exceeded its usage limit and increments usage if within limit
  * @param {string} apiKey - The API key to check
- * @returns {Promise<{allowed: boolean, error?: string, usage?: number, limit?: number}>}
+ * @param {Object} [options]
+ * @param {string} [options.permission] - The scope the calling route requires
+ * @param {{ip: string|null, referrer: string|null}} [options.client] - The caller, from getRequestClient()
+ * @returns {Promise<{allowed: boolean, error?: string, code?: string, usage?: number, limit?: number, resetAt?: string, retryAfter?: number, apiKeyId?: string, userId?: string}>}
+ *   apiKeyId and userId are set once the key has been identified
  */
-export async function checkAndIncrementUsage(apiKey) {
+export async function checkAndIncrementUsage(apiKey, { permission, client } = {}) {
   try {
     // First validate the API key
-    const validation = await validateApiKey(apiKey);
+    const validation = await validateApiKey(apiKey, { client });
 
     if (!validation.valid) {
       return {
         allowed: false,
         error: validation.error,
+        code: validation.code,
       };
     }
 
     const apiKeyData = validation.data;
+    // Identifies the key in the caller's usage log from here on
+    const owner = { apiKeyId: apiKeyData.id, userId: apiKeyData.user_id };
+
+    // Reject keys that lack the scope before any usage is counted
+    const permissionError = checkPermission(apiKeyData, permission);
+    if (permissionError) {
+      return {
+        allowed: false,
+        ...owner,
+        ...permissionError,
+      };
+    }
 
+    // Throttle bursts before they count against the monthly quota
+    const burstResult = await checkKeyBurstLimit(apiKeyData);
+    if (!burstResult.allowed) {
+      return {
+        allowed: false,
+        ...owner,
+        ...burstLimitError(burstResult),
+      };
+    }
+
+    return { ...owner, ...(await incrementUsage(apiKeyData)) };
+  } catch (error) {
+    console.error('Error checking usage limit:', error);
+    return {
+      allowed: false,
+      error: 'Internal server error',
+      code: 'internal_error',
+    };
+  }
+}
+
+/**
+ * Counts one request against an API key's monthly quota
+ *
+ * The limit check and the increment run as a single conditional UPDATE inside
+ * the `increment_api_key_usage` Postgres function, so concurrent requests can
+ * never push a key past its monthly limit.
+ * @param {Object} apiKeyData - The validated api_keys row
+ * @returns {Promise<{allowed: boolean, error?: string, code?: string, usage?: number, limit?: number, resetAt?: string}>}
+ */
+export async function incrementUsage(apiKeyData) {
+  try {
     // If usage limiting is not enabled, allow the request
     if (!apiKeyData.limit_usage) {
       return {
@@ -86,62 +213,83 @@ export async function checkAndIncrementUsage(apiKey) {
     }
 
     const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
-    const currentUsage = apiKeyData.current_usage || 0;
-    const monthlyLimit = Math.max(1, Math.min(10, apiKeyData.monthly_limit || 10));
-    const lastResetMonth = apiKeyData.last_reset_month;
-
-    // Check if we need to reset usage for a new month
-    let newUsage;
-    if (!lastResetMonth || lastResetMonth !== currentMonth) {
-      // New month - reset usage to 1 (0 + 1 for this request)
-      newUsage = 1;
-    } else {
-      // Same month - increment by 1
-      newUsage = currentUsage + 1;
-    }
+    const resetAt = getNextMonthlyReset().toISOString();
+    // monthly_limit is checked against the owner's plan whenever the key is saved
+    const monthlyLimit = apiKeyData.monthly_limit || 0;
 
-    // Check if the new usage would exceed the limit
-    if (newUsage > monthlyLimit) {
+    const { data, error } = await supabase.rpc('increment_api_key_usage', {
+      p_key_id: apiKeyData.id,
+      p_month: currentMonth,
+      p_limit: monthlyLimit,
+    });
+
+    if (error) {
+      console.error('Error updating API key usage:', error);
       return {
         allowed: false,
-        error: `Rate limit exceeded. Usage: ${currentUsage}/${monthlyLimit} requests this month`,
-        usage: currentUsage,
-        limit: monthlyLimit,
+        error: 'Failed to update usage count',
+        code: 'database_error',
       };
     }
 
-    // Update the usage count and reset month
-    const { error: updateError } = await supabase
-      .from('api_keys')
-      .update({
-        current_usage: newUsage,
-        last_reset_month: currentMonth,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('key', apiKey);
-
-    if (updateError) {
-      console.error('Error updating API key usage:', updateError);
+    const result = Array.isArray(data) ? data[0] : data;
+
+    if (!result?.allowed) {
+      const currentUsage = result?.usage_count ?? monthlyLimit;
       return {
         allowed: false,
-        error: 'Failed to update usage count',
+        error: `Rate limit exceeded. Usage: ${currentUsage}/${monthlyLimit} requests this month`,
+        code: 'usage_limit_exceeded',
+        usage: currentUsage,
+        limit: monthlyLimit,
+        resetAt,
       };
     }
 
     return {
       allowed: true,
-      usage: newUsage,
+      usage: result.usage_count,
       limit: monthlyLimit,
+      resetAt,
     };
   } catch (error) {
-    console.error('Error checking usage limit:', error);
+    console.error('Error incrementing usage:', error);
     return {
       allowed: false,
       error: 'Internal server error',
+      code: 'internal_error',
     };
   }
 }
 
+/**
+ * Gives back one request counted by incrementUsage this month
+ *
+ * Used for calls that turned out to cost nothing, such as analysis cache hits
+ * when ANALYSIS_CACHE_FREE_HITS is set. Never takes usage below zero or
+ * touches a month that has already been reset.
+ * @param {string} apiKeyId - The api_keys row to credit
+ * @returns {Promise<{usage?: number, error?: string}>} The usage after the refund
+ */
+export async function refundUsage(apiKeyId) {
+  try {
+    const { data, error } = await supabase.rpc('refund_api_key_usage', {
+      p_key_id: apiKeyId,
+      p_month: new Date().toISOString().slice(0, 7),
+    });
+
+    if (error) {
+      console.error('Error refunding API key usage:', error);
+      return { error: 'Failed to refund usage' };
+    }
+
+    return { usage: data };
+  } catch (error) {
+    console.error('Error refunding usage:', error);
+    return { error: 'Internal server error' };
+  }
+}
+
 /**
  * Gets the current usage information for an API key
  * @param {string} apiKey - The API key to check
@@ -158,7 +306,7 @@ export async function getUsageInfo(apiKey) {
 
     const apiKeyData = validation.data;
     const currentUsage = apiKeyData.current_usage || 0;
-    const monthlyLimit = Math.max(1, Math.min(10, apiKeyData.monthly_limit || 10));
+    const monthlyLimit = apiKeyData.monthly_limit || 0;
 
     return {
       usage: currentUsage,
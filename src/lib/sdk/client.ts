@@ -0,0 +1,220 @@
+import { NetworkError, RateLimitError, ServerError, toApiError, type ApiErrorBody } from './errors';
+import type {
+  ApiKey,
+  ApiKeyInput,
+  ClientOptions,
+  CreatedApiKey,
+  RateLimitInfo,
+  RepositorySummary,
+  RevokeApiKeyInput,
+  RotateApiKeyInput,
+  SummarizeOptions,
+} from './types';
+
+/**
+ * Public API Client
+ *
+ * Works wherever `fetch` exists (browsers and Node 18+). A 429 is rejected
+ * before the request is processed, so any request that gets one is retried
+ * after its Retry-After, unless that is too far away (such as an exhausted
+ * monthly quota). A 5xx or a network error may come after the server acted,
+ * so only GET, PUT and DELETE are retried on those, with exponential backoff;
+ * a POST such as creating a key or running an analysis is not repeated.
+ */
+
+const API_PATH = '/api/v1';
+
+const DEFAULTS = {
+  maxRetries: 2,
+  retryDelayMs: 500,
+  maxRetryDelayMs: 60_000,
+  timeoutMs: 60_000,
+};
+
+interface RequestOptions {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  body?: unknown;
+  auth: 'apiKey' | 'session' | null;
+}
+
+interface Envelope<T> {
+  data?: T;
+  error?: ApiErrorBody;
+  request_id?: string;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reads the quota state from the RateLimit headers
+ * @param headers - Response headers
+ * @param now - Reference time for the relative RateLimit-Reset
+ * @returns Null when the response was not metered
+ */
+export function parseRateLimitHeaders(headers: Headers, now = Date.now()): RateLimitInfo | null {
+  const limit = headers.get('RateLimit-Limit') ?? headers.get('X-RateLimit-Limit');
+  const remaining = headers.get('RateLimit-Remaining') ?? headers.get('X-RateLimit-Remaining');
+  if (limit === null || remaining === null) return null;
+
+  // Prefer the absolute reset time; RateLimit-Reset is relative to the response
+  const resetEpochSeconds = headers.get('X-RateLimit-Reset');
+  const secondsUntilReset = headers.get('RateLimit-Reset');
+  const resetAt =
+    resetEpochSeconds !== null
+      ? new Date(Number(resetEpochSeconds) * 1000)
+      : new Date(now + Number(secondsUntilReset ?? 0) * 1000);
+
+  return { limit: Number(limit), remaining: Number(remaining), resetAt };
+}
+
+/**
+ * Creates a client for the public API
+ * @param options - See ClientOptions
+ */
+export function createClient(options: ClientOptions = {}) {
+  const settings = { ...DEFAULTS, ...options };
+  const fetchImpl = options.fetch || globalThis.fetch.bind(globalThis);
+  const sleep = options.sleep || defaultSleep;
+  const baseUrl = (options.baseUrl || '').replace(/\/$/, '');
+  let lastRateLimit: RateLimitInfo | null = null;
+
+  // How long to wait before retry number `attempt` (0-based), or null to give up
+  const retryDelay = (error: unknown, method: RequestOptions['method'], attempt: number) => {
+    if (attempt >= settings.maxRetries) return null;
+
+    const backoff = settings.retryDelayMs * 2 ** attempt;
+    if (error instanceof RateLimitError) {
+      const retryAfterMs = error.retryAfter === null ? backoff : error.retryAfter * 1000;
+      return retryAfterMs <= settings.maxRetryDelayMs ? retryAfterMs : null;
+    }
+    if (method !== 'POST' && (error instanceof ServerError || error instanceof NetworkError)) {
+      return Math.min(backoff, settings.maxRetryDelayMs);
+    }
+    return null;
+  };
+
+  const send = async <T>({ method, path, body, auth }: RequestOptions): Promise<T> => {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (auth === 'apiKey' && settings.apiKey) headers['x-api-key'] = settings.apiKey;
+    if (auth === 'session' && settings.sessionCookie) headers.Cookie = settings.sessionCookie;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}${API_PATH}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        // Browsers send the session cookie only when asked to
+        credentials: auth === 'session' ? 'include' : 'same-origin',
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new NetworkError(
+        controller.signal.aborted
+          ? `Request timed out after ${settings.timeoutMs} ms`
+          : 'Network request failed',
+        error
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    if (rateLimit) {
+      lastRateLimit = rateLimit;
+      options.onRateLimit?.(rateLimit);
+    }
+
+    const envelope: Envelope<T> = await response.json().catch(() => ({}));
+    const requestId = envelope.request_id || response.headers.get('X-Request-Id');
+
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw toApiError(
+        {
+          code: envelope.error?.code || 'internal_error',
+          message: envelope.error?.message || `Request failed with status ${response.status}`,
+          details: {
+            ...(Number.isFinite(retryAfter) && retryAfter > 0 && { retryAfter }),
+            ...envelope.error?.details,
+          },
+        },
+        response.status,
+        requestId
+      );
+    }
+
+    return envelope.data as T;
+  };
+
+  const request = async <T>(requestOptions: RequestOptions): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send<T>(requestOptions);
+      } catch (error) {
+        const delay = retryDelay(error, requestOptions.method, attempt);
+        if (delay === null) throw error;
+        await sleep(delay);
+      }
+    }
+  };
+
+  const keyPath = (id: string) => `/api-keys/${encodeURIComponent(id)}`;
+
+  return {
+    /** Quota state of the last metered response, if any */
+    get rateLimit() {
+      return lastRateLimit;
+    },
+
+    /**
+     * Analyzes a repository; needs an API key with the `read` scope. Pass
+     * `analysisProfile: 'detailed'` or `'security'` for more than summary and facts, and
+     * `forceRefresh: true` to analyze again instead of using a cached analysis
+     */
+    summarizeRepo: (githubUrl: string, options: SummarizeOptions = {}) =>
+      request<RepositorySummary>({
+        method: 'POST',
+        path: '/github-summarizer',
+        body: { githubUrl, ...options },
+        auth: 'apiKey',
+      }),
+
+    /** Checks an API key, by default the client's own, and returns its details */
+    validateKey: (apiKey = settings.apiKey) =>
+      request<ApiKey>({ method: 'POST', path: '/validate-key', body: { apiKey }, auth: null }),
+
+    listKeys: () => request<ApiKey[]>({ method: 'GET', path: '/api-keys', auth: 'session' }),
+
+    getKey: (id: string) => request<ApiKey>({ method: 'GET', path: keyPath(id), auth: 'session' }),
+
+    /** Creates a key; the full secret is only in this result */
+    createKey: (input: ApiKeyInput) =>
+      request<CreatedApiKey>({ method: 'POST', path: '/api-keys', body: input, auth: 'session' }),
+
+    updateKey: (id: string, input: ApiKeyInput) =>
+      request<ApiKey>({ method: 'PUT', path: keyPath(id), body: input, auth: 'session' }),
+
+    /** Issues a new secret; the old one keeps working for the grace period */
+    rotateKey: (id: string, input: RotateApiKeyInput = {}) =>
+      request<CreatedApiKey>({
+        method: 'POST',
+        path: `${keyPath(id)}/rotate`,
+        body: input,
+        auth: 'session',
+      }),
+
+    revokeKey: (id: string, input: RevokeApiKeyInput = {}) =>
+      request<ApiKey>({ method: 'DELETE', path: keyPath(id), body: input, auth: 'session' }),
+
+    restoreKey: (id: string) =>
+      request<ApiKey>({ method: 'POST', path: `${keyPath(id)}/restore`, auth: 'session' }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createClient>;
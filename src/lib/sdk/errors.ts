@@ -0,0 +1,106 @@
+/**
+ * SDK Error Classes
+ *
+ * Every failed call throws an ApiError subclass chosen from the response's
+ * `error.code`, so callers can branch with `instanceof` instead of comparing
+ * strings. Codes the SDK does not know yet fall back to ApiError itself.
+ */
+
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export class ApiError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly requestId: string | null;
+  readonly details: Record<string, unknown>;
+
+  constructor(body: ApiErrorBody, status: number, requestId: string | null = null) {
+    super(body.message);
+    this.name = new.target.name;
+    this.code = body.code;
+    this.status = status;
+    this.requestId = requestId;
+    this.details = body.details || {};
+  }
+}
+
+/** The request was malformed or a setting is invalid */
+export class ValidationError extends ApiError {}
+
+/** The API key or session is missing, unknown, expired or revoked */
+export class AuthenticationError extends ApiError {}
+
+/** The key lacks a scope, the caller is outside its allowlists, or the plan does not allow it */
+export class PermissionDeniedError extends ApiError {}
+
+export class NotFoundError extends ApiError {}
+
+export class ConflictError extends ApiError {}
+
+/** The monthly quota or the per-minute burst limit was hit */
+export class RateLimitError extends ApiError {
+  /** Seconds to wait before trying again, when the server said */
+  get retryAfter(): number | null {
+    const value = Number(this.details.retryAfter);
+    return Number.isFinite(value) ? value : null;
+  }
+}
+
+/** GitHub or the language model failed while analyzing a repository */
+export class UpstreamError extends ApiError {}
+
+export class ServerError extends ApiError {}
+
+/** No response arrived: the network failed or the request timed out */
+export class NetworkError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export const ERROR_CLASSES: Record<string, typeof ApiError> = {
+  invalid_request: ValidationError,
+  missing_api_key: ValidationError,
+  invalid_monthly_limit: ValidationError,
+  invalid_expiry: ValidationError,
+  expiry_required: ValidationError,
+  invalid_grace_period: ValidationError,
+  invalid_ip_allowlist: ValidationError,
+  invalid_referrer_allowlist: ValidationError,
+  invalid_api_key: AuthenticationError,
+  malformed_api_key: AuthenticationError,
+  key_expired: AuthenticationError,
+  key_revoked: AuthenticationError,
+  authentication_required: AuthenticationError,
+  insufficient_permission: PermissionDeniedError,
+  feature_not_in_plan: PermissionDeniedError,
+  plan_limit_exceeded: PermissionDeniedError,
+  ip_not_allowed: PermissionDeniedError,
+  referrer_not_allowed: PermissionDeniedError,
+  not_found: NotFoundError,
+  conflict: ConflictError,
+  usage_limit_exceeded: RateLimitError,
+  burst_limit_exceeded: RateLimitError,
+  fetch_readme_failed: UpstreamError,
+  analyze_failed: UpstreamError,
+  database_error: ServerError,
+  internal_error: ServerError,
+};
+
+/**
+ * Builds the error for a failed response
+ * @param body - The `error` object of the response envelope
+ * @param status - HTTP status
+ * @param requestId - The response's request_id
+ */
+export function toApiError(body: ApiErrorBody, status: number, requestId: string | null) {
+  const ErrorClass =
+    ERROR_CLASSES[body.code] ||
+    (status === 429 ? RateLimitError : status >= 500 ? ServerError : ApiError);
+  return new ErrorClass(body, status, requestId);
+}
@@ -0,0 +1,14 @@
+/**
+ * Xpto API SDK
+ *
+ * Typed client for the public /api/v1 API:
+ *
+ *   const client = createClient({ baseUrl: 'https://xpto.space', apiKey });
+ *   const { analysis } = await client.summarizeRepo('https://github.com/owner/repo');
+ *
+ * Failures throw the ApiError subclass matching the response's `error.code`.
+ */
+
+export { createClient, parseRateLimitHeaders, type ApiClient } from './client';
+export * from './errors';
+export type * from './types';
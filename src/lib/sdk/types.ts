@@ -0,0 +1,69 @@
+import type { z } from 'zod';
+import type {
+  AnalysisProfileSchema,
+  ApiKeyRequestSchema,
+  ApiKeySchema,
+  CreatedApiKeySchema,
+  DetailedRepositoryAnalysisSchema,
+  PermissionSchema,
+  KeyTypeSchema,
+  RevokeApiKeyRequestSchema,
+  RotateApiKeyRequestSchema,
+  SecurityRepositoryAnalysisSchema,
+  SummarizeRequestSchema,
+  SummarizeResponseSchema,
+} from '../api-schemas';
+
+/**
+ * Request and response types of the public API
+ *
+ * Inferred from the zod schemas the routes validate against, so the SDK and
+ * the server cannot drift apart. Only types are imported: the SDK does not
+ * pull zod into the bundles that use it.
+ */
+
+export type Permission = z.output<typeof PermissionSchema>;
+export type KeyType = z.output<typeof KeyTypeSchema>;
+export type ApiKey = z.output<typeof ApiKeySchema>;
+export type CreatedApiKey = z.output<typeof CreatedApiKeySchema>;
+export type ApiKeyInput = z.input<typeof ApiKeyRequestSchema>;
+export type RotateApiKeyInput = z.input<typeof RotateApiKeyRequestSchema>;
+export type RevokeApiKeyInput = z.input<typeof RevokeApiKeyRequestSchema>;
+export type AnalysisProfile = z.output<typeof AnalysisProfileSchema>;
+export type SummarizeOptions = Omit<z.input<typeof SummarizeRequestSchema>, 'githubUrl'>;
+export type RepositorySummary = z.output<typeof SummarizeResponseSchema>;
+export type DetailedRepositoryAnalysis = z.output<typeof DetailedRepositoryAnalysisSchema>;
+export type SecurityRepositoryAnalysis = z.output<typeof SecurityRepositoryAnalysisSchema>;
+
+/** Quota state from the RateLimit headers of the last metered response */
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface ClientOptions {
+  /** Origin of the API, e.g. `https://xpto.space`; leave empty in the browser to use the current site */
+  baseUrl?: string;
+  /** Sent as `x-api-key` to key-authenticated endpoints */
+  apiKey?: string;
+  /** Raw `Cookie` header for session-authenticated endpoints when not running in a browser */
+  sessionCookie?: string;
+  /**
+   * Retries after a 429 response, and for GET, PUT and DELETE also after a 5xx
+   * response or a network error (default 2). POSTs are not retried on those,
+   * since the server may already have created a key or counted an analysis
+   */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled on each further attempt (default 500 ms) */
+  retryDelayMs?: number;
+  /** A 429 whose Retry-After is longer than this is not retried (default 60 s) */
+  maxRetryDelayMs?: number;
+  /** Aborts a request that takes longer (default 60 s) */
+  timeoutMs?: number;
+  /** Called with the quota state of every metered response */
+  onRateLimit?: (rateLimit: RateLimitInfo) => void;
+  fetch?: typeof fetch;
+  /** Replaceable in tests */
+  sleep?: (ms: number) => Promise<void>;
+}
@@ -0,0 +1,167 @@
+/**
+ * Usage Analytics
+ *
+ * Turns rows from `api_usage_events` into the summaries shown on the usage
+ * dashboard. Kept free of database access so the aggregation can be tested on
+ * plain arrays.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RANGE_DAYS = 30;
+export const MAX_RANGE_DAYS = 90;
+const TOP_REPOSITORIES = 10;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Formats a date as YYYY-MM-DD (UTC)
+ * @param {Date|string} date
+ * @returns {string}
+ */
+function toDay(date) {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Parses the from/to query parameters of a usage request
+ *
+ * Both are inclusive UTC days (YYYY-MM-DD). `to` defaults to today and `from`
+ * to DEFAULT_RANGE_DAYS before it.
+ * @param {{from?: string|null, to?: string|null}} params
+ * @param {Date} [now=new Date()]
+ * @returns {{from: string, to: string, start: string, end: string}|{error: string}}
+ *   start/end are the ISO timestamps bounding the range (end exclusive)
+ */
+export function parseUsageRange({ from, to }, now = new Date()) {
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+
+  const toDate = new Date(`${to || toDay(now)}T00:00:00.000Z`);
+  const fromDate = from
+    ? new Date(`${from}T00:00:00.000Z`)
+    : new Date(toDate.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+
+  if (Number.isNaN(fromDate.getTime()) || Number.isNaN(toDate.getTime())) {
+    return { error: 'from and to must be valid dates' };
+  }
+
+  if (fromDate > toDate) {
+    return { error: 'from must not be after to' };
+  }
+
+  if ((toDate - fromDate) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    return { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` };
+  }
+
+  return {
+    from: toDay(fromDate),
+    to: toDay(toDate),
+    start: fromDate.toISOString(),
+    end: new Date(toDate.getTime() + DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Gets a percentile using the nearest-rank method
+ * @param {number[]} values
+ * @param {number} p - Percentile between 0 and 100
+ * @returns {number|null} Null when there are no values
+ */
+export function percentile(values, p) {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+  return sorted[rank - 1];
+}
+
+const isSuccess = (event) => event.status_code < 400;
+
+/**
+ * Aggregates usage events for the dashboard
+ * @param {Object[]} events - api_usage_events rows
+ * @param {Object} options
+ * @param {string} options.from - First day of the range (YYYY-MM-DD)
+ * @param {string} options.to - Last day of the range (YYYY-MM-DD)
+ * @param {Object<string, string>} [options.keyNames] - api_key_id → display name
+ */
+export function aggregateUsageEvents(events, { from, to, keyNames = {} }) {
+  // Every day in the range gets a bucket so charts show gaps as zeroes
+  const days = new Map();
+  for (let t = Date.parse(`${from}T00:00:00Z`); t <= Date.parse(`${to}T00:00:00Z`); t += DAY_MS) {
+    days.set(toDay(t), { date: toDay(t), success: 0, error: 0 });
+  }
+
+  const keys = new Map();
+  const errorClasses = new Map();
+  const repositories = new Map();
+  const latencies = [];
+  let successCount = 0;
+  let totalTokens = 0;
+
+  for (const event of events) {
+    const succeeded = isSuccess(event);
+    const outcome = succeeded ? 'success' : 'error';
+
+    const day = days.get(toDay(event.created_at));
+    if (day) {
+      day[outcome] += 1;
+    }
+
+    const keyId = event.api_key_id || 'deleted';
+    if (!keys.has(keyId)) {
+      keys.set(keyId, {
+        apiKeyId: event.api_key_id,
+        name: event.api_key_id ? keyNames[event.api_key_id] || 'Unknown key' : 'Deleted keys',
+        success: 0,
+        error: 0,
+      });
+    }
+    keys.get(keyId)[outcome] += 1;
+
+    if (succeeded) {
+      successCount += 1;
+    } else {
+      const errorClass = event.error_class || `http_${event.status_code}`;
+      errorClasses.set(errorClass, (errorClasses.get(errorClass) || 0) + 1);
+    }
+
+    if (event.github_url) {
+      const repo = repositories.get(event.github_url) || { githubUrl: event.github_url, count: 0 };
+      repo.count += 1;
+      repositories.set(event.github_url, repo);
+    }
+
+    if (typeof event.latency_ms === 'number') {
+      latencies.push(event.latency_ms);
+    }
+
+    totalTokens += event.total_tokens || 0;
+  }
+
+  return {
+    range: { from, to },
+    totals: {
+      requests: events.length,
+      success: successCount,
+      error: events.length - successCount,
+      tokens: totalTokens,
+    },
+    latency: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+    byDay: [...days.values()],
+    byKey: [...keys.values()].sort((a, b) => b.success + b.error - (a.success + a.error)),
+    errorClasses: [...errorClasses.entries()]
+      .map(([errorClass, count]) => ({ errorClass, count }))
+      .sort((a, b) => b.count - a.count),
+    topRepositories: [...repositories.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_REPOSITORIES),
+  };
+}
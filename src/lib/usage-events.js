@@ -0,0 +1,87 @@
+import { supabaseAdmin } from './supabase';
+
+/**
+ * API Usage Events
+ *
+ * Append-only log of metered API calls in the `api_usage_events` table. Unlike
+ * api_keys.current_usage, which is overwritten every month, each request gets
+ * its own row so past activity can be queried per key and per day. Rows older
+ * than the retention window are removed by purge_api_usage_events().
+ */
+
+/**
+ * Creates a LangChain callback handler that adds up token usage across LLM calls
+ * @returns {{handler: Object, usage: {promptTokens: number, completionTokens: number, totalTokens: number}}}
+ */
+export function createTokenUsageCollector() {
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  const handler = {
+    handleLLMEnd(output) {
+      const tokenUsage = output?.llmOutput?.tokenUsage || output?.llmOutput?.estimatedTokenUsage;
+      if (!tokenUsage) {
+        return;
+      }
+
+      usage.promptTokens += tokenUsage.promptTokens || 0;
+      usage.completionTokens += tokenUsage.completionTokens || 0;
+      usage.totalTokens += tokenUsage.totalTokens || 0;
+    },
+  };
+
+  return { handler, usage };
+}
+
+/**
+ * Records one API call
+ *
+ * Logging must never break the request it describes, so errors are logged and
+ * swallowed.
+ * @param {Object} event
+ * @param {string} event.apiKeyId - The api_keys row that made the call
+ * @param {string} event.userId - Owner of the key
+ * @param {string} event.endpoint - Route path, e.g. '/api/github-summarizer'
+ * @param {number} event.statusCode - HTTP status returned to the client
+ * @param {number} event.latencyMs - Time spent handling the request
+ * @param {string} [event.githubUrl] - Repository the call was about
+ * @param {{promptTokens: number, completionTokens: number, totalTokens: number}} [event.tokens]
+ * @param {string} [event.errorClass] - Error code for failed calls
+ * @returns {Promise<boolean>} Whether the event was stored
+ */
+export async function recordUsageEvent({
+  apiKeyId,
+  userId,
+  endpoint,
+  statusCode,
+  latencyMs,
+  githubUrl,
+  tokens,
+  errorClass,
+}) {
+  try {
+    const { error } = await supabaseAdmin.from('api_usage_events').insert([
+      {
+        api_key_id: apiKeyId,
+        user_id: userId,
+        endpoint,
+        github_url: githubUrl || null,
+        status_code: statusCode,
+        latency_ms: Math.round(latencyMs),
+        prompt_tokens: tokens?.promptTokens ?? null,
+        completion_tokens: tokens?.completionTokens ?? null,
+        total_tokens: tokens?.totalTokens ?? null,
+        error_class: errorClass || null,
+      },
+    ]);
+
+    if (error) {
+      console.error('Error recording usage event:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error recording usage event:', error);
+    return false;
+  }
+}
@@ -34,6 +34,14 @@ let allTestsPassed = true;
 // Test 1: Environment Variables
 log.section('1️⃣  CHECKING ENVIRONMENT VARIABLES');
 
+const llmProvider = process.env.LLM_PROVIDER || 'openai';
+
+const providerEnvVars = {
+  openai: { OPENAI_API_KEY: 'OpenAI API Key' },
+  anthropic: { ANTHROPIC_API_KEY: 'Anthropic API Key' },
+  'openai-compatible': { LLM_MODEL: 'Model served by the OpenAI-compatible endpoint' },
+};
+
 const requiredEnvVars = {
   NEXT_PUBLIC_SUPABASE_URL: 'Supabase Project URL',
   NEXT_PUBLIC_SUPABASE_ANON_KEY: 'Supabase Anon Key',
@@ -42,7 +50,8 @@ const requiredEnvVars = {
   NEXTAUTH_URL: 'NextAuth URL',
   GOOGLE_CLIENT_ID: 'Google OAuth Client ID',
   GOOGLE_CLIENT_SECRET: 'Google OAuth Client Secret',
-  OPENAI_API_KEY: 'OpenAI API Key',
+  // The language model provider decides which key is needed (see src/lib/llm-provider.js)
+  ...providerEnvVars[llmProvider],
 };
 
 const missingVars = [];
@@ -270,7 +279,7 @@ async function runAllTests() {
 
     // Then run async tests
     const supabaseOk = await testSupabase();
-    const openaiOk = await testOpenAI();
+    const openaiOk = llmProvider === 'openai' ? await testOpenAI() : true;
 
     // Final summary
     log.section('📊 VALIDATION SUMMARY');